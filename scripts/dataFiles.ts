@@ -0,0 +1,38 @@
+import { existsSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+import { decodeCsv, parseCsv } from '../src/dataIndex'
+import type { ParsedCsv } from '../src/dataIndex'
+import type { CensusRow } from '../src/types'
+import { FALLBACK_MANIFEST, VINTAGE_MANIFEST_FILE, parseVintageManifest } from '../src/vintages'
+import type { Vintage, VintageManifest } from '../src/vintages'
+
+// Reading public/data from Node, shared by the data index plugin and the
+// jurisdiction-pull command-line tool.
+
+/**
+ * Reads vintages.json from the data directory, or the built-in vintage list
+ * (after calling `warn`) when the file isn't there.
+ */
+export function readManifest(dataDir: string, warn: (message: string) => void): VintageManifest {
+  const filePath = path.join(dataDir, VINTAGE_MANIFEST_FILE)
+  if (!existsSync(filePath)) {
+    warn(`${VINTAGE_MANIFEST_FILE} not found in ${dataDir}; using the built-in vintage list`)
+    return FALLBACK_MANIFEST
+  }
+  return parseVintageManifest(JSON.parse(readFileSync(filePath, 'utf8')))
+}
+
+/**
+ * Parses one of a vintage's CSVs, applying its column aliases. Null when the
+ * vintage has no such file or it isn't in the data directory.
+ */
+export function readVintageCsv<T extends CensusRow = CensusRow>(
+  dataDir: string,
+  vintage: Vintage,
+  file: string | null
+): ParsedCsv<T> | null {
+  if (!file) return null
+  const filePath = path.join(dataDir, file)
+  if (!existsSync(filePath)) return null
+  return parseCsv<T>(decodeCsv(readFileSync(filePath)), vintage.columnAliases)
+}
@@ -0,0 +1,72 @@
+import path from 'node:path'
+import type { Plugin } from 'vite'
+import { buildDataIndexFile } from '../src/dataIndex'
+import { getDataIndexFile } from '../src/vintages'
+import type { Vintage } from '../src/vintages'
+import { readManifest as readDataManifest, readVintageCsv } from './dataFiles'
+
+function readManifest(dataDir: string) {
+  return readDataManifest(dataDir, (message) => console.warn(`[data-index] ${message}`))
+}
+
+function readCsv(dataDir: string, vintage: Vintage, file: string | null) {
+  const parsed = readVintageCsv(dataDir, vintage, file)
+  if (file && !parsed) {
+    console.warn(`[data-index] ${file} not found in ${dataDir}; the ${vintage.id} index will not include it`)
+  }
+  return parsed
+}
+
+function buildIndexJson(dataDir: string, vintage: Vintage): string {
+  const index = buildDataIndexFile(
+    readCsv(dataDir, vintage, vintage.files.places),
+    readCsv(dataDir, vintage, vintage.files.counties)
+  )
+  return JSON.stringify(index)
+}
+
+/**
+ * Turns the raw Census CSVs in public/data into one data/data-index-<id>.json
+ * per vintage in vintages.json: only the summary levels the app uses, stored
+ * by column. The build emits them as assets; the dev server builds each on
+ * first request.
+ */
+export default function dataIndexPlugin(): Plugin {
+  let dataDir = ''
+  const cached = new Map<string, string>()
+
+  return {
+    name: 'jurisdiction-data-index',
+
+    configResolved(config) {
+      dataDir = path.join(config.publicDir, 'data')
+    },
+
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const match = req.url?.split('?')[0].match(/\/data\/data-index-([\w-]+)\.json$/)
+        const vintage = match && readManifest(dataDir).vintages.find((v) => v.id === match[1])
+        if (!vintage) return next()
+        if (!cached.has(vintage.id)) {
+          cached.set(vintage.id, buildIndexJson(dataDir, vintage))
+        }
+        res.setHeader('Content-Type', 'application/json')
+        res.end(cached.get(vintage.id))
+      })
+      // Rebuild on the next request after a data file changes
+      server.watcher.on('change', (file) => {
+        if (file.startsWith(dataDir)) cached.clear()
+      })
+    },
+
+    generateBundle() {
+      readManifest(dataDir).vintages.forEach((vintage) => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `data/${getDataIndexFile(vintage)}`,
+          source: buildIndexJson(dataDir, vintage),
+        })
+      })
+    },
+  }
+}
@@ -0,0 +1,170 @@
+import { writeFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { describeCodeChange } from '../src/crosswalk'
+import { indexData } from '../src/dataIndex'
+import type { FileStatus, LoadedData } from '../src/dataIndex'
+import { tableToCsv, tableToJson, tableToXlsx } from '../src/exportFormats'
+import type { ExportFormat } from '../src/exportFormats'
+import { getAvailableMetrics, getMetricDefinition } from '../src/metrics'
+import { classifyCode, parseCodeList, runQuery } from '../src/query'
+import type { QueryIssue } from '../src/query'
+import { buildResultExportTable } from '../src/results'
+import { isSubcountyType } from '../src/subcounty'
+import type { CountyRow, PlaceRow } from '../src/types'
+import { getTypeLabel } from '../src/utils'
+import { getVintageLabel } from '../src/vintages'
+import type { Vintage } from '../src/vintages'
+import { readManifest, readVintageCsv } from './dataFiles'
+
+// jurisdiction-pull: the app's queries from the command line, read from the
+// same CSVs. Built to dist-cli/ by `npm run build:cli`.
+
+const USAGE = `Usage: jurisdiction-pull --fips <codes> --metric <metrics> [options]
+
+Looks up Census population estimates by GEOID/FIPS code.
+
+  -f, --fips <codes>      Comma-separated place GEOIDs (7 digits), county FIPS (5),
+                          state FIPS (2), 00 for the United States, or GEOIDs of
+                          county subdivisions (10) and consolidated cities (7)
+  -m, --metric <metrics>  Comma-separated metric ids, e.g. pop2024,births2024
+  -v, --vintage <id>      Data vintage from vintages.json (default: its default vintage)
+      --format <format>   csv (default), json or xlsx
+  -o, --output <file>     Write to a file instead of standard output (required for xlsx)
+      --data <dir>        Directory with vintages.json and the CSVs (default: the app's public/data)
+      --list-metrics      List the metric ids the vintage offers and exit
+  -h, --help              Show this help
+
+Retired codes, such as Connecticut's old counties, are answered for the
+jurisdictions that replaced them, with a note on standard error.
+Exits with 2 when some codes or metrics couldn't be answered; they are listed on standard error.`
+
+const FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx']
+
+// Next to dist-cli/ once built
+const DEFAULT_DATA_DIR = fileURLToPath(new URL('../public/data', import.meta.url))
+
+// Prints a usage problem and returns the exit code for it
+function usageError(message: string): number {
+  console.error(message)
+  console.error('Run jurisdiction-pull --help for usage.')
+  return 1
+}
+
+function readOptions() {
+  const { values } = parseArgs({
+    options: {
+      fips: { type: 'string', short: 'f' },
+      metric: { type: 'string', short: 'm' },
+      vintage: { type: 'string', short: 'v' },
+      format: { type: 'string', default: 'csv' },
+      output: { type: 'string', short: 'o' },
+      data: { type: 'string', default: DEFAULT_DATA_DIR },
+      'list-metrics': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+  return { ...values, format: values.format as ExportFormat }
+}
+
+function readFile<T extends PlaceRow | CountyRow>(dataDir: string, vintage: Vintage, file: string | null) {
+  const parsed = readVintageCsv<T>(dataDir, vintage, file)
+  if (file && !parsed) console.error(`Warning: ${file} not found in ${dataDir}`)
+  const status: FileStatus = { file, source: 'csv', error: file && !parsed ? `not found in ${dataDir}` : null }
+  return { parsed, status }
+}
+
+// Both files of a vintage, indexed by the same indexData as the app's data
+// worker, so place–county links also come from the place file's place-part
+// rows; like the app, one missing file is only a warning. The worker may read
+// the prebuilt index instead of the CSVs, but it holds the same rows.
+function loadVintage(dataDir: string, vintage: Vintage): LoadedData {
+  const places = readFile<PlaceRow>(dataDir, vintage, vintage.files.places)
+  const counties = readFile<CountyRow>(dataDir, vintage, vintage.files.counties)
+  if (!places.parsed && !counties.parsed) throw new Error(`No data files for vintage ${vintage.id} in ${dataDir}`)
+  return indexData(places.parsed, counties.parsed, { places: places.status, counties: counties.status })
+}
+
+// Codes of the place file's levels can't be answered when it didn't load; say
+// so, rather than that the metric or jurisdiction is missing
+function explainIssue(issue: QueryIssue, data: LoadedData): string {
+  const placeFile = data.diagnostics.find((file) => file.kind === 'places')
+  if (!placeFile?.error || !/^\d+$/.test(issue.code)) return issue.reason
+  const { types } = classifyCode(issue.code)
+  if (!types.every((type) => type === 'place' || isSubcountyType(type))) return issue.reason
+  return `Place data was not loaded (${placeFile.file}: ${placeFile.error})`
+}
+
+async function main(): Promise<number> {
+  let options: ReturnType<typeof readOptions>
+  try {
+    options = readOptions()
+  } catch (err) {
+    // Unknown options and missing option values
+    return usageError(err instanceof Error ? err.message : String(err))
+  }
+  if (options.help) {
+    console.log(USAGE)
+    return 0
+  }
+  if (!FORMATS.includes(options.format)) return usageError(`Unknown format "${options.format}"; use csv, json or xlsx`)
+  if (options.format === 'xlsx' && !options.output) return usageError('--format xlsx needs --output <file>')
+
+  // Checked before the data is read, which takes a few seconds
+  const codes = parseCodeList(options.fips ?? '')
+  const metrics = parseCodeList(options.metric ?? '')
+  if (!options['list-metrics']) {
+    if (codes.length === 0 || metrics.length === 0) return usageError('--fips and --metric are required')
+    const unknown = metrics.filter((metric) => !getMetricDefinition(metric))
+    if (unknown.length > 0) {
+      return usageError(`Unknown metric ${unknown.join(', ')}; run with --list-metrics to see the ids`)
+    }
+  }
+
+  const manifest = readManifest(options.data, (message) => console.error(`Warning: ${message}`))
+  const vintageId = options.vintage ?? manifest.defaultVintage
+  const vintage = manifest.vintages.find((v) => v.id === vintageId)
+  if (!vintage) {
+    return usageError(`Unknown vintage "${vintageId}"; available: ${manifest.vintages.map((v) => v.id).join(', ')}`)
+  }
+  const data = loadVintage(options.data, vintage)
+
+  if (options['list-metrics']) {
+    const types = ['place', 'county'] as const
+    types.forEach((type) => {
+      console.log(`${getTypeLabel(type)}:`)
+      getAvailableMetrics(data.columnsByType[type]).forEach((def) => console.log(`  ${def.id.padEnd(24)} ${def.label}`))
+    })
+    return 0
+  }
+
+  const result = runQuery({ [vintage.id]: data }, { codes, metrics, vintage: vintage.id }, (id) =>
+    getVintageLabel(manifest, id)
+  )
+  result.changes.forEach((change) => console.error(`Note: ${describeCodeChange(change)}`))
+  result.issues.forEach((issue) => console.error(`${issue.code} ${issue.metric}: ${explainIssue(issue, data)}`))
+
+  const table = buildResultExportTable(result.rows, result.columns)
+  const output =
+    options.format === 'xlsx'
+      ? new Uint8Array(await (await tableToXlsx(table)).arrayBuffer())
+      : options.format === 'json'
+        ? `${tableToJson(table)}\n`
+        : `${tableToCsv(table, { forSpreadsheet: false })}\n`
+  if (options.output) {
+    writeFileSync(options.output, output)
+  } else {
+    process.stdout.write(output)
+  }
+  return result.issues.length > 0 ? 2 : 0
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code
+  },
+  (err) => {
+    console.error(err instanceof Error ? err.message : String(err))
+    process.exitCode = 1
+  }
+)
@@ -0,0 +1,80 @@
+/* Service worker template. serviceWorkerPlugin.ts prepends the build's
+ * VERSION, DATA_VERSION and PRECACHE_URLS (relative to the scope) and emits
+ * the result as sw.js. */
+
+const PRECACHE = `precache-${VERSION}`
+const RUNTIME = 'runtime'
+
+const scopeUrl = (path) => new URL(path, self.registration.scope).href
+
+self.addEventListener('install', (event) => {
+  // Stay in "waiting" until the page accepts the update, so an open page is
+  // never switched to new code or data underneath the user
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(PRECACHE_URLS.map(scopeUrl))))
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== PRECACHE && key !== RUNTIME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting()
+  } else if (event.data?.type === 'GET_VERSION') {
+    event.ports[0]?.postMessage({ version: VERSION, dataVersion: DATA_VERSION })
+  }
+})
+
+// How long a request may wait for the network before a cached copy is served instead
+const NETWORK_TIMEOUT_MS = 4000
+
+// Network first, falling back to the cache when offline or slower than NETWORK_TIMEOUT_MS (the
+// timeout covers the response headers, not large bodies); successful responses refresh the runtime cache
+async function networkFirst(request, fallbackUrl) {
+  const fromCache = async () =>
+    (await caches.match(request)) || (fallbackUrl && (await caches.match(fallbackUrl))) || null
+  const network = fetch(request).then((response) => {
+    if (response.ok) {
+      const copy = response.clone()
+      caches.open(RUNTIME).then((cache) => cache.put(request, copy))
+    }
+    return response
+  })
+  // A late failure after the cache has answered is expected, not an error
+  network.catch(() => {})
+  const timeout = new Promise((resolve) => setTimeout(() => resolve(null), NETWORK_TIMEOUT_MS))
+
+  try {
+    const response = await Promise.race([network, timeout])
+    if (response) return response
+    // Still waiting: answer from the cache if it has a copy, and keep waiting if not.
+    // The network response still refreshes the cache when it arrives.
+    return (await fromCache()) || (await network)
+  } catch (err) {
+    const cached = await fromCache()
+    if (cached) return cached
+    throw err
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET' || !request.url.startsWith(self.registration.scope)) return
+
+  // Page loads: fresh HTML when online, the cached app shell when not
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, scopeUrl('./')))
+    return
+  }
+
+  // Hashed build assets and the data index never change for a given version: cache first.
+  // Everything else in scope, such as the raw CSVs, is network first.
+  event.respondWith(
+    caches.open(PRECACHE).then(async (cache) => (await cache.match(request.url)) || networkFirst(request))
+  )
+})
@@ -0,0 +1,77 @@
+import { createHash } from 'node:crypto'
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { Plugin } from 'vite'
+import { VINTAGE_MANIFEST_FILE } from '../src/vintages'
+
+const TEMPLATE_PATH = fileURLToPath(new URL('./serviceWorker.js', import.meta.url))
+
+// Public files needed to start offline; the raw CSVs are only cached once fetched
+const PUBLIC_PRECACHE = [
+  'manifest.webmanifest',
+  'icon.svg',
+  'icon-192.png',
+  'icon-512.png',
+  `data/${VINTAGE_MANIFEST_FILE}`,
+]
+
+// Optional map files a site may add to public/data (BOUNDARIES_FILE and PLACE_LOCATIONS_FILE in
+// mapGeometry.ts, which can't be imported here); precached like the bundled county atlas when present
+const OPTIONAL_MAP_FILES = ['county-boundaries.json', 'place-locations.txt']
+
+function hash(contents: (string | Uint8Array)[]): string {
+  const digest = createHash('sha256')
+  contents.forEach((content) => digest.update(content))
+  return digest.digest('hex').slice(0, 12)
+}
+
+/**
+ * Emits sw.js for production builds: the template in serviceWorker.js with
+ * the list of files to precache and two version hashes. Any change to the
+ * build changes sw.js, which is how browsers notice an update;
+ * DATA_VERSION changes only when one of the vintage data indexes or the
+ * optional map files does.
+ */
+export default function serviceWorkerPlugin(): Plugin {
+  let publicDir = ''
+  return {
+    name: 'jurisdiction-service-worker',
+    apply: 'build',
+    // After the data index plugin has emitted its file
+    enforce: 'post',
+
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+
+    generateBundle(_options, bundle) {
+      const files = Object.values(bundle)
+      // Public files aren't in the bundle, so a changed map file is hashed here to trigger an update
+      const mapFiles = OPTIONAL_MAP_FILES.map((file) => `data/${file}`).filter(
+        (file) => publicDir && existsSync(join(publicDir, file))
+      )
+      const mapContents = mapFiles.map((file) => readFileSync(join(publicDir, file)))
+      const contents = [...files.map((file) => (file.type === 'chunk' ? file.code : file.source)), ...mapContents]
+      const dataIndexes = [
+        ...files
+          .filter((file) => file.type === 'asset' && file.fileName.startsWith('data/'))
+          .map((file) => (file.type === 'asset' ? file.source : '')),
+        ...mapContents,
+      ]
+
+      const precache = ['./', ...files.map((file) => file.fileName), ...PUBLIC_PRECACHE, ...mapFiles]
+      const header = [
+        `const VERSION = ${JSON.stringify(hash(contents))}`,
+        `const DATA_VERSION = ${JSON.stringify(dataIndexes.length > 0 ? hash(dataIndexes) : 'none')}`,
+        `const PRECACHE_URLS = ${JSON.stringify(precache)}`,
+      ].join('\n')
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: `${header}\n\n${readFileSync(TEMPLATE_PATH, 'utf8')}`,
+      })
+    },
+  }
+}
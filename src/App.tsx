@@ -1,8 +1,9 @@
-import Papa from 'papaparse'
 import { useEffect, useMemo, useRef, useState } from 'react'
 import {
+  Accordion,
   Alert,
   Button,
+  ButtonGroup,
   ComboBox,
   FormGroup,
   GridContainer,
@@ -11,86 +12,151 @@ import {
   ModalFooter,
   ModalHeading,
   Select,
-  Table,
 } from '@trussworks/react-uswds'
 import type { ModalRef } from '@trussworks/react-uswds'
+import { NATION_FIPS } from './aggregates'
+import type { ImportContext } from './bulkImport'
+import { findBulkMatches } from './bulkSelect'
+import AllocationPanel from './components/AllocationPanel'
+import BulkImportPanel from './components/BulkImportPanel'
+import BulkSelectPanel from './components/BulkSelectPanel'
+import ChartsPanel from './components/ChartsPanel'
+import CustomDataPanel from './components/CustomDataPanel'
+import DiagnosticsPanel from './components/DiagnosticsPanel'
+import MapPanel from './components/MapPanel'
+import RelatedJurisdictions from './components/RelatedJurisdictions'
+import LoadProgressBar from './components/LoadProgressBar'
+import NationwideSearch from './components/NationwideSearch'
+import PerCapitaPanel from './components/PerCapitaPanel'
+import ResultsTable from './components/ResultsTable'
+import SavedSetsPanel from './components/SavedSetsPanel'
+import VintageComparePanel from './components/VintageComparePanel'
+import { describeCodeChange, uniqueCodeChanges } from './crosswalk'
+import type { CodeChange } from './crosswalk'
+import type { LoadedData } from './dataIndex'
+import { loadData } from './dataLoader'
+import type { FileProgress } from './dataLoader'
+import { countIssues } from './diagnostics'
+import { exportTable } from './export'
+import type { ExportFormat } from './exportFormats'
+import { buildNameIndex } from './nameMatching'
+import { getAvailableMetrics, getLatestPopulationMetric, groupMetricsByCategory, isMetricAvailable } from './metrics'
+import {
+  EMPTY_PER_CAPITA,
+  addPerCapitaColumns,
+  getDenominatorOptions,
+  getJurisdictionKey,
+  keepBasketValues,
+} from './perCapita'
+import type { PerCapitaInputs } from './perCapita'
+import {
+  EMPTY_RESULT_FILTER,
+  NO_TOTALS,
+  buildResultColumns,
+  buildResultExportTable,
+  buildResultRows,
+  filterResultRows,
+  getResultRowKey,
+} from './results'
+import type { ResultFilter, ResultTotalsOptions } from './results'
+import { EMPTY_PLACE_COUNTIES } from './relationships'
+import { buildSearchIndex } from './search'
+import { registerServiceWorker } from './serviceWorkerRegistration'
+import type { AvailableUpdate } from './serviceWorkerRegistration'
+import {
+  createSelection,
+  createSuccessorSelections,
+  getJurisdictionOption,
+  getSelectionKey,
+  isListedType,
+  resolveBasketEntries,
+  toBasketEntry,
+} from './selections'
+import type { UnresolvedEntry } from './selections'
+import type {
+  JurisdictionCandidate,
+  JurisdictionOption,
+  JurisdictionType,
+  MetricType,
+  Selection,
+  StateOption,
+} from './types'
+import type { SavedSet } from './savedSets'
+import {
+  SUBCOUNTY_LEVELS,
+  bySubcountyType,
+  getSubcountyGEOID,
+  getSubcountyLevel,
+  getSubcountyName,
+  isSubcountyType,
+} from './subcounty'
+import { decodeUrlState, encodeUrlState } from './urlState'
+import { formatNumber, getCountyFIPS, getPlaceGEOID, getTypeLabel, getTypePlural } from './utils'
+import { fetchVintageManifest, getVintageLabel } from './vintages'
+import type { VintageManifest } from './vintages'
 import './App.css'
 
 // ========================================================
-// TYPES
+// CONSTANTS
 // ========================================================
 
-interface PlaceRow {
-  STNAME: string
-  STATE: string
-  NAME: string
-  PLACE: string
-  SUMLEV: string
-  POPESTIMATE2024: string
-  POPESTIMATE2023?: string
+const JURISDICTION_TYPE_OPTIONS: { value: JurisdictionType; label: string; hint?: string }[] = [
+  {
+    value: 'place',
+    label: 'City/Place',
+    hint: 'Includes incorporated cities, towns, boroughs, and similar municipalities as defined by the U.S. Census Bureau.',
+  },
+  { value: 'county', label: 'County' },
+  { value: 'state', label: 'State', hint: 'State totals, identified by their 2-digit state FIPS code.' },
+  {
+    value: 'nation',
+    label: 'United States',
+    hint: 'National total of the 50 states and the District of Columbia. No state selection needed.',
+  },
+  // Further summary levels of the place file
+  ...SUBCOUNTY_LEVELS.map((level) => ({ value: level.type, label: getTypeLabel(level.type), hint: level.hint })),
+]
+
+// Stands in for the active vintage until its data has loaded
+const EMPTY_DATA: LoadedData = {
+  states: [],
+  placesByStateFips: new Map(),
+  countiesByStateFips: new Map(),
+  subcountiesByStateFips: bySubcountyType(() => new Map()),
+  lookups: {
+    placeLookup: new Map(),
+    countyLookup: new Map(),
+    stateLookup: new Map(),
+    nationRow: null,
+    subcountyLookups: bySubcountyType(() => new Map()),
+  },
+  columnsByType: {
+    place: new Set(),
+    county: new Set(),
+    state: new Set(),
+    nation: new Set(),
+    ...bySubcountyType(() => new Set<string>()),
+  },
+  placeCounties: EMPTY_PLACE_COUNTIES,
+  diagnostics: [],
 }
 
-interface CountyRow {
-  STNAME: string
-  STATE: string
-  CTYNAME: string
-  COUNTY: string
-  SUMLEV: string
-  POPESTIMATE2024: string
-  POPESTIMATE2023?: string
+// Places when the place file loaded, otherwise counties
+function getDefaultType(columnsByType: LoadedData['columnsByType']): JurisdictionType {
+  return columnsByType.place.size > 0 ? 'place' : 'county'
 }
 
-interface StateOption {
-  name: string
-  fips: string
+// Items from a shared link or saved set that no longer resolve against the loaded data, and retired
+// codes that were answered for their successors
+interface RestoreReport {
+  source: string
+  issues: UnresolvedEntry[]
+  changes: CodeChange[]
 }
 
-interface JurisdictionOption {
-  value: string
-  label: string
-}
-
-type JurisdictionType = 'place' | 'county'
-type MetricType = 'pop2024' | 'code' | 'pop2023'
-
-interface Selection {
-  id: string
-  stateName: string
-  stateFips: string
-  type: JurisdictionType
-  jurisdictionName: string
-  jurisdictionCode: string
-  metric: MetricType
-  metricLabel: string
-  value: string
-}
-
-// ========================================================
-// UTILITY FUNCTIONS
-// ========================================================
-
-function formatNumber(value: number): string {
-  return new Intl.NumberFormat('en-US').format(value)
-}
-
-function padState(state: string): string {
-  return state.padStart(2, '0')
-}
-
-function padPlace(place: string): string {
-  return place.padStart(5, '0')
-}
-
-function padCounty(county: string): string {
-  return county.padStart(3, '0')
-}
-
-function getPlaceGEOID(state: string, place: string): string {
-  return padState(state) + padPlace(place)
-}
-
-function getCountyFIPS(state: string, county: string): string {
-  return padState(state) + padCounty(county)
+function getRestoreReport(source: string, restored: ReturnType<typeof resolveBasketEntries>): RestoreReport | null {
+  const changes = uniqueCodeChanges(restored.redirected.map(({ change }) => change))
+  return restored.unresolved.length > 0 || changes.length > 0 ? { source, issues: restored.unresolved, changes } : null
 }
 
 // ========================================================
@@ -100,14 +166,17 @@ function getCountyFIPS(state: string, county: string): string {
 function App() {
   // Loading and error states
   const [loading, setLoading] = useState(true)
+  const [loadProgress, setLoadProgress] = useState<Record<string, FileProgress>>({})
   const [error, setError] = useState<string | null>(null)
 
-  // Data storage
-  const [states, setStates] = useState<StateOption[]>([])
-  const [placesByStateFips, setPlacesByStateFips] = useState<Map<string, PlaceRow[]>>(new Map())
-  const [countiesByStateFips, setCountiesByStateFips] = useState<Map<string, CountyRow[]>>(new Map())
-  const [placeLookup, setPlaceLookup] = useState<Map<string, PlaceRow>>(new Map())
-  const [countyLookup, setCountyLookup] = useState<Map<string, CountyRow>>(new Map())
+  // Data storage: the vintage list, and each vintage's data once it has been loaded
+  const [manifest, setManifest] = useState<VintageManifest | null>(null)
+  const [datasets, setDatasets] = useState<Record<string, LoadedData>>({})
+  const [vintageId, setVintageId] = useState('')
+  // Progress of a vintage loaded after startup (switching vintage or comparing)
+  const [vintageProgress, setVintageProgress] = useState<Record<string, FileProgress> | null>(null)
+  const [vintageError, setVintageError] = useState<string | null>(null)
+  const pendingVintages = useRef(new Map<string, Promise<LoadedData>>())
 
   // Selection state
   const [selectedState, setSelectedState] = useState<StateOption | null>(null)
@@ -118,9 +187,33 @@ function App() {
   // Basket of selections
   const [basketSelections, setBasketSelections] = useState<Selection[]>([])
 
+  const [restoreReport, setRestoreReport] = useState<RestoreReport | null>(null)
+  const [linkCopied, setLinkCopied] = useState(false)
+  // Results are shown as the table or as charts
+  const [resultsView, setResultsView] = useState<'table' | 'charts'>('table')
+  // Group, state and grand total rows shown below the table and included in downloads
+  const [resultTotals, setResultTotals] = useState<ResultTotalsOptions>(NO_TOTALS)
+  // Results table filters, which downloads follow too
+  const [resultFilter, setResultFilter] = useState<ResultFilter>(EMPTY_RESULT_FILTER)
+  // Per-capita calculator values and their denominator
+  const [perCapita, setPerCapita] = useState<PerCapitaInputs>(EMPTY_PER_CAPITA)
+
+  // Offline support
+  const [availableUpdate, setAvailableUpdate] = useState<AvailableUpdate | null>(null)
+  const [isOffline, setIsOffline] = useState(() => !navigator.onLine)
+
   // Modal state
   const modalRef = useRef<ModalRef>(null)
 
+  // Codes and metrics of the basket, as stored in links and saved sets
+  const basketEntries = useMemo(() => basketSelections.map(toBasketEntry), [basketSelections])
+  // Jurisdictions in the basket, and the calculator values for them as stored with it
+  const basketKeys = useMemo(
+    () => new Set(basketSelections.map((sel) => getJurisdictionKey(sel.type, sel.jurisdictionCode))),
+    [basketSelections]
+  )
+  const basketPerCapita = useMemo(() => keepBasketValues(perCapita, basketKeys), [perCapita, basketKeys])
+
   // ========================================================
   // DATA LOADING
   // ========================================================
@@ -128,103 +221,58 @@ function App() {
   useEffect(() => {
     let isCancelled = false
 
-    async function loadData() {
+    async function load() {
       try {
-        // Build URLs with Vite's base path for GitHub Pages compatibility
-        const base = import.meta.env.BASE_URL
-        const SUBEST_URL = `${base}data/sub-est2024.csv`
-        const ALLDATA_URL = `${base}data/co-est2024-alldata.csv`
-
-        // Load places
-        const placesPromise = new Promise<PlaceRow[]>((resolve, reject) => {
-          Papa.parse(SUBEST_URL, {
-            download: true,
-            header: true,
-            skipEmptyLines: true,
-            complete: (results) => {
-              resolve(results.data as PlaceRow[])
-            },
-            error: (err) => {
-              reject(err)
-            },
-          })
-        })
-
-        // Load counties
-        const countiesPromise = new Promise<CountyRow[]>((resolve, reject) => {
-          Papa.parse(ALLDATA_URL, {
-            download: true,
-            header: true,
-            skipEmptyLines: true,
-            complete: (results) => {
-              resolve(results.data as CountyRow[])
-            },
-            error: (err) => {
-              reject(err)
-            },
-          })
-        })
-
-        const [placesData, countiesData] = await Promise.all([placesPromise, countiesPromise])
-
+        // Build the base URL with Vite's base path for GitHub Pages compatibility
+        const vintageManifest = await fetchVintageManifest(import.meta.env.BASE_URL)
         if (isCancelled) return
 
-        // Build state list from both files
-        const stateSet = new Map<string, string>()
-        placesData.forEach((row) => {
-          if (row.STNAME && row.STATE) {
-            stateSet.set(row.STATE, row.STNAME)
-          }
-        })
-        countiesData.forEach((row) => {
-          if (row.STNAME && row.STATE) {
-            stateSet.set(row.STATE, row.STNAME)
-          }
-        })
-
-        const statesList = Array.from(stateSet.entries())
-          .map(([fips, name]) => ({ fips: padState(fips), name }))
-          .sort((a, b) => a.name.localeCompare(b.name))
-
-        // Index places by state FIPS (filter to SUMLEV 162 for incorporated places)
-        const placesMap = new Map<string, PlaceRow[]>()
-        const placeLookupMap = new Map<string, PlaceRow>()
-        placesData.forEach((row) => {
-          // Only include place-level geography (SUMLEV 162) to avoid duplicates
-          if (!row.STATE || !row.NAME || !row.PLACE || row.SUMLEV !== '162') return
-          const stateFips = padState(row.STATE)
-          const geoid = getPlaceGEOID(row.STATE, row.PLACE)
-          
-          // Add to state index
-          if (!placesMap.has(stateFips)) {
-            placesMap.set(stateFips, [])
-          }
-          placesMap.get(stateFips)!.push(row)
-          
-          // Add to lookup map (using GEOID ensures uniqueness)
-          placeLookupMap.set(geoid, row)
-        })
+        // A shared link names its vintage; anything else starts on the default one
+        const urlState = decodeUrlState(window.location.search)
+        const known = new Set(vintageManifest.vintages.map((v) => v.id))
+        const activeId =
+          urlState.vintage && known.has(urlState.vintage) ? urlState.vintage : vintageManifest.defaultVintage
+
+        // The active vintage plus any other the shared basket draws on, one at a time to keep memory down
+        const neededIds = new Set([activeId, ...urlState.basket.map((entry) => entry.vintage || activeId)])
+        const loaded: Record<string, LoadedData> = {}
+        for (const vintage of vintageManifest.vintages.filter((v) => neededIds.has(v.id))) {
+          loaded[vintage.id] = await loadData(import.meta.env.BASE_URL, vintage, (progress) => {
+            if (isCancelled) return
+            setLoadProgress((current) => ({ ...current, [progress.file]: progress }))
+          })
+          if (isCancelled) return
+        }
 
-        // Index counties by state FIPS (filter to SUMLEV 050 for county-level data only)
-        const countiesMap = new Map<string, CountyRow[]>()
-        const countyLookupMap = new Map<string, CountyRow>()
-        countiesData.forEach((row) => {
-          // Only include county-level geography (SUMLEV 050) and exclude state-level rows (COUNTY 000)
-          if (!row.STATE || !row.CTYNAME || !row.COUNTY || row.SUMLEV !== '050' || row.COUNTY === '000') return
-          const stateFips = padState(row.STATE)
-          if (!countiesMap.has(stateFips)) {
-            countiesMap.set(stateFips, [])
-          }
-          countiesMap.get(stateFips)!.push(row)
-          const fips = getCountyFIPS(row.STATE, row.COUNTY)
-          countyLookupMap.set(fips, row)
-        })
+        const { lookups, columnsByType: columns, states: statesList } = loaded[activeId]
+
+        // Rebuild the basket and form from a shared link, if the page was opened with one
+        const restored = resolveBasketEntries(loaded, activeId, urlState.basket)
+        const restoredType = urlState.type || getDefaultType(columns)
+        const restoredState = statesList.find((s) => s.fips === urlState.stateFips) || null
+        const restoredJurisdiction =
+          restoredState && urlState.jurisdiction?.startsWith(restoredState.fips)
+            ? getJurisdictionOption(lookups, restoredType, urlState.jurisdiction)
+            : null
+        if (urlState.jurisdiction && !restoredJurisdiction) {
+          restored.unresolved.push({
+            entry: { type: restoredType, code: urlState.jurisdiction, metric: urlState.metric || '' },
+            reason: 'The selected jurisdiction is not in the loaded data',
+          })
+        }
 
-        setStates(statesList)
-        setPlacesByStateFips(placesMap)
-        setCountiesByStateFips(countiesMap)
-        setPlaceLookup(placeLookupMap)
-        setCountyLookup(countyLookupMap)
+        setManifest(vintageManifest)
+        setDatasets(loaded)
+        setVintageId(activeId)
+        setBasketSelections(restored.selections)
+        setPerCapita(urlState.perCapita || EMPTY_PER_CAPITA)
+        setRestoreReport(getRestoreReport('this link', restored))
+        setSelectedState(restoredState)
+        setJurisdictionType(restoredType)
+        setSelectedJurisdiction(restoredJurisdiction)
+        setSelectedMetric(
+          urlState.metric && isMetricAvailable(urlState.metric, columns[restoredType]) ? urlState.metric : ''
+        )
         setLoading(false)
       } catch (err) {
         if (!isCancelled) {
@@ -235,22 +283,89 @@ function App() {
       }
     }
 
-    loadData()
+    load()
 
     return () => {
       isCancelled = true
     }
   }, [])
 
+  // Cache the app and data for offline use, and hear about new versions
+  useEffect(() => {
+    registerServiceWorker(setAvailableUpdate)
+
+    const handleOnline = () => setIsOffline(false)
+    const handleOffline = () => setIsOffline(true)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
+
+  // Keep the query string in sync so the current basket can be bookmarked or shared
+  useEffect(() => {
+    if (loading || error) return
+
+    const search = encodeUrlState({
+      vintage: vintageId,
+      stateFips: selectedState?.fips || null,
+      type: jurisdictionType,
+      jurisdiction: selectedJurisdiction?.value || null,
+      metric: selectedMetric || null,
+      basket: basketEntries,
+      perCapita: basketPerCapita,
+    })
+    if (search !== window.location.search) {
+      window.history.replaceState(null, '', `${window.location.pathname}${search}${window.location.hash}`)
+    }
+  }, [
+    loading,
+    error,
+    vintageId,
+    selectedState,
+    jurisdictionType,
+    selectedJurisdiction,
+    selectedMetric,
+    basketEntries,
+    basketPerCapita,
+  ])
+
   // ========================================================
   // COMPUTED VALUES
   // ========================================================
 
+  // The active vintage's data; every picker and bulk tool works against it
+  const { states, placesByStateFips, countiesByStateFips, subcountiesByStateFips, lookups, columnsByType, placeCounties } =
+    datasets[vintageId] || EMPTY_DATA
+  const activeVintage = manifest?.vintages.find((v) => v.id === vintageId)
+
+  const getVintageName = (id: string) => (manifest ? getVintageLabel(manifest, id) : id)
+
+  // Files of the active vintage that failed to load, and problems found in those that did
+  const unavailableFiles = (datasets[vintageId]?.diagnostics || []).filter((file) => file.error)
+  const diagnosticIssues = countIssues(datasets[vintageId]?.diagnostics || [])
+
+  // Sub-county levels are only offered when the place file has rows of them
+  const typeOptions = JURISDICTION_TYPE_OPTIONS.filter(
+    (opt) => !isSubcountyType(opt.value) || columnsByType[opt.value].size > 0
+  )
+
   // Options for jurisdiction dropdown based on selected state and type
   const jurisdictionOptions = useMemo<JurisdictionOption[]>(() => {
     if (!selectedState) return []
 
-    if (jurisdictionType === 'place') {
+    if (isSubcountyType(jurisdictionType)) {
+      const level = getSubcountyLevel(jurisdictionType)
+      const rows = subcountiesByStateFips[jurisdictionType].get(selectedState.fips) || []
+      return rows
+        .map((row) => ({
+          value: getSubcountyGEOID(level, row)!,
+          label: getSubcountyName(lookups, level, row),
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label))
+    } else if (jurisdictionType === 'place') {
       const places = placesByStateFips.get(selectedState.fips) || []
       return places
         .map((row) => ({
@@ -267,7 +382,7 @@ function App() {
         }))
         .sort((a, b) => a.label.localeCompare(b.label))
     }
-  }, [selectedState, jurisdictionType, placesByStateFips, countiesByStateFips])
+  }, [selectedState, jurisdictionType, placesByStateFips, countiesByStateFips, subcountiesByStateFips, lookups])
 
   // Convert state list to ComboBox format
   const stateComboBoxOptions = useMemo(
@@ -285,10 +400,122 @@ function App() {
     [jurisdictionOptions]
   )
 
+  // Name lookups and context for resolving bulk-imported lists
+  const nameIndex = useMemo(() => buildNameIndex(lookups), [lookups])
+  const searchIndex = useMemo(() => buildSearchIndex(lookups, columnsByType), [lookups, columnsByType])
+
+  const importContext = useMemo<ImportContext>(() => ({ ...lookups, states, nameIndex }), [lookups, states, nameIndex])
+
+  // Metrics offered for the current jurisdiction type, grouped for the picker
+  const metricGroups = useMemo(
+    () => groupMetricsByCategory(getAvailableMetrics(columnsByType[jurisdictionType])),
+    [columnsByType, jurisdictionType]
+  )
+
+  // Metrics either file can answer, offered by bulk import
+  const bulkMetricGroups = useMemo(
+    () => groupMetricsByCategory(getAvailableMetrics(new Set(Object.values(columnsByType).flatMap((cols) => [...cols])))),
+    [columnsByType]
+  )
+
+  // Metric columns to display, based on the metrics present in the basket (in catalog order)
+  const resultColumns = useMemo(() => buildResultColumns(basketSelections), [basketSelections])
+
+  // Group selections by jurisdiction for displaying multiple metrics in one row
+  const resultRows = useMemo(
+    () => buildResultRows(basketSelections, (id) => (manifest ? getVintageLabel(manifest, id) : id)),
+    [basketSelections, manifest]
+  )
+
+  // Distinct jurisdictions in the basket, for comparing across vintages
+  const basketJurisdictions = useMemo(() => {
+    const byKey = new Map(basketSelections.map((sel) => [`${sel.type}-${sel.jurisdictionCode}`, sel]))
+    return Array.from(byKey.values()).map((sel) => ({ type: sel.type, code: sel.jurisdictionCode }))
+  }, [basketSelections])
+
+  // Set when the whole basket comes from one vintage, which is then named above the table instead of per row
+  const resultVintage = new Set(resultRows.map((row) => row.vintage)).size === 1 ? resultRows[0].vintage : null
+
+  // Population estimates the calculator can divide by and the allocation can split by
+  const denominatorOptions = useMemo(
+    () => getDenominatorOptions(new Set([...columnsByType.place, ...columnsByType.county])),
+    [columnsByType]
+  )
+
+  // The rows and columns with the per-capita calculator's columns added, if it has values
+  const calculatorTable = useMemo(
+    () => addPerCapitaColumns(resultRows, resultColumns, basketPerCapita || EMPTY_PER_CAPITA, datasets),
+    [resultRows, resultColumns, basketPerCapita, datasets]
+  )
+
+  // The rows the table shows, in export form, followed by any totals shown
+  const filteredResultRows = useMemo(
+    () => filterResultRows(calculatorTable.rows, resultFilter),
+    [calculatorTable, resultFilter]
+  )
+  const resultExportTable = useMemo(
+    () => buildResultExportTable(filteredResultRows, calculatorTable.columns, resultTotals),
+    [filteredResultRows, calculatorTable, resultTotals]
+  )
+
   // ========================================================
   // EVENT HANDLERS
   // ========================================================
 
+  // Resolves with a vintage's data, loading it in the worker the first time it is needed
+  const ensureVintage = (id: string): Promise<LoadedData> => {
+    if (datasets[id]) return Promise.resolve(datasets[id])
+    const vintage = manifest?.vintages.find((v) => v.id === id)
+    if (!vintage) return Promise.reject(new Error(`Unknown data vintage "${id}"`))
+
+    let pending = pendingVintages.current.get(id)
+    if (!pending) {
+      setVintageProgress((current) => current || {})
+      pending = loadData(import.meta.env.BASE_URL, vintage, (progress) => {
+        setVintageProgress((current) => ({ ...current, [progress.file]: progress }))
+      })
+        .then((data) => {
+          setDatasets((current) => ({ ...current, [id]: data }))
+          return data
+        })
+        .finally(() => {
+          pendingVintages.current.delete(id)
+          if (pendingVintages.current.size === 0) setVintageProgress(null)
+        })
+      pendingVintages.current.set(id, pending)
+    }
+    return pending
+  }
+
+  // Points the form at another vintage, dropping choices its data can't answer.
+  // The basket keeps the vintages it was built from.
+  const activateVintage = (id: string, data: LoadedData) => {
+    setVintageId(id)
+    // The new vintage may lack the current type's file altogether
+    if (data.columnsByType[jurisdictionType].size === 0) {
+      setJurisdictionType(getDefaultType(data.columnsByType))
+      setSelectedJurisdiction(null)
+      return
+    }
+    if (selectedJurisdiction) {
+      setSelectedJurisdiction(getJurisdictionOption(data.lookups, jurisdictionType, selectedJurisdiction.value))
+    }
+    if (selectedMetric && !isMetricAvailable(selectedMetric, data.columnsByType[jurisdictionType])) {
+      setSelectedMetric('')
+    }
+  }
+
+  const handleVintageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value
+    setVintageError(null)
+    ensureVintage(id)
+      .then((data) => activateVintage(id, data))
+      .catch((err) => {
+        console.error('Error loading data vintage:', err)
+        setVintageError(`The data files for ${getVintageName(id)} could not be loaded.`)
+      })
+  }
+
   const handleStateChange = (value?: string) => {
     const newState = states.find((s) => s.fips === value) || null
     setSelectedState(newState)
@@ -296,8 +523,43 @@ function App() {
   }
 
   const handleTypeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setJurisdictionType(e.target.value as JurisdictionType)
+    const newType = e.target.value as JurisdictionType
+    setJurisdictionType(newType)
     setSelectedJurisdiction(null) // Clear jurisdiction when type changes
+
+    // Places carry fewer columns than counties, so drop a metric the new type can't answer
+    const available = getAvailableMetrics(columnsByType[newType])
+    if (selectedMetric && !available.some((def) => def.id === selectedMetric)) {
+      setSelectedMetric('')
+    }
+  }
+
+  // Adds a file from the user's computer as a vintage of its own, kept until the page is reloaded
+  const handleLoadCustomData = (label: string, data: LoadedData) => {
+    if (!manifest) return
+    const count = manifest.vintages.filter((v) => v.id.startsWith('file-')).length
+    const id = `file-${count + 1}`
+    setManifest({
+      ...manifest,
+      vintages: [
+        ...manifest.vintages,
+        { id, label, description: 'Loaded from a file on this computer', files: { places: null, counties: null } },
+      ],
+    })
+    setDatasets((current) => ({ ...current, [id]: data }))
+    activateVintage(id, data)
+  }
+
+  // Fills the form from a nationwide search result, including its state
+  const handleSearchSelect = (candidate: JurisdictionCandidate) => {
+    setSelectedState(states.find((s) => s.fips === candidate.stateFips) || null)
+    setJurisdictionType(candidate.type)
+    setSelectedJurisdiction(
+      isListedType(candidate.type) ? getJurisdictionOption(lookups, candidate.type, candidate.code) : null
+    )
+    if (selectedMetric && !isMetricAvailable(selectedMetric, columnsByType[candidate.type])) {
+      setSelectedMetric('')
+    }
   }
 
   const handleJurisdictionChange = (value?: string) => {
@@ -309,63 +571,97 @@ function App() {
     setSelectedMetric(e.target.value as MetricType | '')
   }
 
+  // Code of the jurisdiction the form currently points at, if complete
+  const selectedCode = (() => {
+    if (jurisdictionType === 'nation') return NATION_FIPS
+    if (jurisdictionType === 'state') return selectedState?.fips ?? null
+    return selectedState && selectedJurisdiction ? selectedJurisdiction.value : null
+  })()
+
   const handleAddSelection = () => {
-    if (!selectedState || !selectedJurisdiction || !selectedMetric) return
-
-    // Get the actual row data
-    let jurisdictionCode = ''
-    let jurisdictionName = ''
-    let value = ''
-
-    if (jurisdictionType === 'place') {
-      const row = placeLookup.get(selectedJurisdiction.value)
-      if (!row) return
-
-      jurisdictionCode = getPlaceGEOID(row.STATE, row.PLACE)
-      jurisdictionName = row.NAME
-
-      if (selectedMetric === 'pop2024') {
-        value = formatNumber(parseInt(row.POPESTIMATE2024 || '0'))
-      } else if (selectedMetric === 'pop2023') {
-        value = formatNumber(parseInt(row.POPESTIMATE2023 || '0'))
-      } else {
-        value = jurisdictionCode
-      }
-    } else {
-      const row = countyLookup.get(selectedJurisdiction.value)
-      if (!row) return
-
-      jurisdictionCode = getCountyFIPS(row.STATE, row.COUNTY)
-      jurisdictionName = row.CTYNAME
-
-      if (selectedMetric === 'pop2024') {
-        value = formatNumber(parseInt(row.POPESTIMATE2024 || '0'))
-      } else if (selectedMetric === 'pop2023') {
-        value = formatNumber(parseInt(row.POPESTIMATE2023 || '0'))
-      } else {
-        value = jurisdictionCode
-      }
-    }
+    if (!selectedCode || !selectedMetric) return
 
-    const metricLabels: Record<MetricType, string> = {
-      pop2024: 'Population estimate (2024)',
-      pop2023: 'Population estimate (2023)',
-      code: 'GEOID / FIPS code',
+    const newSelection = createSelection(lookups, jurisdictionType, selectedCode, selectedMetric, vintageId)
+    if (newSelection) {
+      setBasketSelections([...basketSelections, newSelection])
+      return
     }
 
-    const newSelection: Selection = {
-      id: `${Date.now()}-${Math.random()}`,
-      stateName: selectedState.name,
-      stateFips: selectedState.fips,
+    // A retired code, e.g. a jurisdiction picked before switching vintages: add its successors instead
+    const successors = createSuccessorSelections(lookups, jurisdictionType, selectedCode, selectedMetric, vintageId)
+    if (!successors) return
+    const existingKeys = new Set(
+      basketSelections.map((sel) => getSelectionKey(sel.type, sel.jurisdictionCode, sel.metric, sel.vintage))
+    )
+    setBasketSelections([
+      ...basketSelections,
+      ...successors.selections.filter(
+        (sel) => !existingKeys.has(getSelectionKey(sel.type, sel.jurisdictionCode, sel.metric, sel.vintage))
+      ),
+    ])
+    setRestoreReport({ source: 'your selection', issues: [], changes: [successors.change] })
+  }
+
+  // Adds every place or county in the selected state with the selected metric
+  const handleAddAllInState = () => {
+    if (!selectedState || !selectedMetric || !isListedType(jurisdictionType)) return
+    const matches = findBulkMatches(lookups, {
       type: jurisdictionType,
-      jurisdictionName,
-      jurisdictionCode,
-      metric: selectedMetric,
-      metricLabel: metricLabels[selectedMetric],
-      value,
+      stateFips: selectedState.fips,
+      populationMetric: getLatestPopulationMetric(getAvailableMetrics(columnsByType[jurisdictionType])),
+      minPopulation: null,
+      maxPopulation: null,
+      namePattern: '',
+      topN: null,
+    })
+    handleAddCandidates(matches, [selectedMetric])
+  }
+
+  // Adds each jurisdiction with each metric, skipping pairs already in the basket
+  const handleAddCandidates = (candidates: JurisdictionCandidate[], metrics: MetricType[]): number => {
+    const existingKeys = new Set(
+      basketSelections.map((sel) => getSelectionKey(sel.type, sel.jurisdictionCode, sel.metric, sel.vintage))
+    )
+    const newSelections: Selection[] = []
+
+    candidates.forEach((candidate) => {
+      metrics.forEach((metric) => {
+        const key = getSelectionKey(candidate.type, candidate.code, metric, vintageId)
+        if (existingKeys.has(key)) return
+        // Skip metrics this jurisdiction's file doesn't carry (e.g. births for places)
+        if (!isMetricAvailable(metric, columnsByType[candidate.type])) return
+        const selection = createSelection(lookups, candidate.type, candidate.code, metric, vintageId)
+        if (!selection) return
+        existingKeys.add(key)
+        newSelections.push(selection)
+      })
+    })
+
+    if (newSelections.length > 0) {
+      setBasketSelections((prev) => [...prev, ...newSelections])
+    }
+    return newSelections.length
+  }
+
+  // Replaces the basket with a saved set, re-resolving every code against the vintage it was saved from
+  const handleLoadSavedSet = async (set: SavedSet): Promise<number> => {
+    const sources: Record<string, LoadedData> = { ...datasets }
+    const neededIds = new Set(set.entries.map((entry) => entry.vintage || vintageId))
+    for (const id of neededIds) {
+      if (sources[id] || !manifest?.vintages.some((v) => v.id === id)) continue
+      try {
+        sources[id] = await ensureVintage(id)
+      } catch (err) {
+        // Its entries are reported as unresolved below
+        console.error('Error loading data vintage:', err)
+      }
     }
 
-    setBasketSelections([...basketSelections, newSelection])
+    const restored = resolveBasketEntries(sources, vintageId, set.entries)
+    setBasketSelections(restored.selections)
+    setPerCapita(set.perCapita || EMPTY_PER_CAPITA)
+    setRestoreReport(getRestoreReport(`"${set.name}"`, restored))
+    return restored.unresolved.length
   }
 
   const handleRemoveSelection = (id: string) => {
@@ -374,6 +670,34 @@ function App() {
 
   const handleClearAll = () => {
     setBasketSelections([])
+    setPerCapita(EMPTY_PER_CAPITA)
+  }
+
+  // Puts Results rows (jurisdiction + vintage) in a named group, or takes them out with null
+  const handleGroupRows = (rowKeys: string[], group: string | null) => {
+    const keys = new Set(rowKeys)
+    setBasketSelections(
+      basketSelections.map((sel) => (keys.has(getResultRowKey(sel)) ? { ...sel, group: group || undefined } : sel))
+    )
+  }
+
+  const handleCopyLink = () => {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => {
+        setLinkCopied(true)
+        window.setTimeout(() => setLinkCopied(false), 3000)
+      })
+      .catch((err) => {
+        console.error('Error copying link:', err)
+      })
+  }
+
+  const handleExport = (format: ExportFormat) => {
+    const date = new Date().toISOString().slice(0, 10)
+    exportTable(resultExportTable, format, `jurisdiction-data-${date}`).catch((err) => {
+      console.error('Error exporting results:', err)
+    })
   }
 
   // ========================================================
@@ -386,6 +710,15 @@ function App() {
         <div style={{ padding: '2rem 0' }}>
           <Alert type="info" headingLevel="h2" heading="Loading">
             Loading Census data files...
+            {Object.values(loadProgress).length > 0 && (
+              <ul className="usa-list usa-list--unstyled" style={{ marginTop: '0.75rem' }}>
+                {Object.values(loadProgress).map((progress) => (
+                  <li key={progress.file} style={{ marginBottom: '0.5rem' }}>
+                    <LoadProgressBar progress={progress} />
+                  </li>
+                ))}
+              </ul>
+            )}
           </Alert>
         </div>
       </GridContainer>
@@ -404,7 +737,7 @@ function App() {
     )
   }
 
-  const canAddSelection = selectedState && selectedJurisdiction && selectedMetric !== ''
+  const canAddSelection = selectedCode !== null && selectedMetric !== ''
 
   return (
     <GridContainer>
@@ -414,12 +747,101 @@ function App() {
           <h1>U.S. Census Jurisdiction Population Data Query Tool</h1>
           <p className="usa-intro">
             Search and retrieve population estimates and geographic codes for U.S. cities, places, and counties. 
-            Select a state and jurisdiction to view 2024 and 2023 population estimates or GEOID/FIPS codes from 
-            Census Bureau data.
+            Select a state and jurisdiction to view population estimates for 2020–2024, components of change, 
+            group quarters population, rates, or GEOID/FIPS codes from Census Bureau data.
           </p>
           <div className="header-divider"></div>
         </header>
 
+        {/* New version / offline notices */}
+        {availableUpdate && (
+          <div style={{ marginBottom: '2rem' }}>
+            <Alert
+              type="info"
+              headingLevel="h2"
+              heading={availableUpdate.dataChanged ? 'Updated Census data available' : 'New version available'}
+            >
+              {availableUpdate.dataChanged
+                ? 'A newer version of this tool with updated data files has been downloaded. '
+                : 'A newer version of this tool has been downloaded. '}
+              Reload to start using it; your basket is kept in the page link.
+              <div style={{ marginTop: '0.75rem', display: 'flex', gap: '1rem' }}>
+                <Button type="button" onClick={availableUpdate.apply}>
+                  Reload now
+                </Button>
+                <Button
+                  type="button"
+                  unstyled
+                  onClick={() => setAvailableUpdate(null)}
+                  style={{ color: '#005ea2', textDecoration: 'underline', fontSize: '0.94rem' }}
+                >
+                  Later
+                </Button>
+              </div>
+            </Alert>
+          </div>
+        )}
+        {isOffline && (
+          <div style={{ marginBottom: '2rem' }}>
+            <Alert type="info" headingLevel="h2" slim>
+              You&apos;re offline. The tool and its data are running from the copy saved on this device.
+            </Alert>
+          </div>
+        )}
+
+        {/* Data files that could not be loaded */}
+        {unavailableFiles.length > 0 && (
+          <div style={{ marginBottom: '2rem' }}>
+            <Alert type="warning" headingLevel="h2" heading="Some data could not be loaded">
+              <ul className="usa-list">
+                {unavailableFiles.map((file) => (
+                  <li key={file.kind}>
+                    {file.kind === 'places'
+                      ? 'Cities/places are unavailable'
+                      : 'Counties, states and national totals are unavailable'}
+                    : {file.error}
+                  </li>
+                ))}
+              </ul>
+              Everything else works as usual. See &quot;Data diagnostics&quot; below for details.
+            </Alert>
+          </div>
+        )}
+
+        {/* Shared link / saved set restore report */}
+        {restoreReport && (
+          <div style={{ marginBottom: '2rem' }}>
+            {restoreReport.issues.length > 0 && (
+              <Alert type="warning" headingLevel="h2" heading={`Some items from ${restoreReport.source} could not be restored`}>
+                <ul className="usa-list">
+                  {restoreReport.issues.map((issue, index) => (
+                    <li key={index}>
+                      {getTypeLabel(issue.entry.type)} {issue.entry.code}
+                      {issue.entry.metric && ` (${issue.entry.metric})`}
+                      {issue.entry.vintage && `, ${getVintageName(issue.entry.vintage)}`}: {issue.reason}
+                    </li>
+                  ))}
+                </ul>
+              </Alert>
+            )}
+            {restoreReport.changes.length > 0 && (
+              <Alert type="info" headingLevel="h2" heading={`Codes from ${restoreReport.source} have changed`}>
+                <p style={{ marginTop: 0 }}>
+                  These codes were retired, so the jurisdictions that replaced them were added instead.
+                </p>
+                <ul className="usa-list">
+                  {restoreReport.changes.map((change) => (
+                    <li key={`${change.type}-${change.code}`}>{describeCodeChange(change)}</li>
+                  ))}
+                </ul>
+              </Alert>
+            )}
+            <Button type="button" unstyled onClick={() => setRestoreReport(null)} style={{ color: '#005ea2', textDecoration: 'underline' }}>
+              Dismiss
+            </Button>
+          </div>
+        )}
+
         {/* Search & Select Section */}
         <section style={{ marginBottom: '2.5rem' }}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
@@ -429,7 +851,7 @@ function App() {
                 type="button" 
                 onClick={() => {
                   setSelectedState(null)
-                  setJurisdictionType('place')
+                  setJurisdictionType(getDefaultType(columnsByType))
                   setSelectedJurisdiction(null)
                   setSelectedMetric('')
                 }}
@@ -441,6 +863,53 @@ function App() {
             )}
           </div>
 
+          {/* Data Vintage Selector */}
+          <div style={{ marginBottom: '2rem' }}>
+            <Label htmlFor="vintage-selector">Data vintage</Label>
+            <Select
+              id="vintage-selector"
+              name="vintage-selector"
+              value={vintageId}
+              onChange={handleVintageChange}
+              disabled={vintageProgress !== null}
+            >
+              {manifest?.vintages.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.label}
+                </option>
+              ))}
+            </Select>
+            {activeVintage?.description && (
+              <p className="usa-hint" style={{ marginBottom: 0 }}>
+                {activeVintage.description}
+              </p>
+            )}
+            {vintageProgress && (
+              <ul className="usa-list usa-list--unstyled" style={{ marginTop: '0.75rem' }}>
+                {Object.values(vintageProgress).map((progress) => (
+                  <li key={progress.file} style={{ marginBottom: '0.5rem' }}>
+                    <LoadProgressBar progress={progress} />
+                  </li>
+                ))}
+              </ul>
+            )}
+            {vintageError && (
+              <div style={{ marginTop: '0.75rem' }}>
+                <Alert type="error" headingLevel="h3" slim>
+                  {vintageError}
+                </Alert>
+              </div>
+            )}
+          </div>
+
+          {/* Nationwide Search */}
+          <div style={{ marginBottom: '2rem' }}>
+            <NationwideSearch index={searchIndex} states={states} onSelect={handleSearchSelect} />
+            <p className="usa-hint" style={{ marginBottom: 0 }}>
+              Picking a result fills in the state, type and jurisdiction below. Or choose them step by step.
+            </p>
+          </div>
+
           {/* State Selector */}
           <div style={{ marginBottom: '2rem' }}>
             <h3>State</h3>
@@ -465,95 +934,89 @@ function App() {
             <h3 id="jurisdiction-type-heading">Jurisdiction Type</h3>
             
             <div style={{ marginTop: '1rem' }}>
-              {/* City/Place Option */}
-              <div style={{ marginBottom: '1.5rem' }}>
-                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
-                  <input
-                    type="radio"
-                    id="type-place"
-                    name="jurisdiction-type"
-                    value="place"
-                    checked={jurisdictionType === 'place'}
-                    onChange={handleTypeChange}
-                    className="jurisdiction-radio"
-                  />
-                  <label 
-                    htmlFor="type-place" 
-                    style={{ 
-                      margin: 0, 
-                      cursor: 'pointer',
-                      fontSize: '1.06rem',
-                      fontWeight: 600,
-                      lineHeight: 1.2
-                    }}
-                  >
-                    City/Place
-                  </label>
+              {typeOptions.map((opt, index) => (
+                <div key={opt.value} style={{ marginBottom: index < typeOptions.length - 1 ? '1.5rem' : 0 }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                    <input
+                      type="radio"
+                      id={`type-${opt.value}`}
+                      name="jurisdiction-type"
+                      value={opt.value}
+                      checked={jurisdictionType === opt.value}
+                      onChange={handleTypeChange}
+                      disabled={columnsByType[opt.value].size === 0}
+                      className="jurisdiction-radio"
+                    />
+                    <label 
+                      htmlFor={`type-${opt.value}`}
+                      style={{ 
+                        margin: 0, 
+                        cursor: 'pointer',
+                        fontSize: '1.06rem',
+                        fontWeight: 600,
+                        lineHeight: 1.2
+                      }}
+                    >
+                      {opt.label}
+                    </label>
+                  </div>
+                  {(opt.hint || columnsByType[opt.value].size === 0) && (
+                    <div
+                      className="usa-hint"
+                      style={{
+                        marginTop: '0.5rem',
+                        marginLeft: '2rem',
+                        fontSize: '0.93rem',
+                        lineHeight: '1.5',
+                      }}
+                    >
+                      {columnsByType[opt.value].size === 0
+                        ? 'Not available: its data file could not be loaded (see Data diagnostics).'
+                        : opt.hint}
+                    </div>
+                  )}
                 </div>
-                <div
-                  className="usa-hint"
-                  style={{
-                    marginTop: '0.5rem',
-                    marginLeft: '2rem',
-                    fontSize: '0.93rem',
-                    lineHeight: '1.5',
-                  }}
-                >
-                  Includes incorporated cities, towns, boroughs, and similar municipalities as defined by the U.S. Census Bureau.
-                </div>
-              </div>
-
-              {/* County Option */}
-              <div>
-                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
-                  <input
-                    type="radio"
-                    id="type-county"
-                    name="jurisdiction-type"
-                    value="county"
-                    checked={jurisdictionType === 'county'}
-                    onChange={handleTypeChange}
-                    className="jurisdiction-radio"
-                  />
-                  <label 
-                    htmlFor="type-county" 
-                    style={{ 
-                      margin: 0, 
-                      cursor: 'pointer',
-                      fontSize: '1.06rem',
-                      fontWeight: 600,
-                      lineHeight: 1.2
-                    }}
-                  >
-                    County
-                  </label>
-                </div>
-              </div>
+              ))}
             </div>
           </div>
 
           {/* Jurisdiction Selector */}
-          <FormGroup>
-            <Label htmlFor="jurisdiction-selector">
-              {jurisdictionType === 'place' ? 'City/Place' : 'County'}
-            </Label>
-            <ComboBox
-              key={`jurisdiction-${selectedState?.fips || 'none'}-${jurisdictionType}-${selectedJurisdiction?.value || 'none'}`}
-              id="jurisdiction-selector"
-              name="jurisdiction-selector"
-              options={jurisdictionComboBoxOptions}
-              onChange={handleJurisdictionChange}
-              defaultValue={selectedJurisdiction?.value}
-              disabled={!selectedState}
-              inputProps={{
-                placeholder: selectedState
-                  ? (jurisdictionType === 'place'
-                    ? 'Start typing to search cities and places'
-                    : 'Start typing to search counties')
-                  : ''
-              }}
-            />
-          </FormGroup>
+          {isListedType(jurisdictionType) && (
+            <FormGroup>
+              <Label htmlFor="jurisdiction-selector">
+                {getTypeLabel(jurisdictionType)}
+              </Label>
+              <ComboBox
+                key={`jurisdiction-${selectedState?.fips || 'none'}-${jurisdictionType}-${selectedJurisdiction?.value || 'none'}`}
+                id="jurisdiction-selector"
+                name="jurisdiction-selector"
+                options={jurisdictionComboBoxOptions}
+                onChange={handleJurisdictionChange}
+                defaultValue={selectedJurisdiction?.value}
+                disabled={!selectedState}
+                inputProps={{
+                  placeholder: selectedState
+                    ? (jurisdictionType === 'place'
+                      ? 'Start typing to search cities and places'
+                      : `Start typing to search ${getTypePlural(jurisdictionType)}`)
+                    : ''
+                }}
+              />
+              {selectedState && jurisdictionOptions.length > 0 && (
+                <Button
+                  type="button"
+                  unstyled
+                  onClick={handleAddAllInState}
+                  disabled={selectedMetric === ''}
+                  style={{ color: '#005ea2', textDecoration: 'underline', fontSize: '0.94rem', marginTop: '0.75rem' }}
+                >
+                  Add all {formatNumber(jurisdictionOptions.length)}{' '}
+                  {getTypePlural(jurisdictionType)} in {selectedState.name}
+                  {selectedMetric === '' ? ' (choose a metric first)' : ''}
+                </Button>
+              )}
+            </FormGroup>
+          )}
 
           {/* Metric Selector */}
           <div style={{ marginBottom: '2rem' }}>
@@ -569,9 +1032,15 @@ function App() {
                 onChange={handleMetricChange}
               >
                 <option value="">Select a metric</option>
-                <option value="pop2024">Population estimate (2024)</option>
-                <option value="pop2023">Population estimate (2023)</option>
-                <option value="code">GEOID / FIPS code</option>
+                {metricGroups.map((group) => (
+                  <optgroup key={group.category} label={group.label}>
+                    {group.metrics.map((def) => (
+                      <option key={def.id} value={def.id}>
+                        {def.label}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
               </Select>
               
               {/* Conditional Learn More link for GEOID/FIPS */}
@@ -626,6 +1095,18 @@ function App() {
             </ModalFooter>
           </Modal>
 
+          {/* Counties of the selected place, or places in the selected county */}
+          {(jurisdictionType === 'place' || jurisdictionType === 'county') && selectedCode && (
+            <RelatedJurisdictions
+              lookups={lookups}
+              placeCounties={placeCounties}
+              type={jurisdictionType}
+              code={selectedCode}
+              metric={selectedMetric}
+              onAddSelections={handleAddCandidates}
+            />
+          )}
+
           {/* Add Selection Button */}
           <div style={{ marginTop: '2rem', paddingTop: '1rem', borderTop: '1px solid #dfe1e2' }}>
             <Button type="button" onClick={handleAddSelection} disabled={!canAddSelection}>
@@ -634,6 +1115,129 @@ function App() {
           </div>
         </section>
 
+        {/* Bulk Import & Saved Sets Section */}
+        <section style={{ marginBottom: '2.5rem' }}>
+          <Accordion
+            bordered
+            multiselectable
+            items={[
+              {
+                id: 'bulk-import',
+                title: 'Bulk import a list of jurisdictions',
+                headingLevel: 'h2',
+                expanded: false,
+                content: (
+                  <BulkImportPanel
+                    context={importContext}
+                    metricGroups={bulkMetricGroups}
+                    onAddSelections={handleAddCandidates}
+                  />
+                ),
+              },
+              {
+                id: 'bulk-select',
+                title: 'Add jurisdictions by filter',
+                headingLevel: 'h2',
+                expanded: false,
+                content: (
+                  <BulkSelectPanel
+                    lookups={lookups}
+                    states={states}
+                    columnsByType={columnsByType}
+                    metricGroups={bulkMetricGroups}
+                    onAddSelections={handleAddCandidates}
+                  />
+                ),
+              },
+              {
+                id: 'map',
+                title: 'Map',
+                headingLevel: 'h2',
+                expanded: false,
+                content: (
+                  <MapPanel
+                    lookups={lookups}
+                    states={states}
+                    columnsByType={columnsByType}
+                    basketSelections={basketSelections}
+                    onAddSelections={handleAddCandidates}
+                  />
+                ),
+              },
+              {
+                id: 'per-capita',
+                title: 'Per-capita calculator',
+                headingLevel: 'h2',
+                expanded: false,
+                content: (
+                  <PerCapitaPanel
+                    inputs={perCapita}
+                    denominatorOptions={denominatorOptions}
+                    context={importContext}
+                    basketKeys={basketKeys}
+                    onChange={setPerCapita}
+                  />
+                ),
+              },
+              {
+                id: 'allocation',
+                title: 'Allocate an amount by population',
+                headingLevel: 'h2',
+                expanded: false,
+                content: (
+                  <AllocationPanel
+                    jurisdictions={basketJurisdictions}
+                    source={datasets[vintageId] || EMPTY_DATA}
+                    vintageLabel={getVintageName(vintageId)}
+                    populationOptions={denominatorOptions}
+                  />
+                ),
+              },
+              {
+                id: 'saved-sets',
+                title: 'Saved query sets',
+                headingLevel: 'h2',
+                expanded: false,
+                content: (
+                  <SavedSetsPanel
+                    basketEntries={basketEntries}
+                    perCapita={basketPerCapita}
+                    onLoadSet={handleLoadSavedSet}
+                  />
+                ),
+              },
+              {
+                id: 'custom-data',
+                title: 'Load your own CSV file',
+                headingLevel: 'h2',
+                expanded: false,
+                content: <CustomDataPanel states={states} onLoad={handleLoadCustomData} />,
+              },
+              {
+                id: 'diagnostics',
+                title: `Data diagnostics${diagnosticIssues > 0 ? ` (${diagnosticIssues} to review)` : ''}`,
+                headingLevel: 'h2',
+                expanded: false,
+                content: manifest && <DiagnosticsPanel manifest={manifest} datasets={datasets} vintageId={vintageId} />,
+              },
+              {
+                id: 'vintage-compare',
+                title: 'Compare data vintages',
+                headingLevel: 'h2',
+                expanded: false,
+                content: manifest && (
+                  <VintageComparePanel
+                    manifest={manifest}
+                    datasets={datasets}
+                    jurisdictions={basketJurisdictions}
+                    onLoadVintage={ensureVintage}
+                  />
+                ),
+              },
+            ]}
+          />
+        </section>
+
         {/* Selected Queries Section */}
         {basketSelections.length > 0 && (
           <section 
@@ -648,9 +1252,14 @@ function App() {
           >
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
               <h3 style={{ margin: 0, fontSize: '1.13rem', fontWeight: 600 }}>Selected Queries ({basketSelections.length})</h3>
-              <Button type="button" onClick={handleClearAll} unstyled style={{ color: '#005ea2', textDecoration: 'underline' }}>
-                Clear all
-              </Button>
+              <div style={{ display: 'flex', gap: '1.25rem', alignItems: 'center' }}>
+                <Button type="button" onClick={handleCopyLink} unstyled style={{ color: '#005ea2', textDecoration: 'underline' }}>
+                  {linkCopied ? 'Link copied' : 'Copy shareable link'}
+                </Button>
+                <Button type="button" onClick={handleClearAll} unstyled style={{ color: '#005ea2', textDecoration: 'underline' }}>
+                  Clear all
+                </Button>
+              </div>
             </div>
             <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
               {basketSelections.map((sel, index) => (
@@ -670,11 +1279,14 @@ function App() {
                   <span style={{ fontSize: '0.94rem', lineHeight: '1.5' }}>
                     <span style={{ color: '#71767a', fontSize: '0.88rem' }}>{sel.stateName}</span>
                     {' → '}
-                    <span style={{ color: '#71767a', fontSize: '0.88rem' }}>{sel.type === 'place' ? 'City/Place' : 'County'}</span>
+                    <span style={{ color: '#71767a', fontSize: '0.88rem' }}>{getTypeLabel(sel.type)}</span>
                     {': '}
                     <strong style={{ fontWeight: 600 }}>{sel.jurisdictionName}</strong>
                     {' → '}
                     <span style={{ fontSize: '0.88rem' }}>{sel.metricLabel}</span>
+                    {!resultVintage && (
+                      <span style={{ color: '#71767a', fontSize: '0.88rem' }}> ({getVintageName(sel.vintage)})</span>
+                    )}
                   </span>
                   <Button
                     type="button"
@@ -698,7 +1310,44 @@ function App() {
 
         {/* Results Section */}
         <section style={{ marginTop: '2rem', paddingTop: '1.5rem', borderTop: '1px solid #dfe1e2' }}>
-          <h2 style={{ marginBottom: '1.25rem' }}>Results</h2>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              flexWrap: 'wrap',
+              gap: '0.75rem',
+              marginBottom: '1.25rem',
+            }}
+          >
+            <div>
+              <h2 style={{ margin: 0 }}>Results</h2>
+              {resultVintage && (
+                <p className="usa-hint" style={{ margin: '0.25rem 0 0' }}>
+                  Values from {resultVintage}
+                </p>
+              )}
+              {filteredResultRows.length < calculatorTable.rows.length && (
+                <p className="usa-hint" style={{ margin: '0.25rem 0 0' }}>
+                  Downloads include the {formatNumber(filteredResultRows.length)} of{' '}
+                  {formatNumber(calculatorTable.rows.length)} rows matching the table filters
+                </p>
+              )}
+            </div>
+            {resultRows.length > 0 && (
+              <ButtonGroup type="default">
+                <Button type="button" outline onClick={() => handleExport('csv')}>
+                  Download CSV
+                </Button>
+                <Button type="button" outline onClick={() => handleExport('xlsx')}>
+                  Download Excel
+                </Button>
+                <Button type="button" outline onClick={() => handleExport('json')}>
+                  Download JSON
+                </Button>
+              </ButtonGroup>
+            )}
+          </div>
           {basketSelections.length === 0 ? (
             <div 
               style={{ 
@@ -713,97 +1362,32 @@ function App() {
                 No selections yet. Add a selection above to see results.
               </p>
             </div>
-          ) : (() => {
-            // Determine which metric columns to display
-            const metrics = basketSelections.map(sel => sel.metric)
-            const uniqueMetrics = Array.from(new Set(metrics))
-            
-            const showCodeColumn = uniqueMetrics.includes('code')
-            const showPop2023Column = uniqueMetrics.includes('pop2023')
-            const showPop2024Column = uniqueMetrics.includes('pop2024')
-            
-            // Group selections by jurisdiction for displaying multiple metrics in one row
-            const rowMap = new Map<string, {
-              stateName: string
-              type: JurisdictionType
-              jurisdictionName: string
-              jurisdictionCode: string
-              code?: string
-              pop2023?: string
-              pop2024?: string
-            }>()
-            
-            basketSelections.forEach(sel => {
-              const key = `${sel.stateFips}-${sel.type}-${sel.jurisdictionCode}`
-              
-              if (!rowMap.has(key)) {
-                rowMap.set(key, {
-                  stateName: sel.stateName,
-                  type: sel.type,
-                  jurisdictionName: sel.jurisdictionName,
-                  jurisdictionCode: sel.jurisdictionCode,
-                })
-              }
-              
-              const row = rowMap.get(key)!
-              if (sel.metric === 'code') {
-                row.code = sel.jurisdictionCode
-              } else if (sel.metric === 'pop2023') {
-                row.pop2023 = sel.value
-              } else if (sel.metric === 'pop2024') {
-                row.pop2024 = sel.value
-              }
-            })
-            
-            const rows = Array.from(rowMap.values())
-            
-            return (
-              <div style={{ overflowX: 'auto' }}>
-                <Table bordered fullWidth>
-                  <thead>
-                    <tr>
-                      <th scope="col" style={{ fontWeight: 700 }}>State</th>
-                      <th scope="col" style={{ fontWeight: 700 }}>Type</th>
-                      <th scope="col" style={{ fontWeight: 700 }}>Jurisdiction</th>
-                      {showCodeColumn && (
-                        <th scope="col" style={{ fontWeight: 700 }}>GEOID / FIPS</th>
-                      )}
-                      {showPop2023Column && (
-                        <th scope="col" style={{ fontWeight: 700, textAlign: 'right' }}>Population (2023)</th>
-                      )}
-                      {showPop2024Column && (
-                        <th scope="col" style={{ fontWeight: 700, textAlign: 'right' }}>Population (2024)</th>
-                      )}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {rows.map((row, idx) => (
-                      <tr key={idx}>
-                        <td>{row.stateName}</td>
-                        <td style={{ fontSize: '0.94rem' }}>{row.type === 'place' ? 'City/Place' : 'County'}</td>
-                        <td><strong>{row.jurisdictionName}</strong></td>
-                        {showCodeColumn && (
-                          <td style={{ fontFamily: 'monospace', fontSize: '0.9rem' }}>
-                            {row.code || row.jurisdictionCode}
-                          </td>
-                        )}
-                        {showPop2023Column && (
-                          <td style={{ textAlign: 'right', fontWeight: 600 }}>
-                            {row.pop2023 || '—'}
-                          </td>
-                        )}
-                        {showPop2024Column && (
-                          <td style={{ textAlign: 'right', fontWeight: 600 }}>
-                            {row.pop2024 || '—'}
-                          </td>
-                        )}
-                      </tr>
-                    ))}
-                  </tbody>
-                </Table>
-              </div>
-            )
-          })()}
+          ) : (
+            <>
+              <ButtonGroup type="segmented" style={{ marginBottom: '1.25rem' }}>
+                <Button type="button" outline={resultsView !== 'table'} onClick={() => setResultsView('table')}>
+                  Table
+                </Button>
+                <Button type="button" outline={resultsView !== 'charts'} onClick={() => setResultsView('charts')}>
+                  Charts
+                </Button>
+              </ButtonGroup>
+              {resultsView === 'table' ? (
+                <ResultsTable
+                  columns={calculatorTable.columns}
+                  rows={calculatorTable.rows}
+                  datasets={datasets}
+                  filter={resultFilter}
+                  onFilterChange={setResultFilter}
+                  totals={resultTotals}
+                  onTotalsChange={setResultTotals}
+                  onGroupRows={handleGroupRows}
+                />
+              ) : (
+                <ChartsPanel datasets={datasets} basketSelections={basketSelections} manifest={manifest} />
+              )}
+            </>
+          )}
         </section>
       </div>
     </GridContainer>
@@ -0,0 +1,50 @@
+import { METRIC_CATALOG, computeRate } from './metrics'
+import type { CountyRow } from './types'
+
+// PEP national files code the United States as state 00
+export const NATION_FIPS = '00'
+export const NATION_NAME = 'United States'
+
+// Geography columns that describe a row rather than measure it
+const IDENTIFIER_COLUMNS = new Set(['SUMLEV', 'REGION', 'DIVISION', 'STATE', 'COUNTY', 'STNAME', 'CTYNAME'])
+
+/**
+ * Builds a national total row from the state rows (SUMLEV 040) of the county
+ * file. Counts are summed; rates are recomputed from the summed components
+ * because rates can't be added. A column is left blank if any state is
+ * missing a value for it.
+ */
+export function buildNationRow(stateRows: CountyRow[], columns: string[]): CountyRow {
+  const row: CountyRow = {
+    SUMLEV: '010',
+    STATE: NATION_FIPS,
+    COUNTY: '000',
+    STNAME: NATION_NAME,
+    CTYNAME: NATION_NAME,
+  }
+
+  const rateColumns = new Set(METRIC_CATALOG.filter((def) => def.kind === 'rate').map((def) => def.column))
+
+  columns.forEach((column) => {
+    if (IDENTIFIER_COLUMNS.has(column) || rateColumns.has(column)) return
+
+    let total = 0
+    for (const stateRow of stateRows) {
+      const raw = stateRow[column]?.trim()
+      const value = Number(raw)
+      if (!raw || !Number.isFinite(value)) return
+      total += value
+    }
+    row[column] = String(total)
+  })
+
+  METRIC_CATALOG.forEach((def) => {
+    if (def.kind !== 'rate' || !def.column || !columns.includes(def.column)) return
+    const rate = computeRate(row, def)
+    if (rate !== null) {
+      row[def.column] = String(rate)
+    }
+  })
+
+  return row
+}
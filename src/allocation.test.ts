@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { allocateByPopulation, checkAllocation } from './allocation'
+import type { AllocationJurisdiction, AllocationOptions } from './allocation'
+
+function jurisdiction(code: string, population: number): AllocationJurisdiction {
+  return { type: 'county', code, name: `County ${code}`, stateName: 'Texas', population }
+}
+
+const BASKET = [
+  jurisdiction('48201', 4_835_125),
+  jurisdiction('48453', 1_326_436),
+  jurisdiction('48157', 916_778),
+  jurisdiction('48301', 68),
+]
+
+function options(changes: Partial<AllocationOptions> = {}): AllocationOptions {
+  return { total: 1_000_000, metric: 'pop2024', minimum: null, cap: null, rounding: 'unit', ...changes }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+describe('allocateByPopulation', () => {
+  it('adds up to the total exactly', () => {
+    const cases = [
+      options(),
+      options({ total: 1234.57, rounding: 'cent' }),
+      options({ total: 777_000, rounding: 'thousand' }),
+    ]
+    cases.forEach((opts) => {
+      const allocation = allocateByPopulation(BASKET, opts)
+      expect(sum(allocation.rows.map((row) => row.amount))).toBeCloseTo(opts.total, 6)
+      expect(sum(allocation.rows.map((row) => row.beforeRounding))).toBeCloseTo(opts.total, 6)
+    })
+  })
+
+  it('splits in proportion to population with no limits', () => {
+    const allocation = allocateByPopulation([jurisdiction('1', 100), jurisdiction('2', 300)], options({ total: 400 }))
+    expect(allocation.rows.map((row) => row.amount)).toEqual([100, 300])
+    expect(allocation.ratePerResident).toBeCloseTo(1, 9)
+  })
+
+  it('raises small jurisdictions to the minimum and shares the cost among the rest', () => {
+    const allocation = allocateByPopulation(BASKET, options({ minimum: 10_000 }))
+    const small = allocation.rows.find((row) => row.code === '48301')!
+    expect(small.amount).toBe(10_000)
+    expect(small.limit).toBe('minimum')
+    allocation.rows.forEach((row) => expect(row.amount).toBeGreaterThanOrEqual(10_000))
+    expect(sum(allocation.rows.map((row) => row.amount))).toBe(1_000_000)
+  })
+
+  it('lowers large jurisdictions to the cap and shares the rest', () => {
+    const allocation = allocateByPopulation(BASKET, options({ cap: 500_000 }))
+    const large = allocation.rows.find((row) => row.code === '48201')!
+    expect(large.amount).toBe(500_000)
+    expect(large.limit).toBe('cap')
+    allocation.rows.forEach((row) => expect(row.amount).toBeLessThanOrEqual(500_000))
+    expect(sum(allocation.rows.map((row) => row.amount))).toBe(1_000_000)
+  })
+
+  it('honours a minimum and a cap together', () => {
+    const allocation = allocateByPopulation(BASKET, options({ total: 999_999, minimum: 25_000, cap: 400_000 }))
+    allocation.rows.forEach((row) => {
+      expect(row.amount).toBeGreaterThanOrEqual(25_000)
+      expect(row.amount).toBeLessThanOrEqual(400_000)
+      expect(Number.isInteger(row.amount)).toBe(true)
+    })
+    expect(sum(allocation.rows.map((row) => row.amount))).toBe(999_999)
+  })
+
+  it('gives a leftover unit to the larger population when remainders tie', () => {
+    // Shares of 0.5 and 1.5: both remainders are 0.5
+    const allocation = allocateByPopulation([jurisdiction('1', 1), jurisdiction('2', 3)], options({ total: 2 }))
+    expect(allocation.rows.map((row) => row.amount)).toEqual([0, 2])
+    expect(allocation.rows.map((row) => row.roundingAdjustment)).toEqual([-0.5, 0.5])
+  })
+})
+
+describe('checkAllocation', () => {
+  it('accepts a total the limits can meet', () => {
+    expect(checkAllocation(BASKET, options({ minimum: 1000, cap: 600_000 }))).toBeNull()
+  })
+
+  it.each<[string, AllocationJurisdiction[], Partial<AllocationOptions>, RegExp]>([
+    ['an empty basket', [], {}, /No basket jurisdiction/],
+    ['a total of zero', BASKET, { total: 0 }, /greater than zero/],
+    ["a total that isn't whole rounding units", BASKET, { total: 1000.5 }, /total must be a multiple of 1/],
+    ['a negative minimum', BASKET, { minimum: -5 }, /minimum must be zero or more/],
+    ['a cap of zero', BASKET, { cap: 0 }, /cap must be more than zero/],
+    ['a minimum above the cap', BASKET, { minimum: 500, cap: 400 }, /minimum is larger than the cap/],
+    ['minimums above the total', BASKET, { minimum: 300_000 }, /minimum for 4 jurisdictions .* more than the total/],
+    ['caps that fall short of the total', BASKET, { cap: 200_000 }, /cap for 4 jurisdictions .* less than the total/],
+    ['no residents', [jurisdiction('1', 0), jurisdiction('2', 0)], {}, /any residents/],
+  ])('rejects %s', (_label, jurisdictions, changes, message) => {
+    expect(checkAllocation(jurisdictions, options(changes))).toMatch(message)
+  })
+})
@@ -0,0 +1,291 @@
+import type { ExportColumn, ExportTable } from './exportFormats'
+import { getMetricValue } from './metrics'
+import { resolveJurisdiction } from './selections'
+import type { VintageSource } from './selections'
+import type { JurisdictionType, MetricType } from './types'
+import { formatNumber, getTypeLabel } from './utils'
+
+// Splitting a fixed amount across the basket's jurisdictions in proportion to
+// population, with an optional minimum and cap per jurisdiction, rounded so
+// the parts add up to the total exactly.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export type AllocationRounding = 'cent' | 'unit' | 'hundred' | 'thousand'
+
+export interface AllocationOptions {
+  total: number
+  metric: MetricType
+  // Least and most any one jurisdiction receives; null for no limit
+  minimum: number | null
+  cap: number | null
+  rounding: AllocationRounding
+}
+
+export interface AllocationJurisdiction {
+  type: JurisdictionType
+  code: string
+  name: string
+  stateName: string
+  population: number
+}
+
+export interface AllocationRow extends AllocationJurisdiction {
+  // Share of the combined population (0–1)
+  populationShare: number
+  // Share of the total with no minimum, cap or rounding
+  proportional: number
+  // After the minimum and cap, before rounding
+  beforeRounding: number
+  limit: 'minimum' | 'cap' | null
+  amount: number
+  // amount − beforeRounding
+  roundingAdjustment: number
+}
+
+export interface Allocation {
+  options: AllocationOptions
+  rows: AllocationRow[]
+  // Amount per resident received by every jurisdiction not held at the minimum or cap
+  ratePerResident: number
+  totalPopulation: number
+}
+
+// ========================================================
+// OPTIONS
+// ========================================================
+
+export const ROUNDING_OPTIONS: { value: AllocationRounding; label: string; unit: number }[] = [
+  { value: 'cent', label: 'To the cent (0.01)', unit: 0.01 },
+  { value: 'unit', label: 'To whole dollars (1)', unit: 1 },
+  { value: 'hundred', label: 'To the hundred (100)', unit: 100 },
+  { value: 'thousand', label: 'To the thousand (1,000)', unit: 1000 },
+]
+
+function getRounding(rounding: AllocationRounding) {
+  return ROUNDING_OPTIONS.find((opt) => opt.value === rounding) || ROUNDING_OPTIONS[0]
+}
+
+// Whole number of rounding units, or null when the amount isn't one
+function toUnits(amount: number, unit: number): number | null {
+  const units = amount / unit
+  return Math.abs(units - Math.round(units)) < 1e-6 ? Math.round(units) : null
+}
+
+/**
+ * Why the allocation can't be made, or null when it can: amounts that aren't
+ * whole rounding units, or a minimum or cap the total can't meet.
+ */
+export function checkAllocation(jurisdictions: AllocationJurisdiction[], options: AllocationOptions): string | null {
+  const { total, minimum, cap } = options
+  const { unit } = getRounding(options.rounding)
+  const unitText = `a multiple of ${formatNumber(unit, unit < 1 ? 2 : 0)}, the rounding unit`
+  if (jurisdictions.length === 0) return 'No basket jurisdiction has a population to allocate by.'
+  if (!(total > 0)) return 'Enter a total amount greater than zero.'
+  if (toUnits(total, unit) === null) return `The total must be ${unitText}.`
+  if (minimum !== null && (minimum < 0 || toUnits(minimum, unit) === null)) {
+    return `The minimum must be zero or more and ${unitText}.`
+  }
+  if (cap !== null && (cap <= 0 || toUnits(cap, unit) === null)) {
+    return `The cap must be more than zero and ${unitText}.`
+  }
+  if (minimum !== null && cap !== null && minimum > cap) return 'The minimum is larger than the cap.'
+
+  const count = formatNumber(jurisdictions.length)
+  const least = (minimum ?? 0) * jurisdictions.length
+  if (least > total) return `The minimum for ${count} jurisdictions (${formatNumber(least, 2)}) is more than the total.`
+  // Jurisdictions with no residents can't receive more than the minimum
+  const populated = jurisdictions.filter((j) => j.population > 0).length
+  const most = cap === null ? Infinity : cap * populated + (minimum ?? 0) * (jurisdictions.length - populated)
+  if (most < total) return `The cap for ${count} jurisdictions (${formatNumber(most, 2)}) is less than the total.`
+  if (populated === 0 && least !== total) {
+    return 'None of the jurisdictions have any residents to divide the total by.'
+  }
+  return null
+}
+
+// ========================================================
+// ALLOCATION
+// ========================================================
+
+function clampShare(rate: number, population: number, minimum: number, cap: number): number {
+  return Math.min(cap, Math.max(minimum, rate * population))
+}
+
+function sumShares(rate: number, populations: number[], minimum: number, cap: number): number {
+  return populations.reduce((sum, population) => sum + clampShare(rate, population, minimum, cap), 0)
+}
+
+/**
+ * The amount per resident at which every jurisdiction's share, held between
+ * the minimum and cap, adds up to the total. The sum rises with the rate and
+ * is linear between the rates where a jurisdiction reaches the minimum or the
+ * cap, so the rate is found between those breakpoints exactly.
+ */
+function solveRate(populations: number[], total: number, minimum: number, cap: number): number {
+  const populated = populations.filter((population) => population > 0)
+  const breakpoints = Array.from(
+    new Set([0, ...populated.flatMap((population) => [minimum / population, cap / population])])
+  )
+    .filter(Number.isFinite)
+    .sort((a, b) => a - b)
+  const sumAt = (rate: number) => sumShares(rate, populations, minimum, cap)
+
+  // Past the last breakpoint only an uncapped allocation still grows
+  const last = breakpoints[breakpoints.length - 1]
+  if (sumAt(last) < total) {
+    const slope = populated.reduce((sum, population) => sum + population, 0)
+    return last + (total - sumAt(last)) / slope
+  }
+
+  // First breakpoint where the shares reach the total
+  let low = 0
+  let high = breakpoints.length - 1
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if (sumAt(breakpoints[mid]) >= total) high = mid
+    else low = mid + 1
+  }
+  if (high === 0) return 0
+  const from = breakpoints[high - 1]
+  const to = breakpoints[high]
+  const fromSum = sumAt(from)
+  return from + ((total - fromSum) * (to - from)) / (sumAt(to) - fromSum)
+}
+
+/**
+ * Splits the total in proportion to population: every jurisdiction gets the
+ * same amount per resident, raised to the minimum or lowered to the cap where
+ * needed, with what that frees or costs shared among the rest. Shares are
+ * then rounded down to the rounding unit and the units left over go, one
+ * each, to the largest remainders (ties to the larger population), so the
+ * amounts add up to the total exactly. Call checkAllocation first.
+ */
+export function allocateByPopulation(jurisdictions: AllocationJurisdiction[], options: AllocationOptions): Allocation {
+  // Worked in whole rounding units, so rounding is exact
+  const { unit } = getRounding(options.rounding)
+  const total = toUnits(options.total, unit) ?? 0
+  const minimum = options.minimum === null ? 0 : (toUnits(options.minimum, unit) ?? 0)
+  const cap = options.cap === null ? Infinity : (toUnits(options.cap, unit) ?? Infinity)
+
+  const populations = jurisdictions.map((j) => j.population)
+  const totalPopulation = populations.reduce((sum, population) => sum + population, 0)
+  const rate = solveRate(populations, total, minimum, cap)
+  const shares = populations.map((population) => clampShare(rate, population, minimum, cap))
+
+  const amounts = shares.map((share) => Math.floor(share + 1e-9))
+  let leftover = total - amounts.reduce((sum, amount) => sum + amount, 0)
+  const byRemainder = shares
+    .map((share, i) => ({ i, remainder: share - amounts[i] }))
+    .sort((a, b) => b.remainder - a.remainder || populations[b.i] - populations[a.i] || a.i - b.i)
+  for (const { i } of byRemainder) {
+    if (leftover <= 0) break
+    if (amounts[i] + 1 > cap) continue
+    amounts[i] += 1
+    leftover -= 1
+  }
+
+  const toAmount = (units: number) => Math.round(units * unit * 100) / 100
+  const rows = jurisdictions.map((jurisdiction, i) => {
+    const uncapped = rate * jurisdiction.population
+    return {
+      ...jurisdiction,
+      populationShare: totalPopulation > 0 ? jurisdiction.population / totalPopulation : 0,
+      proportional: totalPopulation > 0 ? (options.total * jurisdiction.population) / totalPopulation : 0,
+      beforeRounding: shares[i] * unit,
+      limit: uncapped < minimum ? ('minimum' as const) : uncapped > cap ? ('cap' as const) : null,
+      amount: toAmount(amounts[i]),
+      roundingAdjustment: toAmount(amounts[i]) - shares[i] * unit,
+    }
+  })
+
+  return { options, rows, ratePerResident: rate * unit, totalPopulation }
+}
+
+/**
+ * The basket's distinct jurisdictions with their population from one vintage.
+ * Those the vintage doesn't have, or has no value for, are returned separately.
+ */
+export function getAllocationJurisdictions(
+  jurisdictions: { type: JurisdictionType; code: string }[],
+  metric: MetricType,
+  source: VintageSource
+): { included: AllocationJurisdiction[]; excluded: { type: JurisdictionType; code: string; name: string }[] } {
+  const included: AllocationJurisdiction[] = []
+  const excluded: { type: JurisdictionType; code: string; name: string }[] = []
+  jurisdictions.forEach(({ type, code }) => {
+    const jurisdiction = resolveJurisdiction(source.lookups, type, code)
+    const population = jurisdiction ? getMetricValue(jurisdiction.row, metric) : null
+    if (!jurisdiction || population === null) {
+      excluded.push({ type, code, name: jurisdiction ? `${jurisdiction.name}, ${jurisdiction.stateName}` : code })
+      return
+    }
+    const { name, stateName } = jurisdiction
+    included.push({ type, code: jurisdiction.code, name, stateName, population })
+  })
+  return { included, excluded }
+}
+
+// ========================================================
+// EXPORT
+// ========================================================
+
+const LIMIT_LABELS: Record<NonNullable<AllocationRow['limit']>, string> = {
+  minimum: 'Raised to minimum',
+  cap: 'Lowered to cap',
+}
+
+export function getLimitLabel(limit: AllocationRow['limit']): string {
+  return limit ? LIMIT_LABELS[limit] : ''
+}
+
+/**
+ * The breakdown with one row per jurisdiction and a total row, with the
+ * steps from the proportional share to the final amount.
+ */
+export function allocationToExportTable(allocation: Allocation, populationLabel: string): ExportTable {
+  const columns: ExportColumn[] = [
+    { key: 'state', header: 'State', type: 'text' },
+    { key: 'type', header: 'Type', type: 'text' },
+    { key: 'jurisdiction', header: 'Jurisdiction', type: 'text' },
+    { key: 'code', header: 'GEOID / FIPS', type: 'text' },
+    { key: 'population', header: populationLabel, type: 'number' },
+    { key: 'populationShare', header: 'Share of population (%)', type: 'number' },
+    { key: 'proportional', header: 'Proportional share', type: 'number' },
+    { key: 'limit', header: 'Minimum or cap', type: 'text' },
+    { key: 'beforeRounding', header: 'Before rounding', type: 'number' },
+    { key: 'roundingAdjustment', header: 'Rounding adjustment', type: 'number' },
+    { key: 'amount', header: 'Allocation', type: 'number' },
+  ]
+
+  const rows: ExportTable['rows'] = allocation.rows.map((row) => ({
+    state: row.stateName,
+    type: getTypeLabel(row.type),
+    jurisdiction: row.name,
+    code: row.code,
+    population: row.population,
+    populationShare: row.populationShare * 100,
+    proportional: row.proportional,
+    limit: getLimitLabel(row.limit),
+    beforeRounding: row.beforeRounding,
+    roundingAdjustment: row.roundingAdjustment,
+    amount: row.amount,
+  }))
+  rows.push({
+    state: null,
+    type: null,
+    jurisdiction: `Total (${allocation.rows.length} jurisdictions)`,
+    code: null,
+    population: allocation.totalPopulation,
+    populationShare: 100,
+    proportional: allocation.options.total,
+    limit: null,
+    beforeRounding: allocation.options.total,
+    roundingAdjustment: 0,
+    amount: allocation.options.total,
+  })
+
+  return { columns, rows }
+}
@@ -0,0 +1,179 @@
+import Papa from 'papaparse'
+import { describeCodeChange, findCodeChange } from './crosswalk'
+import { findByName } from './nameMatching'
+import type { NameIndex, NameMatchType } from './nameMatching'
+import { classifyCode } from './query'
+import { resolveJurisdiction } from './selections'
+import type { JurisdictionLookups } from './selections'
+import { findState } from './stateCodes'
+import type { JurisdictionCandidate, StateOption } from './types'
+import { getTypeLabel } from './utils'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export type ImportLineResult =
+  | { status: 'matched'; line: number; input: string; match: JurisdictionCandidate; note?: string }
+  | { status: 'ambiguous'; line: number; input: string; candidates: JurisdictionCandidate[]; note?: string }
+  | { status: 'unmatched'; line: number; input: string; reason: string }
+  | { status: 'skipped'; line: number; input: string; reason: string }
+
+export interface ImportContext extends JurisdictionLookups {
+  states: StateOption[]
+  nameIndex: NameIndex
+}
+
+// ========================================================
+// PARSING
+// ========================================================
+
+// Matches header cells like "GEOID", "County FIPS", "Name", "State"
+const HEADER_PATTERN = /^(geoid|fips|.*\bfips\b.*|.*\bcode\b.*|name|jurisdiction|state|county|place|city)$/i
+
+/**
+ * Undoes the wrapping spreadsheets and our own CSV export put around codes,
+ * e.g. ="01001" or '01001.
+ */
+function cleanCell(cell: string): string {
+  return cell
+    .trim()
+    .replace(/^="(.*)"$/, '$1')
+    .replace(/^'/, '')
+    .trim()
+}
+
+/**
+ * Splits pasted text or an uploaded CSV into rows of cells. Each line is either
+ * a single code/name or comma-separated cells, so "Travis County, TX" becomes
+ * ["Travis County", "TX"].
+ */
+export function parseImportText(text: string): string[][] {
+  const results = Papa.parse<string[]>(text.trim(), { skipEmptyLines: 'greedy' })
+  return results.data.map((row) => row.map(cleanCell))
+}
+
+// ========================================================
+// RESOLUTION
+// ========================================================
+
+function toCandidate({ type, code, name, stateFips, stateName }: JurisdictionCandidate): JurisdictionCandidate {
+  return { type, code, name, stateFips, stateName }
+}
+
+function resolveCode(
+  context: ImportContext,
+  line: number,
+  input: string,
+  code: string,
+  matchType: NameMatchType
+): ImportLineResult {
+  const { types, padded } = classifyCode(code)
+  const note = padded !== code ? `Restored leading zero (${padded})` : undefined
+  const matchTypes = matchType === 'any' ? types : types.filter((type) => type === matchType)
+
+  if (matchType !== 'any' && matchTypes.length === 0) {
+    return {
+      status: 'unmatched',
+      line,
+      input,
+      reason: `${padded} is a ${getTypeLabel(types[0]).toLowerCase()} code, but only ${getTypeLabel(matchType).toLowerCase()} jurisdictions are being imported`,
+    }
+  }
+
+  // Where types share a code length (places and consolidated cities), the first the code is found as
+  const type = matchTypes.find((t) => resolveJurisdiction(context, t, padded)) || matchTypes[0]
+  const typeLabel = getTypeLabel(type).toLowerCase()
+  const jurisdiction = resolveJurisdiction(context, type, padded)
+  if (!jurisdiction) {
+    // Retired codes match their successors, or offer them when there are several
+    const change = findCodeChange(type, padded)
+    const successors = (change?.successors || []).flatMap((successor) => {
+      const resolved = resolveJurisdiction(context, type, successor.code)
+      return resolved ? [toCandidate(resolved)] : []
+    })
+    if (change && successors.length === 1) {
+      return { status: 'matched', line, input, match: successors[0], note: describeCodeChange(change) }
+    }
+    if (change && successors.length > 1) {
+      return { status: 'ambiguous', line, input, candidates: successors, note: describeCodeChange(change) }
+    }
+    return { status: 'unmatched', line, input, reason: `No ${typeLabel} with code ${padded}` }
+  }
+  return { status: 'matched', line, input, match: toCandidate(jurisdiction), note }
+}
+
+function resolveName(
+  context: ImportContext,
+  line: number,
+  input: string,
+  cells: string[],
+  matchType: NameMatchType
+): ImportLineResult {
+  const [name, stateInput] = cells
+
+  let stateFips: string | null = null
+  if (stateInput) {
+    const state = findState(stateInput, context.states)
+    if (!state) {
+      return { status: 'unmatched', line, input, reason: `Unrecognized state "${stateInput}"` }
+    }
+    stateFips = state.fips
+  }
+
+  const candidates = findByName(context.nameIndex, name, stateFips, matchType)
+  if (candidates.length === 1) {
+    return { status: 'matched', line, input, match: candidates[0] }
+  }
+  if (candidates.length > 1) {
+    return { status: 'ambiguous', line, input, candidates }
+  }
+  return {
+    status: 'unmatched',
+    line,
+    input,
+    reason: stateFips ? `No jurisdiction named "${name}" in ${stateInput}` : `No jurisdiction named "${name}"`,
+  }
+}
+
+/**
+ * Resolves parsed rows against the loaded lookups. A row containing a 5-digit
+ * county FIPS, a 7-digit place GEOID or a longer sub-county GEOID, or
+ * consisting only of a 2-digit state FIPS, is resolved by code; otherwise the
+ * first two cells are read as "Name, State" (state optional, as a name,
+ * abbreviation or FIPS code).
+ */
+export function resolveImportRows(
+  rows: string[][],
+  context: ImportContext,
+  matchType: NameMatchType
+): ImportLineResult[] {
+  return rows.map((rawCells, index) => {
+    const line = index + 1
+    const cells = rawCells.filter((cell) => cell !== '')
+    const input = cells.join(', ')
+
+    // A lone 1-2 digit cell is a state code; elsewhere short numbers could be anything
+    const stateCode = cells.length === 1 && /^\d{1,2}$/.test(cells[0]) ? cells[0] : undefined
+    const code = cells.find((cell) => /^\d{4,15}$/.test(cell)) ?? stateCode
+    if (code) {
+      return resolveCode(context, line, input, code, matchType)
+    }
+
+    if (index === 0 && cells.every((cell) => HEADER_PATTERN.test(cell))) {
+      return { status: 'skipped', line, input, reason: 'Header row' }
+    }
+
+    // Numbers next to a name are read as a state ("Harris, 48"); only a row of numbers alone is a bad code
+    if (cells.every((cell) => /^\d+$/.test(cell))) {
+      return {
+        status: 'unmatched',
+        line,
+        input,
+        reason: 'Codes must be 2-digit state FIPS, 5-digit county FIPS, 7-digit place GEOIDs or sub-county GEOIDs',
+      }
+    }
+
+    return resolveName(context, line, input, cells, matchType)
+  })
+}
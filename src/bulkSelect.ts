@@ -0,0 +1,88 @@
+import { getMetricValue } from './metrics'
+import { normalizeName } from './nameMatching'
+import { getTypeLookup, resolveJurisdiction } from './selections'
+import type { JurisdictionLookups, ListedType } from './selections'
+import type { JurisdictionCandidate, MetricType } from './types'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface BulkFilter {
+  type: ListedType
+  // null selects across every state
+  stateFips: string | null
+  // Population column used for the thresholds and the top-N ranking
+  populationMetric: MetricType
+  minPopulation: number | null
+  maxPopulation: number | null
+  // Case- and accent-insensitive; "*" matches anything, otherwise a substring match
+  namePattern: string
+  topN: number | null
+}
+
+export interface BulkFilterMatch extends JurisdictionCandidate {
+  population: number | null
+}
+
+// ========================================================
+// MATCHING
+// ========================================================
+
+function buildNameMatcher(pattern: string): ((name: string) => boolean) | null {
+  if (!pattern.trim()) return null
+
+  const rawParts = pattern.split('*')
+  if (rawParts.length === 1) {
+    const needle = normalizeName(pattern)
+    return (name) => normalizeName(name).includes(needle)
+  }
+  // Keep the spaces around a wildcard so "san *" doesn't match "Santa Clara"
+  const escaped = rawParts.map((raw) => {
+    const part = normalizeName(raw)
+    const before = part && /^\s/.test(raw) ? ' ' : ''
+    const after = part && /\s$/.test(raw) ? ' ' : ''
+    return `${before}${part}${after}`.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  })
+  const regex = new RegExp(`^${escaped.join('.*')}$`)
+  return (name) => regex.test(normalizeName(name))
+}
+
+/**
+ * Finds every place or county matching the filter, largest population first.
+ * Jurisdictions without a population value are dropped whenever a threshold
+ * or top-N limit is set, since they can't be compared.
+ */
+export function findBulkMatches(lookups: JurisdictionLookups, filter: BulkFilter): BulkFilterMatch[] {
+  const lookup = getTypeLookup(lookups, filter.type)
+  const matchesName = buildNameMatcher(filter.namePattern)
+  const needsPopulation = filter.minPopulation !== null || filter.maxPopulation !== null || filter.topN !== null
+
+  const matches: BulkFilterMatch[] = []
+  lookup.forEach((_row, code) => {
+    if (filter.stateFips && !code.startsWith(filter.stateFips)) return
+
+    const jurisdiction = resolveJurisdiction(lookups, filter.type, code)
+    if (!jurisdiction) return
+    if (matchesName && !matchesName(jurisdiction.name)) return
+
+    const population = getMetricValue(jurisdiction.row, filter.populationMetric)
+    if (needsPopulation && population === null) return
+    if (population !== null) {
+      if (filter.minPopulation !== null && population < filter.minPopulation) return
+      if (filter.maxPopulation !== null && population > filter.maxPopulation) return
+    }
+
+    const { type, name, stateFips, stateName } = jurisdiction
+    matches.push({ type, code: jurisdiction.code, name, stateFips, stateName, population })
+  })
+
+  matches.sort(
+    (a, b) =>
+      (b.population ?? -Infinity) - (a.population ?? -Infinity) ||
+      a.stateName.localeCompare(b.stateName) ||
+      a.name.localeCompare(b.name)
+  )
+
+  return filter.topN !== null ? matches.slice(0, filter.topN) : matches
+}
@@ -0,0 +1,230 @@
+import { ESTIMATE_YEARS, getMetricValue, isMetricAvailable } from './metrics'
+import { isListedType, resolveJurisdiction } from './selections'
+import type { VintageSource } from './selections'
+import type { JurisdictionType, MetricType, Selection } from './types'
+
+// Data for the Results charts, read from the loaded rows rather than the
+// basket's values so every chart can use metrics that weren't selected.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+// A distinct jurisdiction + vintage in the basket
+export interface ChartJurisdiction {
+  key: string
+  label: string
+  type: JurisdictionType
+  code: string
+  vintage: string
+}
+
+export interface ChartSeries {
+  key: string
+  label: string
+  // One per year of the chart; null where the row has no value
+  values: (number | null)[]
+}
+
+export interface TimeSeriesData {
+  years: number[]
+  series: ChartSeries[]
+}
+
+export interface BarDatum {
+  key: string
+  label: string
+  value: number
+}
+
+export interface ComponentPart {
+  id: string
+  label: string
+  // Column prefix of the count and of its per-1,000 rate
+  countPrefix: string
+  ratePrefix: string
+}
+
+export interface ComponentBar {
+  key: string
+  label: string
+  // By ComponentPart id
+  values: Record<string, number | null>
+}
+
+// ========================================================
+// JURISDICTIONS
+// ========================================================
+
+/**
+ * Distinct jurisdictions in the basket, in basket order. `vintageLabel` is
+ * added to each label when the basket mixes vintages.
+ */
+export function getChartJurisdictions(
+  selections: Selection[],
+  vintageLabel: (id: string) => string
+): ChartJurisdiction[] {
+  const mixed = new Set(selections.map((sel) => sel.vintage)).size > 1
+  const byKey = new Map<string, ChartJurisdiction>()
+  selections.forEach((sel) => {
+    const key = `${sel.type}-${sel.jurisdictionCode}-${sel.vintage}`
+    if (byKey.has(key)) return
+    const place = isListedType(sel.type) ? `${sel.jurisdictionName}, ${sel.stateName}` : sel.jurisdictionName
+    byKey.set(key, {
+      key,
+      label: mixed ? `${place} (${vintageLabel(sel.vintage)})` : place,
+      type: sel.type,
+      code: sel.jurisdictionCode,
+      vintage: sel.vintage,
+    })
+  })
+  return Array.from(byKey.values())
+}
+
+function readMetric(
+  sources: Record<string, VintageSource>,
+  jurisdiction: ChartJurisdiction,
+  metric: MetricType
+): number | null {
+  const source = sources[jurisdiction.vintage]
+  if (!source || !isMetricAvailable(metric, source.columnsByType[jurisdiction.type])) return null
+  const resolved = resolveJurisdiction(source.lookups, jurisdiction.type, jurisdiction.code)
+  return resolved ? getMetricValue(resolved.row, metric) : null
+}
+
+// ========================================================
+// CHART DATA
+// ========================================================
+
+/**
+ * Population estimates of each jurisdiction for every year any of them has.
+ */
+export function buildTimeSeries(
+  sources: Record<string, VintageSource>,
+  jurisdictions: ChartJurisdiction[]
+): TimeSeriesData {
+  const all = jurisdictions.map((jurisdiction) => ({
+    key: jurisdiction.key,
+    label: jurisdiction.label,
+    values: ESTIMATE_YEARS.map((year) => readMetric(sources, jurisdiction, `pop${year}`)),
+  }))
+  const yearIndexes = ESTIMATE_YEARS.map((_, i) => i).filter((i) => all.some((series) => series.values[i] !== null))
+
+  return {
+    years: yearIndexes.map((i) => ESTIMATE_YEARS[i]),
+    series: all
+      .map((series) => ({ ...series, values: yearIndexes.map((i) => series.values[i]) }))
+      .filter((series) => series.values.some((value) => value !== null)),
+  }
+}
+
+/**
+ * The jurisdictions with a value for the metric, largest first.
+ */
+export function buildRanking(
+  sources: Record<string, VintageSource>,
+  jurisdictions: ChartJurisdiction[],
+  metric: MetricType
+): BarDatum[] {
+  return jurisdictions
+    .flatMap((jurisdiction) => {
+      const value = readMetric(sources, jurisdiction, metric)
+      return value === null ? [] : [{ key: jurisdiction.key, label: jurisdiction.label, value }]
+    })
+    .sort((a, b) => b.value - a.value)
+}
+
+// Natural change plus the two kinds of migration make up most of the
+// numeric change; the Census residual is left out
+export const COMPONENT_PARTS: ComponentPart[] = [
+  { id: 'natural', label: 'Natural change', countPrefix: 'naturalchg', ratePrefix: 'rnaturalchg' },
+  { id: 'domestic', label: 'Net domestic migration', countPrefix: 'domesticmig', ratePrefix: 'rdomesticmig' },
+  {
+    id: 'international',
+    label: 'Net international migration',
+    countPrefix: 'internationalmig',
+    ratePrefix: 'rinternationalmig',
+  },
+]
+
+/**
+ * Years with components of change for any of the jurisdictions. Rates start
+ * a year later, since 2020 only covers April to July.
+ */
+export function getComponentYears(
+  sources: Record<string, VintageSource>,
+  jurisdictions: ChartJurisdiction[],
+  asRate: boolean
+): number[] {
+  const part = COMPONENT_PARTS[0]
+  return ESTIMATE_YEARS.filter((year) => {
+    const metric = `${asRate ? part.ratePrefix : part.countPrefix}${year}`
+    return jurisdictions.some((jurisdiction) => {
+      const source = sources[jurisdiction.vintage]
+      return !!source && isMetricAvailable(metric, source.columnsByType[jurisdiction.type])
+    })
+  })
+}
+
+/**
+ * Components of change of each jurisdiction for one year, as people or per
+ * 1,000 residents. Jurisdictions without them (places) are left out.
+ */
+export function buildComponents(
+  sources: Record<string, VintageSource>,
+  jurisdictions: ChartJurisdiction[],
+  year: number,
+  asRate: boolean
+): ComponentBar[] {
+  return jurisdictions.flatMap((jurisdiction) => {
+    const values: Record<string, number | null> = {}
+    COMPONENT_PARTS.forEach((part) => {
+      values[part.id] = readMetric(sources, jurisdiction, `${asRate ? part.ratePrefix : part.countPrefix}${year}`)
+    })
+    return Object.values(values).some((value) => value !== null)
+      ? [{ key: jurisdiction.key, label: jurisdiction.label, values }]
+      : []
+  })
+}
+
+// ========================================================
+// SCALES
+// ========================================================
+
+// USWDS data-visualization colors: blue-60v, orange-40v, green-cool-50v,
+// violet-50v, gold-20v, red-60v, cyan-40v, magenta-50v
+export const CHART_COLORS = ['#005ea2', '#e66f0e', '#00a398', '#8168b3', '#ffbe2e', '#b50909', '#00bde3', '#d72d79']
+
+export function getChartColor(index: number): string {
+  return CHART_COLORS[index % CHART_COLORS.length]
+}
+
+/**
+ * Round axis ticks covering [min, max], about `count` of them.
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    if (min === 0) return [0, 1]
+    min = Math.min(0, min)
+    max = Math.max(0, max)
+  }
+  const rough = (max - min) / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)))
+  const step = [1, 2, 2.5, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) ?? rough
+  const ticks: number[] = []
+  for (let tick = Math.floor(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)))
+  }
+  if (ticks[ticks.length - 1] < max) ticks.push(Number((ticks[ticks.length - 1] + step).toPrecision(12)))
+  return ticks
+}
+
+/**
+ * Short axis labels: 1.2M, 350K, 0.5.
+ */
+export function formatTick(value: number): string {
+  const abs = Math.abs(value)
+  if (abs >= 1e6) return `${Number((value / 1e6).toPrecision(3))}M`
+  if (abs >= 1e3) return `${Number((value / 1e3).toPrecision(3))}K`
+  return String(Number(value.toPrecision(3)))
+}
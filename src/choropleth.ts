@@ -0,0 +1,134 @@
+import { getMetricValue } from './metrics'
+import { resolveJurisdiction } from './selections'
+import type { JurisdictionLookups } from './selections'
+import type { JurisdictionCandidate, MetricType } from './types'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export type ClassificationMethod = 'quantile' | 'equalInterval'
+
+export interface MapValue extends JurisdictionCandidate {
+  // null when the row has no usable value; drawn as "no data"
+  value: number | null
+}
+
+export interface LegendClass {
+  from: number
+  to: number
+  color: string
+  // Jurisdictions in the class
+  count: number
+}
+
+// ========================================================
+// VALUES
+// ========================================================
+
+/**
+ * Reads the metric for each code of a place or county lookup, skipping codes
+ * that aren't in the loaded data.
+ */
+export function collectMapValues(
+  lookups: JurisdictionLookups,
+  type: 'place' | 'county',
+  codes: Iterable<string>,
+  metric: MetricType
+): MapValue[] {
+  const values: MapValue[] = []
+  for (const code of codes) {
+    const jurisdiction = resolveJurisdiction(lookups, type, code)
+    if (!jurisdiction) continue
+    const { row, ...candidate } = jurisdiction
+    values.push({ ...candidate, value: getMetricValue(row, metric) })
+  }
+  return values
+}
+
+/**
+ * Every place or county code in one state, or nationwide when `stateFips` is null.
+ */
+export function getCodesInState(
+  lookups: JurisdictionLookups,
+  type: 'place' | 'county',
+  stateFips: string | null
+): string[] {
+  const lookup = type === 'place' ? lookups.placeLookup : lookups.countyLookup
+  return Array.from(lookup.keys()).filter((code) => !stateFips || code.startsWith(stateFips))
+}
+
+// ========================================================
+// CLASSIFICATION
+// ========================================================
+
+export const CLASSIFICATION_METHODS: { value: ClassificationMethod; label: string }[] = [
+  { value: 'quantile', label: 'Quantiles (same number of jurisdictions in each class)' },
+  { value: 'equalInterval', label: 'Equal intervals (same range of values in each class)' },
+]
+
+// USWDS blue-10 through blue-70
+const BLUE_SCALE = ['#d9e8f6', '#aacdec', '#73b3e7', '#4f97d1', '#2378c3', '#2c608a', '#274863']
+
+// USWDS base-lighter
+export const NO_DATA_COLOR = '#dfe1e2'
+
+export const MIN_CLASSES = 3
+export const MAX_CLASSES = BLUE_SCALE.length
+
+/**
+ * Evenly spread shades of the USWDS blue scale, lightest first.
+ */
+export function getClassColors(classCount: number): string[] {
+  if (classCount <= 1) return [BLUE_SCALE[Math.floor(BLUE_SCALE.length / 2)]]
+  return Array.from(
+    { length: classCount },
+    (_, i) => BLUE_SCALE[Math.round((i * (BLUE_SCALE.length - 1)) / (classCount - 1))]
+  )
+}
+
+/**
+ * Lower bounds of every class but the first, ascending. Quantile breaks that
+ * coincide (many equal values) are merged, so fewer classes can come back
+ * than were asked for.
+ */
+export function computeBreaks(values: number[], method: ClassificationMethod, classCount: number): number[] {
+  if (values.length === 0) return []
+  const sorted = [...values].sort((a, b) => a - b)
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+  if (min === max) return []
+
+  const breaks = Array.from({ length: classCount - 1 }, (_, i) =>
+    method === 'quantile'
+      ? sorted[Math.floor(((i + 1) * sorted.length) / classCount)]
+      : min + ((i + 1) * (max - min)) / classCount
+  )
+  return breaks.filter((value, i) => value > min && (i === 0 || value > breaks[i - 1]))
+}
+
+// Index of the class a value falls in
+export function classify(value: number, breaks: number[]): number {
+  let index = 0
+  while (index < breaks.length && value >= breaks[index]) index++
+  return index
+}
+
+/**
+ * One legend entry per class, from the smallest to the largest value.
+ */
+export function buildLegend(values: number[], breaks: number[]): LegendClass[] {
+  if (values.length === 0) return []
+  const colors = getClassColors(breaks.length + 1)
+  const counts = new Array<number>(breaks.length + 1).fill(0)
+  values.forEach((value) => counts[classify(value, breaks)]++)
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+
+  return colors.map((color, i) => ({
+    from: i === 0 ? min : breaks[i - 1],
+    to: i === breaks.length ? max : breaks[i],
+    color,
+    count: counts[i],
+  }))
+}
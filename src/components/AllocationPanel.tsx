@@ -0,0 +1,282 @@
+import { useState } from 'react'
+import { Alert, Button, ButtonGroup, FormGroup, Label, Select, Table, TextInput } from '@trussworks/react-uswds'
+import {
+  ROUNDING_OPTIONS,
+  allocateByPopulation,
+  allocationToExportTable,
+  checkAllocation,
+  getAllocationJurisdictions,
+  getLimitLabel,
+} from '../allocation'
+import type { Allocation, AllocationRounding } from '../allocation'
+import { exportTable } from '../export'
+import type { ExportFormat } from '../exportFormats'
+import { getMetricDefinition, getMetricLabel } from '../metrics'
+import type { MetricDefinition } from '../metrics'
+import { parseAmount } from '../perCapita'
+import type { VintageSource } from '../selections'
+import type { JurisdictionType, MetricType } from '../types'
+import { formatNumber, getTypeLabel } from '../utils'
+
+interface AllocationPanelProps {
+  // Distinct jurisdictions in the basket
+  jurisdictions: { type: JurisdictionType; code: string }[]
+  // The selected vintage's data, which populations are read from
+  source: VintageSource
+  vintageLabel: string
+  // Population metrics of that vintage
+  populationOptions: MetricDefinition[]
+}
+
+interface AllocationReport {
+  allocation: Allocation
+  // Basket jurisdictions left out for lack of a population
+  excluded: string[]
+}
+
+function formatAmount(value: number): string {
+  return formatNumber(value, 2)
+}
+
+// Blank means no limit; anything else must be a number
+function readOptionalAmount(text: string): number | null | undefined {
+  return text.trim() === '' ? null : (parseAmount(text) ?? undefined)
+}
+
+function AllocationPanel({ jurisdictions, source, vintageLabel, populationOptions }: AllocationPanelProps) {
+  const [totalText, setTotalText] = useState('')
+  const [metric, setMetric] = useState<MetricType>('')
+  const [minimumText, setMinimumText] = useState('')
+  const [capText, setCapText] = useState('')
+  const [rounding, setRounding] = useState<AllocationRounding>('unit')
+  const [report, setReport] = useState<AllocationReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // The latest population estimate until the user picks another
+  const activeMetric = metric || populationOptions[populationOptions.length - 1]?.id || ''
+
+  const handleAllocate = () => {
+    const total = parseAmount(totalText)
+    const minimum = readOptionalAmount(minimumText)
+    const cap = readOptionalAmount(capText)
+    if (total === null || minimum === undefined || cap === undefined) {
+      setError(
+        'Enter the total, minimum and cap as numbers, such as 1500000 or $1,500,000; leave the minimum and cap ' +
+          'blank for no limit.'
+      )
+      setReport(null)
+      return
+    }
+
+    const { included, excluded } = getAllocationJurisdictions(jurisdictions, activeMetric, source)
+    const options = { total, metric: activeMetric, minimum, cap, rounding }
+    const problem = checkAllocation(included, options)
+    setError(problem)
+    setReport(
+      problem
+        ? null
+        : { allocation: allocateByPopulation(included, options), excluded: excluded.map((j) => j.name) }
+    )
+  }
+
+  const handleExport = (format: ExportFormat) => {
+    if (!report) return
+    const populationLabel = getMetricDefinition(report.allocation.options.metric)?.shortLabel || 'Population'
+    exportTable(allocationToExportTable(report.allocation, populationLabel), format, 'population-allocation').catch(
+      (err) => {
+        console.error('Error exporting allocation:', err)
+      }
+    )
+  }
+
+  if (jurisdictions.length === 0) {
+    return (
+      <p className="usa-hint" style={{ margin: 0 }}>
+        Add the jurisdictions to share the amount between to the basket first.
+      </p>
+    )
+  }
+
+  const allocation = report?.allocation
+  const atMinimum = allocation?.rows.filter((row) => row.limit === 'minimum').length || 0
+  const atCap = allocation?.rows.filter((row) => row.limit === 'cap').length || 0
+
+  return (
+    <div>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        Split a fixed amount between the jurisdictions in the basket in proportion to their population in{' '}
+        {vintageLabel}. Each receives the same amount per resident, raised to the minimum or lowered to the cap where
+        set, with the difference shared among the others. A city and the county it lies in are both counted.
+      </p>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0 1.5rem' }}>
+        <FormGroup>
+          <Label htmlFor="allocation-total">Total amount</Label>
+          <TextInput
+            id="allocation-total"
+            name="allocation-total"
+            type="text"
+            inputMode="decimal"
+            value={totalText}
+            onChange={(e) => setTotalText(e.target.value)}
+          />
+        </FormGroup>
+        <FormGroup>
+          <Label htmlFor="allocation-metric">Population</Label>
+          <Select
+            id="allocation-metric"
+            name="allocation-metric"
+            value={activeMetric}
+            onChange={(e) => setMetric(e.target.value)}
+          >
+            {populationOptions.map((def) => (
+              <option key={def.id} value={def.id}>
+                {def.label}
+              </option>
+            ))}
+          </Select>
+        </FormGroup>
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0 1.5rem' }}>
+        <FormGroup>
+          <Label htmlFor="allocation-minimum">Minimum per jurisdiction (optional)</Label>
+          <TextInput
+            id="allocation-minimum"
+            name="allocation-minimum"
+            type="text"
+            inputMode="decimal"
+            value={minimumText}
+            onChange={(e) => setMinimumText(e.target.value)}
+          />
+        </FormGroup>
+        <FormGroup>
+          <Label htmlFor="allocation-cap">Cap per jurisdiction (optional)</Label>
+          <TextInput
+            id="allocation-cap"
+            name="allocation-cap"
+            type="text"
+            inputMode="decimal"
+            value={capText}
+            onChange={(e) => setCapText(e.target.value)}
+          />
+        </FormGroup>
+        <FormGroup>
+          <Label htmlFor="allocation-rounding">Round amounts</Label>
+          <Select
+            id="allocation-rounding"
+            name="allocation-rounding"
+            value={rounding}
+            onChange={(e) => setRounding(e.target.value as AllocationRounding)}
+          >
+            {ROUNDING_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </Select>
+        </FormGroup>
+      </div>
+
+      <div style={{ marginTop: '1.5rem' }}>
+        <Button type="button" onClick={handleAllocate} disabled={totalText.trim() === '' || !activeMetric}>
+          Allocate between {formatNumber(jurisdictions.length)} jurisdiction{jurisdictions.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert type="error" headingLevel="h4" slim style={{ marginTop: '1rem' }}>
+          {error}
+        </Alert>
+      )}
+
+      {report && allocation && (
+        <div style={{ marginTop: '1.5rem' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', flexWrap: 'wrap', gap: '0.75rem' }}>
+            <h4 style={{ margin: 0 }}>
+              {formatAmount(allocation.options.total)} by {getMetricLabel(allocation.options.metric)}
+            </h4>
+            <ButtonGroup type="default">
+              <Button type="button" outline onClick={() => handleExport('csv')}>
+                Download CSV
+              </Button>
+              <Button type="button" outline onClick={() => handleExport('xlsx')}>
+                Download Excel
+              </Button>
+              <Button type="button" outline onClick={() => handleExport('json')}>
+                Download JSON
+              </Button>
+            </ButtonGroup>
+          </div>
+          <p style={{ fontSize: '0.94rem' }}>
+            {atMinimum + atCap < allocation.rows.length
+              ? `Jurisdictions held at neither limit receive ${formatNumber(allocation.ratePerResident, 4)} per resident. `
+              : ''}
+            {atMinimum > 0 && `${formatNumber(atMinimum)} raised to the minimum. `}
+            {atCap > 0 && `${formatNumber(atCap)} lowered to the cap. `}
+            Each amount is rounded down, and the units left over go one each to the largest remainders, so the
+            allocations add up to the total exactly.
+          </p>
+          {report.excluded.length > 0 && (
+            <Alert type="warning" headingLevel="h4" slim>
+              Left out, with no {getMetricLabel(allocation.options.metric).toLowerCase()} in {vintageLabel}:{' '}
+              {report.excluded.join('; ')}
+            </Alert>
+          )}
+
+          <div style={{ overflowX: 'auto', maxHeight: '32rem', overflowY: 'auto' }}>
+            <Table bordered compact fullWidth>
+              <thead>
+                <tr>
+                  <th scope="col">Jurisdiction</th>
+                  <th scope="col" style={{ textAlign: 'right' }}>Population</th>
+                  <th scope="col" style={{ textAlign: 'right' }}>Share of population</th>
+                  <th scope="col" style={{ textAlign: 'right' }}>Proportional share</th>
+                  <th scope="col">Minimum or cap</th>
+                  <th scope="col" style={{ textAlign: 'right' }}>Before rounding</th>
+                  <th scope="col" style={{ textAlign: 'right' }}>Rounding</th>
+                  <th scope="col" style={{ textAlign: 'right' }}>Allocation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {allocation.rows.map((row) => (
+                  <tr key={`${row.type}-${row.code}`}>
+                    <td>
+                      <strong>{row.name}</strong>
+                      <div className="usa-hint" style={{ fontSize: '0.88rem' }}>
+                        {getTypeLabel(row.type)}, {row.stateName}
+                      </div>
+                    </td>
+                    <td style={{ textAlign: 'right' }}>{formatNumber(row.population)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatNumber(row.populationShare * 100, 2)}%</td>
+                    <td style={{ textAlign: 'right' }}>{formatAmount(row.proportional)}</td>
+                    <td style={{ fontSize: '0.94rem' }}>{getLimitLabel(row.limit)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatAmount(row.beforeRounding)}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      {row.roundingAdjustment > 0 ? '+' : ''}
+                      {formatAmount(row.roundingAdjustment)}
+                    </td>
+                    <td style={{ textAlign: 'right', fontWeight: 600 }}>{formatAmount(row.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tbody style={{ borderTop: '3px solid #1b1b1b' }}>
+                <tr style={{ backgroundColor: '#f0f0f0' }}>
+                  <th scope="row">Total</th>
+                  <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatNumber(allocation.totalPopulation)}</td>
+                  <td style={{ textAlign: 'right', fontWeight: 700 }}>100.00%</td>
+                  <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatAmount(allocation.options.total)}</td>
+                  <td />
+                  <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatAmount(allocation.options.total)}</td>
+                  <td style={{ textAlign: 'right', fontWeight: 700 }}>0.00</td>
+                  <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatAmount(allocation.options.total)}</td>
+                </tr>
+              </tbody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AllocationPanel
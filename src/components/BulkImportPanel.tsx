@@ -0,0 +1,253 @@
+import { useState } from 'react'
+import {
+  Alert,
+  Button,
+  Fieldset,
+  FileInput,
+  FormGroup,
+  Label,
+  Radio,
+  Table,
+  Textarea,
+} from '@trussworks/react-uswds'
+import { parseImportText, resolveImportRows } from '../bulkImport'
+import type { ImportContext, ImportLineResult } from '../bulkImport'
+import { getLatestPopulationMetric } from '../metrics'
+import type { MetricGroup } from '../metrics'
+import type { NameMatchType } from '../nameMatching'
+import type { JurisdictionCandidate, MetricType } from '../types'
+import { getTypeLabel } from '../utils'
+import MetricCheckboxes from './MetricCheckboxes'
+
+interface BulkImportPanelProps {
+  context: ImportContext
+  metricGroups: MetricGroup[]
+  // Adds the jurisdictions with each metric; returns how many new selections were added
+  onAddSelections: (matches: JurisdictionCandidate[], metrics: MetricType[]) => number
+}
+
+interface ImportReport {
+  results: ImportLineResult[]
+  added: number
+}
+
+const MATCH_TYPE_OPTIONS: { value: NameMatchType; label: string }[] = [
+  { value: 'any', label: 'Cities/places and counties' },
+  { value: 'place', label: 'Cities/places only' },
+  { value: 'county', label: 'Counties only' },
+  { value: 'cousub', label: 'County subdivisions (towns, townships) only' },
+]
+
+function BulkImportPanel({ context, metricGroups, onAddSelections }: BulkImportPanelProps) {
+  const [text, setText] = useState('')
+  const [matchType, setMatchType] = useState<NameMatchType>('any')
+  // null until the user changes them: the latest population estimate
+  const [chosenMetrics, setMetrics] = useState<MetricType[] | null>(null)
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  const defaultMetric = getLatestPopulationMetric(metricGroups.flatMap((group) => group.metrics))
+  const metrics = chosenMetrics ?? (defaultMetric ? [defaultMetric] : [])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    try {
+      setText(await file.text())
+      setFileError(null)
+    } catch (err) {
+      console.error('Error reading import file:', err)
+      setFileError(`Could not read ${file.name}.`)
+    }
+  }
+
+  const handleImport = () => {
+    const results = resolveImportRows(parseImportText(text), context, matchType)
+    const matches = results.flatMap((result) => (result.status === 'matched' ? [result.match] : []))
+    const added = onAddSelections(matches, metrics)
+    setReport({ results, added })
+  }
+
+  // Resolve an ambiguous line by picking one of its candidates
+  const handlePickCandidate = (line: number, candidate: JurisdictionCandidate) => {
+    if (!report) return
+    const added = onAddSelections([candidate], metrics)
+    setReport({
+      added: report.added + added,
+      results: report.results.map((result) =>
+        result.line === line
+          ? {
+              status: 'matched',
+              line,
+              input: result.input,
+              match: candidate,
+              note: result.status === 'ambiguous' ? result.note : undefined,
+            }
+          : result
+      ),
+    })
+  }
+
+  const matched = report?.results.filter((r) => r.status === 'matched') || []
+  const notes = matched.filter((r) => r.status === 'matched' && r.note)
+  const ambiguous = report?.results.filter((r) => r.status === 'ambiguous') || []
+  const unmatched = report?.results.filter((r) => r.status === 'unmatched') || []
+  const canImport = text.trim() !== '' && metrics.length > 0
+
+  return (
+    <div>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        Paste one jurisdiction per line, or upload a CSV. Each line can be a 5-digit county FIPS code, a 7-digit place
+        GEOID, or a &quot;Name, State&quot; pair such as <em>Travis County, TX</em>.
+      </p>
+
+      <FormGroup>
+        <Label htmlFor="bulk-import-text">Jurisdiction list</Label>
+        <Textarea
+          id="bulk-import-text"
+          name="bulk-import-text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          style={{ maxWidth: 'none', fontFamily: 'monospace' }}
+        />
+      </FormGroup>
+
+      <FormGroup>
+        <Label htmlFor="bulk-import-file">Or upload a CSV file</Label>
+        <FileInput id="bulk-import-file" name="bulk-import-file" accept=".csv,.txt" onChange={handleFileChange} />
+        {fileError && (
+          <div className="usa-error-message" role="alert">
+            {fileError}
+          </div>
+        )}
+      </FormGroup>
+
+      <Fieldset legend="Match names against" style={{ marginTop: '1.5rem' }}>
+        {MATCH_TYPE_OPTIONS.map((opt) => (
+          <Radio
+            key={opt.value}
+            id={`bulk-import-match-${opt.value}`}
+            name="bulk-import-match"
+            label={opt.label}
+            value={opt.value}
+            checked={matchType === opt.value}
+            onChange={() => setMatchType(opt.value)}
+          />
+        ))}
+      </Fieldset>
+
+      <MetricCheckboxes idPrefix="bulk-import" metricGroups={metricGroups} selected={metrics} onChange={setMetrics} />
+
+      <div style={{ marginTop: '1.5rem' }}>
+        <Button type="button" onClick={handleImport} disabled={!canImport}>
+          Import list
+        </Button>
+      </div>
+
+      {report && (
+        <div style={{ marginTop: '1.5rem' }}>
+          <Alert
+            type={ambiguous.length > 0 || unmatched.length > 0 ? 'warning' : 'success'}
+            headingLevel="h4"
+            heading="Import report"
+            slim
+          >
+            {matched.length} line{matched.length === 1 ? '' : 's'} matched ({report.added} new selection
+            {report.added === 1 ? '' : 's'} added), {ambiguous.length} ambiguous, {unmatched.length} unmatched.
+          </Alert>
+
+          {notes.length > 0 && (
+            <ul className="usa-list" style={{ fontSize: '0.94rem' }}>
+              {notes.map((result) =>
+                result.status === 'matched' ? (
+                  <li key={result.line}>
+                    Line {result.line} ({result.input}): {result.note}
+                  </li>
+                ) : null
+              )}
+            </ul>
+          )}
+
+          {ambiguous.length > 0 && (
+            <>
+              <h4>Ambiguous lines</h4>
+              <Table bordered fullWidth>
+                <thead>
+                  <tr>
+                    <th scope="col">Line</th>
+                    <th scope="col">Input</th>
+                    <th scope="col">Possible matches</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ambiguous.map((result) =>
+                    result.status === 'ambiguous' ? (
+                      <tr key={result.line}>
+                        <td>{result.line}</td>
+                        <td>
+                          {result.input}
+                          {result.note && (
+                            <div className="usa-hint" style={{ fontSize: '0.88rem', marginTop: '0.25rem' }}>
+                              {result.note}
+                            </div>
+                          )}
+                        </td>
+                        <td>
+                          <ul className="usa-list usa-list--unstyled">
+                            {result.candidates.map((candidate) => (
+                              <li key={`${candidate.type}-${candidate.code}`} style={{ marginBottom: '0.25rem' }}>
+                                <Button
+                                  type="button"
+                                  unstyled
+                                  onClick={() => handlePickCandidate(result.line, candidate)}
+                                  style={{ color: '#005ea2', textDecoration: 'underline', fontSize: '0.94rem' }}
+                                >
+                                  Add {candidate.name}
+                                </Button>{' '}
+                                <span style={{ color: '#71767a', fontSize: '0.88rem' }}>
+                                  ({getTypeLabel(candidate.type)}, {candidate.stateName}, {candidate.code})
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    ) : null
+                  )}
+                </tbody>
+              </Table>
+            </>
+          )}
+
+          {unmatched.length > 0 && (
+            <>
+              <h4>Unmatched lines</h4>
+              <Table bordered fullWidth>
+                <thead>
+                  <tr>
+                    <th scope="col">Line</th>
+                    <th scope="col">Input</th>
+                    <th scope="col">Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {unmatched.map((result) =>
+                    result.status === 'unmatched' ? (
+                      <tr key={result.line}>
+                        <td>{result.line}</td>
+                        <td>{result.input}</td>
+                        <td>{result.reason}</td>
+                      </tr>
+                    ) : null
+                  )}
+                </tbody>
+              </Table>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BulkImportPanel
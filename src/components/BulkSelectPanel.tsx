@@ -0,0 +1,251 @@
+import { useMemo, useState } from 'react'
+import { Alert, Button, Fieldset, FormGroup, Label, Radio, Select, TextInput } from '@trussworks/react-uswds'
+import { findBulkMatches } from '../bulkSelect'
+import type { BulkFilter } from '../bulkSelect'
+import { getAvailableMetrics, getLatestPopulationMetric } from '../metrics'
+import type { MetricGroup } from '../metrics'
+import type { JurisdictionLookups } from '../selections'
+import type { JurisdictionCandidate, JurisdictionType, MetricType, StateOption } from '../types'
+import { formatNumber } from '../utils'
+import MetricCheckboxes from './MetricCheckboxes'
+
+interface BulkSelectPanelProps {
+  lookups: JurisdictionLookups
+  states: StateOption[]
+  columnsByType: Record<JurisdictionType, Set<string>>
+  metricGroups: MetricGroup[]
+  // Adds the jurisdictions with each metric; returns how many new selections were added
+  onAddSelections: (matches: JurisdictionCandidate[], metrics: MetricType[]) => number
+}
+
+const TYPE_OPTIONS: { value: BulkFilter['type']; label: string }[] = [
+  { value: 'county', label: 'Counties' },
+  { value: 'place', label: 'Cities/places' },
+  { value: 'cousub', label: 'County subdivisions (towns, townships)' },
+]
+
+// How many matches the preview lists by name
+const PREVIEW_LIMIT = 10
+
+/**
+ * Reads an optional whole-number field. Empty → null; anything that isn't a
+ * non-negative number → undefined so the field can be flagged.
+ */
+function parseCount(text: string): number | null | undefined {
+  const trimmed = text.trim().replace(/,/g, '')
+  if (!trimmed) return null
+  const value = Number(trimmed)
+  return Number.isFinite(value) && value >= 0 ? value : undefined
+}
+
+function BulkSelectPanel({ lookups, states, columnsByType, metricGroups, onAddSelections }: BulkSelectPanelProps) {
+  const [type, setType] = useState<BulkFilter['type']>('county')
+  const [stateFips, setStateFips] = useState('')
+  // '' until the user picks one: the latest estimate of the chosen file
+  const [chosenPopulationMetric, setPopulationMetric] = useState<MetricType>('')
+  const [minText, setMinText] = useState('')
+  const [maxText, setMaxText] = useState('')
+  const [namePattern, setNamePattern] = useState('')
+  const [topNText, setTopNText] = useState('')
+  // null until the user changes them: the latest population estimate
+  const [chosenMetrics, setMetrics] = useState<MetricType[] | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+
+  // Thresholds and ranking use any population estimate the chosen file carries
+  const populationOptions = useMemo(
+    () => getAvailableMetrics(columnsByType[type]).filter((def) => def.category === 'population'),
+    [columnsByType, type]
+  )
+  // Kept valid for the chosen file
+  const populationMetric = populationOptions.some((def) => def.id === chosenPopulationMetric)
+    ? chosenPopulationMetric
+    : getLatestPopulationMetric(populationOptions)
+  const defaultMetric = getLatestPopulationMetric(metricGroups.flatMap((group) => group.metrics))
+  const metrics = chosenMetrics ?? (defaultMetric ? [defaultMetric] : [])
+
+  const minPopulation = parseCount(minText)
+  const maxPopulation = parseCount(maxText)
+  const topN = parseCount(topNText)
+  const isValid = minPopulation !== undefined && maxPopulation !== undefined && topN !== undefined && topN !== 0
+
+  const matches = useMemo(() => {
+    if (!isValid) return []
+    return findBulkMatches(lookups, {
+      type,
+      stateFips: stateFips || null,
+      populationMetric,
+      minPopulation,
+      maxPopulation,
+      namePattern,
+      topN: topN === null ? null : Math.floor(topN),
+    })
+  }, [lookups, type, stateFips, populationMetric, minPopulation, maxPopulation, namePattern, topN, isValid])
+
+  const populationLabel = populationOptions.find((def) => def.id === populationMetric)?.shortLabel || 'Population'
+
+  const handleTypeChange = (newType: BulkFilter['type']) => {
+    setType(newType)
+    setStatus(null)
+  }
+
+  const handleAdd = () => {
+    const added = onAddSelections(matches, metrics)
+    setStatus(
+      `Added ${formatNumber(added)} new selection${added === 1 ? '' : 's'} for ${formatNumber(matches.length)} jurisdiction${matches.length === 1 ? '' : 's'}.`
+    )
+  }
+
+  return (
+    <div>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        Add every county, city/place or county subdivision that meets a set of conditions, such as all counties in
+        Texas or all places in Ohio over 50,000 people. Leave a field empty to skip that condition.
+      </p>
+
+      <Fieldset legend="Jurisdiction type" style={{ marginTop: '1rem' }}>
+        {TYPE_OPTIONS.map((opt) => (
+          <Radio
+            key={opt.value}
+            id={`bulk-select-type-${opt.value}`}
+            name="bulk-select-type"
+            label={opt.label}
+            value={opt.value}
+            checked={type === opt.value}
+            onChange={() => handleTypeChange(opt.value)}
+          />
+        ))}
+      </Fieldset>
+
+      <FormGroup>
+        <Label htmlFor="bulk-select-state">State</Label>
+        <Select id="bulk-select-state" name="bulk-select-state" value={stateFips} onChange={(e) => setStateFips(e.target.value)}>
+          <option value="">All states</option>
+          {states.map((state) => (
+            <option key={state.fips} value={state.fips}>
+              {state.name}
+            </option>
+          ))}
+        </Select>
+      </FormGroup>
+
+      <FormGroup>
+        <Label htmlFor="bulk-select-name">Name contains</Label>
+        <span className="usa-hint" id="bulk-select-name-hint">
+          Use * as a wildcard, e.g. <em>san *</em> or <em>*ville</em>.
+        </span>
+        <TextInput
+          id="bulk-select-name"
+          name="bulk-select-name"
+          type="text"
+          value={namePattern}
+          onChange={(e) => setNamePattern(e.target.value)}
+          aria-describedby="bulk-select-name-hint"
+        />
+      </FormGroup>
+
+      <FormGroup>
+        <Label htmlFor="bulk-select-population-metric">Population measure</Label>
+        <Select
+          id="bulk-select-population-metric"
+          name="bulk-select-population-metric"
+          value={populationMetric}
+          onChange={(e) => setPopulationMetric(e.target.value)}
+        >
+          {populationOptions.map((def) => (
+            <option key={def.id} value={def.id}>
+              {def.label}
+            </option>
+          ))}
+        </Select>
+      </FormGroup>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1.5rem' }}>
+        <FormGroup error={minPopulation === undefined}>
+          <Label htmlFor="bulk-select-min">At least</Label>
+          <TextInput
+            id="bulk-select-min"
+            name="bulk-select-min"
+            type="text"
+            inputMode="numeric"
+            value={minText}
+            onChange={(e) => setMinText(e.target.value)}
+            validationStatus={minPopulation === undefined ? 'error' : undefined}
+            placeholder="e.g. 50,000"
+          />
+        </FormGroup>
+        <FormGroup error={maxPopulation === undefined}>
+          <Label htmlFor="bulk-select-max">At most</Label>
+          <TextInput
+            id="bulk-select-max"
+            name="bulk-select-max"
+            type="text"
+            inputMode="numeric"
+            value={maxText}
+            onChange={(e) => setMaxText(e.target.value)}
+            validationStatus={maxPopulation === undefined ? 'error' : undefined}
+          />
+        </FormGroup>
+        <FormGroup error={topN === undefined || topN === 0}>
+          <Label htmlFor="bulk-select-top">Only the largest</Label>
+          <TextInput
+            id="bulk-select-top"
+            name="bulk-select-top"
+            type="text"
+            inputMode="numeric"
+            value={topNText}
+            onChange={(e) => setTopNText(e.target.value)}
+            validationStatus={topN === undefined || topN === 0 ? 'error' : undefined}
+            placeholder="e.g. 10"
+          />
+        </FormGroup>
+      </div>
+      {!isValid && (
+        <div className="usa-error-message" role="alert">
+          Population limits must be non-negative numbers, and &quot;Only the largest&quot; must be at least 1.
+        </div>
+      )}
+
+      <MetricCheckboxes idPrefix="bulk-select" metricGroups={metricGroups} selected={metrics} onChange={setMetrics} />
+
+      {/* Preview */}
+      <div aria-live="polite" style={{ marginTop: '1.5rem' }}>
+        <p style={{ fontWeight: 600, marginBottom: '0.5rem' }}>
+          {formatNumber(matches.length)} jurisdiction{matches.length === 1 ? '' : 's'} match
+          {matches.length === 1 ? 'es' : ''}
+          {matches.length > 1 && (
+            <span style={{ fontWeight: 400, color: '#71767a' }}> (largest first by {populationLabel})</span>
+          )}
+        </p>
+        {matches.length > 0 && (
+          <ul className="usa-list" style={{ fontSize: '0.94rem', marginTop: 0 }}>
+            {matches.slice(0, PREVIEW_LIMIT).map((match) => (
+              <li key={match.code}>
+                {match.name}, {match.stateName}{' '}
+                <span style={{ color: '#71767a' }}>
+                  ({match.population === null ? 'no estimate' : formatNumber(match.population)})
+                </span>
+              </li>
+            ))}
+            {matches.length > PREVIEW_LIMIT && <li>…and {formatNumber(matches.length - PREVIEW_LIMIT)} more</li>}
+          </ul>
+        )}
+      </div>
+
+      <div style={{ marginTop: '1rem' }}>
+        <Button type="button" onClick={handleAdd} disabled={matches.length === 0 || metrics.length === 0}>
+          Add {formatNumber(matches.length)} jurisdiction{matches.length === 1 ? '' : 's'} to basket
+        </Button>
+      </div>
+
+      {status && (
+        <div style={{ marginTop: '1rem' }}>
+          <Alert type="success" headingLevel="h4" slim>
+            {status}
+          </Alert>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BulkSelectPanel
@@ -0,0 +1,479 @@
+import { useMemo, useRef, useState } from 'react'
+import { Alert, Button, ButtonGroup, FormGroup, Label, Radio, Select } from '@trussworks/react-uswds'
+import {
+  COMPONENT_PARTS,
+  buildComponents,
+  buildRanking,
+  buildTimeSeries,
+  formatTick,
+  getChartColor,
+  getChartJurisdictions,
+  getComponentYears,
+  niceTicks,
+} from '../charts'
+import type { BarDatum, ComponentBar, TimeSeriesData } from '../charts'
+import { exportChart } from '../export'
+import type { ImageFormat } from '../export'
+import { formatMetricValue, getAvailableMetrics, getMetricLabel, groupMetricsByCategory } from '../metrics'
+import type { VintageSource } from '../selections'
+import type { MetricType, Selection } from '../types'
+import { formatNumber } from '../utils'
+import { getVintageLabel } from '../vintages'
+import type { VintageManifest } from '../vintages'
+
+interface ChartsPanelProps {
+  // Vintages loaded so far, by id
+  datasets: Record<string, VintageSource>
+  basketSelections: Selection[]
+  // Names the vintage of each line or bar when the basket mixes vintages
+  manifest: VintageManifest | null
+}
+
+type ChartKind = 'timeSeries' | 'ranking' | 'components'
+
+interface ChartProps {
+  svgRef: React.RefObject<SVGSVGElement | null>
+}
+
+const CHART_KINDS: { value: ChartKind; label: string }[] = [
+  { value: 'timeSeries', label: 'Population over time' },
+  { value: 'ranking', label: 'Ranking' },
+  { value: 'components', label: 'Components of change' },
+]
+
+// ========================================================
+// LAYOUT
+// ========================================================
+
+const CHART_WIDTH = 900
+const FONT_FAMILY = 'Source Sans Pro Web, Helvetica Neue, Helvetica, Arial, sans-serif'
+// USWDS ink, base and base-lighter
+const INK = '#1b1b1b'
+const MUTED = '#71767a'
+const GRID = '#dfe1e2'
+
+// Lines beyond this many make the chart unreadable; the largest are kept
+const SERIES_LIMIT = 12
+const BAR_LIMIT = 50
+const BAR_ROW_HEIGHT = 24
+const BAR_LABEL_WIDTH = 250
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+// Maps a value in [ticks[0], last tick] onto [start, end]
+function scale(ticks: number[], start: number, end: number): (value: number) => number {
+  const min = ticks[0]
+  const max = ticks[ticks.length - 1]
+  return (value) => start + ((value - min) / (max - min || 1)) * (end - start)
+}
+
+// White background so exported images don't come out transparent
+function ChartSvg({ height, svgRef, children }: ChartProps & { height: number; children: React.ReactNode }) {
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+      fontFamily={FONT_FAMILY}
+      style={{ width: '100%', height: 'auto' }}
+    >
+      <rect width={CHART_WIDTH} height={height} fill="#ffffff" />
+      {children}
+    </svg>
+  )
+}
+
+function ChartTitle({ text }: { text: string }) {
+  return (
+    <text x={0} y={18} fontSize={16} fontWeight={700} fill={INK}>
+      {text}
+    </text>
+  )
+}
+
+// ========================================================
+// CHARTS
+// ========================================================
+
+function LineChart({ data, svgRef }: ChartProps & { data: TimeSeriesData }) {
+  const height = 400
+  const plot = { left: 70, right: CHART_WIDTH - 250, top: 40, bottom: height - 40 }
+  const values = data.series.flatMap((series) => series.values.filter((value): value is number => value !== null))
+  const ticks = niceTicks(Math.min(...values), Math.max(...values))
+  const y = scale(ticks, plot.bottom, plot.top)
+  const step = data.years.length > 1 ? (plot.right - plot.left) / (data.years.length - 1) : 0
+  const x = (index: number) => (data.years.length > 1 ? plot.left + index * step : (plot.left + plot.right) / 2)
+
+  return (
+    <ChartSvg height={height} svgRef={svgRef}>
+      <ChartTitle text="Population estimates (July 1)" />
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={plot.left} x2={plot.right} y1={y(tick)} y2={y(tick)} stroke={GRID} />
+          <text x={plot.left - 8} y={y(tick) + 4} fontSize={12} textAnchor="end" fill={MUTED}>
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+      {data.years.map((year, i) => (
+        <text key={year} x={x(i)} y={plot.bottom + 20} fontSize={12} textAnchor="middle" fill={MUTED}>
+          {year}
+        </text>
+      ))}
+      {data.series.map((series, seriesIndex) => {
+        const color = getChartColor(seriesIndex)
+        // Break the line where a year is missing
+        const path = series.values
+          .map((value, i) =>
+            value === null ? '' : `${i > 0 && series.values[i - 1] !== null ? 'L' : 'M'}${x(i)},${y(value)}`
+          )
+          .join('')
+        return (
+          <g key={series.key}>
+            <path d={path} fill="none" stroke={color} strokeWidth={2} />
+            {series.values.map((value, i) =>
+              value === null ? null : (
+                <circle key={i} cx={x(i)} cy={y(value)} r={3.5} fill={color}>
+                  <title>{`${series.label}, ${data.years[i]}: ${formatNumber(value)}`}</title>
+                </circle>
+              )
+            )}
+          </g>
+        )
+      })}
+      {data.series.map((series, i) => (
+        <g key={series.key} transform={`translate(${plot.right + 20}, ${plot.top + i * 20})`}>
+          <line x1={0} x2={18} y1={0} y2={0} stroke={getChartColor(i)} strokeWidth={3} />
+          <text x={26} y={4} fontSize={12} fill={INK}>
+            {truncate(series.label, 32)}
+          </text>
+        </g>
+      ))}
+    </ChartSvg>
+  )
+}
+
+function BarChart({ data, metric, svgRef }: ChartProps & { data: BarDatum[]; metric: MetricType }) {
+  const top = 40
+  const height = top + data.length * BAR_ROW_HEIGHT + 30
+  const plot = { left: BAR_LABEL_WIDTH, right: CHART_WIDTH - 100 }
+  const ticks = niceTicks(Math.min(0, ...data.map((d) => d.value)), Math.max(0, ...data.map((d) => d.value)))
+  const x = scale(ticks, plot.left, plot.right)
+  const axisY = top + data.length * BAR_ROW_HEIGHT
+
+  return (
+    <ChartSvg height={height} svgRef={svgRef}>
+      <ChartTitle text={getMetricLabel(metric)} />
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={x(tick)} x2={x(tick)} y1={top} y2={axisY} stroke={tick === 0 ? MUTED : GRID} />
+          <text x={x(tick)} y={axisY + 18} fontSize={12} textAnchor="middle" fill={MUTED}>
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+      {data.map((datum, i) => {
+        const rowY = top + i * BAR_ROW_HEIGHT
+        const start = x(Math.min(0, datum.value))
+        const end = x(Math.max(0, datum.value))
+        return (
+          <g key={datum.key}>
+            <text x={plot.left - 8} y={rowY + 16} fontSize={12} textAnchor="end" fill={INK}>
+              {truncate(datum.label, 38)}
+            </text>
+            <rect
+              x={start}
+              y={rowY + 4}
+              width={Math.max(end - start, 1)}
+              height={BAR_ROW_HEIGHT - 8}
+              fill={getChartColor(0)}
+            >
+              <title>{`${datum.label}: ${formatMetricValue(metric, datum.value)}`}</title>
+            </rect>
+            <text x={Math.max(end, x(0)) + 6} y={rowY + 16} fontSize={12} fill={MUTED}>
+              {formatMetricValue(metric, datum.value)}
+            </text>
+          </g>
+        )
+      })}
+    </ChartSvg>
+  )
+}
+
+function StackedBarChart({
+  bars,
+  year,
+  asRate,
+  svgRef,
+}: ChartProps & { bars: ComponentBar[]; year: number; asRate: boolean }) {
+  const top = 70
+  const height = top + bars.length * BAR_ROW_HEIGHT + 30
+  const plot = { left: BAR_LABEL_WIDTH, right: CHART_WIDTH - 30 }
+  const sums = bars.map((bar) => {
+    const parts = Object.values(bar.values).filter((value): value is number => value !== null)
+    return {
+      negative: parts.filter((value) => value < 0).reduce((total, value) => total + value, 0),
+      positive: parts.filter((value) => value > 0).reduce((total, value) => total + value, 0),
+    }
+  })
+  const ticks = niceTicks(Math.min(0, ...sums.map((s) => s.negative)), Math.max(0, ...sums.map((s) => s.positive)))
+  const x = scale(ticks, plot.left, plot.right)
+  const axisY = top + bars.length * BAR_ROW_HEIGHT
+  const unit = asRate ? 'per 1,000 residents' : 'people'
+  const format = (value: number) => (asRate ? formatNumber(value, 2) : formatNumber(value))
+
+  return (
+    <ChartSvg height={height} svgRef={svgRef}>
+      <ChartTitle text={`Components of change, ${year} (${unit})`} />
+      {COMPONENT_PARTS.map((part, i) => (
+        <g key={part.id} transform={`translate(${i * 220}, 40)`}>
+          <rect width={14} height={14} fill={getChartColor(i)} />
+          <text x={20} y={12} fontSize={12} fill={INK}>
+            {part.label}
+          </text>
+        </g>
+      ))}
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={x(tick)} x2={x(tick)} y1={top} y2={axisY} stroke={tick === 0 ? MUTED : GRID} />
+          <text x={x(tick)} y={axisY + 18} fontSize={12} textAnchor="middle" fill={MUTED}>
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+      {bars.map((bar, barIndex) => {
+        const rowY = top + barIndex * BAR_ROW_HEIGHT
+        // Positive parts stack right from zero, negative parts left
+        let positive = 0
+        let negative = 0
+        return (
+          <g key={bar.key}>
+            <text x={plot.left - 8} y={rowY + 16} fontSize={12} textAnchor="end" fill={INK}>
+              {truncate(bar.label, 38)}
+            </text>
+            {COMPONENT_PARTS.map((part, i) => {
+              const value = bar.values[part.id]
+              if (value === null || value === 0) return null
+              const from = value > 0 ? positive : negative + value
+              if (value > 0) positive += value
+              else negative += value
+              return (
+                <rect
+                  key={part.id}
+                  x={x(from)}
+                  y={rowY + 4}
+                  width={Math.max(x(from + Math.abs(value)) - x(from), 1)}
+                  height={BAR_ROW_HEIGHT - 8}
+                  fill={getChartColor(i)}
+                >
+                  <title>{`${bar.label}, ${part.label}: ${format(value)}`}</title>
+                </rect>
+              )
+            })}
+          </g>
+        )
+      })}
+    </ChartSvg>
+  )
+}
+
+// ========================================================
+// PANEL
+// ========================================================
+
+function ChartsPanel({ datasets, basketSelections, manifest }: ChartsPanelProps) {
+  const [kind, setKind] = useState<ChartKind>('timeSeries')
+  const [rankingMetric, setRankingMetric] = useState<MetricType | ''>('')
+  const [componentYear, setComponentYear] = useState<number | null>(null)
+  const [asRate, setAsRate] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const svgRef = useRef<SVGSVGElement | null>(null)
+
+  const jurisdictions = useMemo(
+    () => getChartJurisdictions(basketSelections, (id) => (manifest ? getVintageLabel(manifest, id) : id)),
+    [basketSelections, manifest]
+  )
+
+  const timeSeries = useMemo(() => {
+    const data = buildTimeSeries(datasets, jurisdictions)
+    // Keep the largest, by their latest value
+    const latest = (values: (number | null)[]) => values.filter((value) => value !== null).at(-1) ?? 0
+    const series = [...data.series].sort((a, b) => latest(b.values) - latest(a.values)).slice(0, SERIES_LIMIT)
+    return { data: { ...data, series }, total: data.series.length }
+  }, [datasets, jurisdictions])
+
+  // Metrics any basket jurisdiction's file can answer
+  const rankingGroups = useMemo(() => {
+    const columns = new Set(
+      jurisdictions.flatMap((j) => Array.from(datasets[j.vintage]?.columnsByType[j.type] || []))
+    )
+    return groupMetricsByCategory(getAvailableMetrics(columns).filter((def) => def.kind !== 'code'))
+  }, [datasets, jurisdictions])
+  const rankingOptions = rankingGroups.flatMap((group) => group.metrics.map((def) => def.id))
+  // Defaults to the first numeric metric in the basket
+  const activeRankingMetric =
+    rankingMetric && rankingOptions.includes(rankingMetric)
+      ? rankingMetric
+      : basketSelections.find((sel) => rankingOptions.includes(sel.metric))?.metric || rankingOptions[0]
+  const ranking = useMemo(
+    () => (activeRankingMetric ? buildRanking(datasets, jurisdictions, activeRankingMetric) : []),
+    [datasets, jurisdictions, activeRankingMetric]
+  )
+
+  const componentYears = useMemo(
+    () => getComponentYears(datasets, jurisdictions, asRate),
+    [datasets, jurisdictions, asRate]
+  )
+  const activeYear =
+    componentYear !== null && componentYears.includes(componentYear) ? componentYear : componentYears.at(-1)
+  const components = useMemo(
+    () => (activeYear ? buildComponents(datasets, jurisdictions, activeYear, asRate) : []),
+    [datasets, jurisdictions, activeYear, asRate]
+  )
+
+  const handleExport = (format: ImageFormat) => {
+    if (!svgRef.current) return
+    const date = new Date().toISOString().slice(0, 10)
+    const name =
+      kind === 'timeSeries' ? 'population' : kind === 'ranking' ? activeRankingMetric : `components-${activeYear}`
+    setExportError(null)
+    exportChart(svgRef.current, format, `jurisdiction-chart-${name}-${date}`).catch((err) => {
+      console.error('Error exporting chart:', err)
+      setExportError('The chart could not be exported.')
+    })
+  }
+
+  const hasChart =
+    kind === 'timeSeries'
+      ? timeSeries.data.series.length > 0
+      : kind === 'ranking'
+        ? ranking.length > 0
+        : components.length > 0
+
+  return (
+    <div>
+      <ButtonGroup type="segmented">
+        {CHART_KINDS.map((opt) => (
+          <Button key={opt.value} type="button" outline={kind !== opt.value} onClick={() => setKind(opt.value)}>
+            {opt.label}
+          </Button>
+        ))}
+      </ButtonGroup>
+
+      {kind === 'ranking' && (
+        <FormGroup>
+          <Label htmlFor="chart-ranking-metric">Rank by</Label>
+          <Select
+            id="chart-ranking-metric"
+            name="chart-ranking-metric"
+            value={activeRankingMetric || ''}
+            onChange={(e) => setRankingMetric(e.target.value)}
+          >
+            {rankingGroups.map((group) => (
+              <optgroup key={group.category} label={group.label}>
+                {group.metrics.map((def) => (
+                  <option key={def.id} value={def.id}>
+                    {def.label}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </Select>
+        </FormGroup>
+      )}
+
+      {kind === 'components' && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0 2rem', alignItems: 'flex-end' }}>
+          <FormGroup>
+            <Label htmlFor="chart-component-year">Year</Label>
+            <Select
+              id="chart-component-year"
+              name="chart-component-year"
+              value={activeYear ?? ''}
+              onChange={(e) => setComponentYear(Number(e.target.value))}
+              disabled={componentYears.length === 0}
+            >
+              {componentYears.map((year) => (
+                <option key={year} value={year}>
+                  {year}
+                </option>
+              ))}
+            </Select>
+          </FormGroup>
+          <div style={{ display: 'flex', gap: '1.5rem' }}>
+            <Radio
+              id="chart-component-count"
+              name="chart-component-unit"
+              label="People"
+              value="count"
+              checked={!asRate}
+              onChange={() => setAsRate(false)}
+            />
+            <Radio
+              id="chart-component-rate"
+              name="chart-component-unit"
+              label="Per 1,000 residents"
+              value="rate"
+              checked={asRate}
+              onChange={() => setAsRate(true)}
+            />
+          </div>
+        </div>
+      )}
+
+      <div style={{ marginTop: '1.5rem', border: '1px solid #dfe1e2', borderRadius: '0.25rem', padding: '1rem' }}>
+        {!hasChart ? (
+          <p style={{ margin: 0, color: '#71767a' }}>
+            {kind === 'components'
+              ? 'Components of change come from the county file. Add counties, states or the United States to chart them.'
+              : 'None of the jurisdictions in the basket have values for this chart.'}
+          </p>
+        ) : kind === 'timeSeries' ? (
+          <LineChart data={timeSeries.data} svgRef={svgRef} />
+        ) : kind === 'ranking' ? (
+          <BarChart data={ranking.slice(0, BAR_LIMIT)} metric={activeRankingMetric!} svgRef={svgRef} />
+        ) : (
+          <StackedBarChart bars={components.slice(0, BAR_LIMIT)} year={activeYear!} asRate={asRate} svgRef={svgRef} />
+        )}
+      </div>
+
+      {kind === 'timeSeries' && timeSeries.total > SERIES_LIMIT && (
+        <p className="usa-hint">
+          Showing the {SERIES_LIMIT} largest of {formatNumber(timeSeries.total)} jurisdictions.
+        </p>
+      )}
+      {kind === 'ranking' && ranking.length > BAR_LIMIT && (
+        <p className="usa-hint">
+          Showing the top {BAR_LIMIT} of {formatNumber(ranking.length)} jurisdictions.
+        </p>
+      )}
+      {kind === 'components' && hasChart && (
+        <p className="usa-hint">
+          {components.length < jurisdictions.length &&
+            `${formatNumber(jurisdictions.length - components.length)} jurisdictions without components (such as ` +
+              'cities/places) are left out. '}
+          The Census residual is not shown, so the parts don&apos;t always add up to the numeric change.
+        </p>
+      )}
+
+      {hasChart && (
+        <ButtonGroup type="default" style={{ marginTop: '1rem' }}>
+          <Button type="button" outline onClick={() => handleExport('svg')}>
+            Download SVG
+          </Button>
+          <Button type="button" outline onClick={() => handleExport('png')}>
+            Download PNG
+          </Button>
+        </ButtonGroup>
+      )}
+      {exportError && (
+        <Alert type="error" headingLevel="h3" slim>
+          {exportError}
+        </Alert>
+      )}
+    </div>
+  )
+}
+
+export default ChartsPanel
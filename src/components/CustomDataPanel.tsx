@@ -0,0 +1,307 @@
+import { useState } from 'react'
+import {
+  Alert,
+  Button,
+  Fieldset,
+  FileInput,
+  FormGroup,
+  Label,
+  Radio,
+  Select,
+  Table,
+  TextInput,
+} from '@trussworks/react-uswds'
+import { MAPPABLE_COLUMN_GROUPS, applyColumnMapping, guessColumnMapping } from '../customData'
+import type { ColumnMapping, CustomDataResult, CustomRowLevel } from '../customData'
+import { decodeCsv, parseCsv } from '../dataIndex'
+import type { LoadedData, ParsedCsv } from '../dataIndex'
+import type { StateOption } from '../types'
+import { formatNumber } from '../utils'
+
+interface CustomDataPanelProps {
+  // Used to read state codes, abbreviations and names in the file
+  states: StateOption[]
+  // Adds the indexed file as a data source and switches to it
+  onLoad: (label: string, data: LoadedData) => void
+}
+
+interface LoadedFile {
+  name: string
+  parsed: ParsedCsv
+}
+
+const LEVEL_OPTIONS: { value: CustomRowLevel; label: string }[] = [
+  { value: 'county', label: 'Counties' },
+  { value: 'place', label: 'Cities/places' },
+  { value: 'state', label: 'State totals' },
+  { value: 'sumlev', label: 'A mix, told apart by a SUMLEV column (040 state, 050 county, 162 place)' },
+]
+
+// Rows of the skipped-row list shown before it is cut short
+const SKIPPED_PREVIEW = 20
+
+function CustomDataPanel({ states, onLoad }: CustomDataPanelProps) {
+  const [file, setFile] = useState<LoadedFile | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [label, setLabel] = useState('')
+  const [result, setResult] = useState<CustomDataResult | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0]
+    if (!chosen) return
+    try {
+      const parsed = parseCsv(decodeCsv(new Uint8Array(await chosen.arrayBuffer())))
+      if (parsed.fields.length === 0 || parsed.rows.length === 0) {
+        throw new Error('No header row or data rows')
+      }
+      setFile({ name: chosen.name, parsed })
+      setMapping(guessColumnMapping(parsed.fields))
+      setLabel(chosen.name.replace(/\.[^.]+$/, ''))
+      setResult(null)
+      setFileError(null)
+    } catch (err) {
+      console.error('Error reading data file:', err)
+      setFile(null)
+      setMapping(null)
+      setFileError(`Could not read ${chosen.name} as a CSV file with a header row.`)
+    }
+  }
+
+  const updateMapping = (changes: Partial<ColumnMapping>) => {
+    if (mapping) setMapping({ ...mapping, ...changes })
+  }
+
+  const handleMetricColumnChange = (field: string, column: string) => {
+    if (!mapping) return
+    const metricColumns = { ...mapping.metricColumns }
+    if (column) {
+      metricColumns[field] = column
+    } else {
+      delete metricColumns[field]
+    }
+    updateMapping({ metricColumns })
+  }
+
+  const handleLoad = () => {
+    if (!file || !mapping) return
+    const mapped = applyColumnMapping(file.parsed, mapping, states, file.name)
+    setResult(mapped)
+    if (mapped.counts.places + mapped.counts.counties + mapped.counts.states > 0) {
+      onLoad(label.trim() || file.name, mapped.data)
+    }
+  }
+
+  const geographyColumns = new Set(
+    mapping
+      ? [mapping.stateColumn, mapping.countyColumn, mapping.placeColumn, mapping.nameColumn, mapping.sumlevColumn]
+      : []
+  )
+  const otherFields = file?.parsed.fields.filter((field) => !geographyColumns.has(field)) || []
+  const mappedMetricCount = otherFields.filter((field) => mapping?.metricColumns[field]).length
+  // Each kind of row needs the columns that identify it
+  const canLoad =
+    !!mapping &&
+    (mapping.level === 'sumlev'
+      ? !!mapping.sumlevColumn
+      : mapping.level === 'state'
+        ? !!mapping.stateColumn
+        : !!(mapping.level === 'place' ? mapping.placeColumn : mapping.countyColumn))
+
+  const renderColumnSelect = (
+    id: string,
+    labelText: string,
+    value: string,
+    onChange: (value: string) => void,
+    hint?: string
+  ) => (
+    <FormGroup>
+      <Label htmlFor={id}>{labelText}</Label>
+      {hint && <span className="usa-hint">{hint}</span>}
+      <Select id={id} name={id} value={value} onChange={(e) => onChange(e.target.value)}>
+        <option value="">(none)</option>
+        {file?.parsed.fields.map((field) => (
+          <option key={field} value={field}>
+            {field}
+          </option>
+        ))}
+      </Select>
+    </FormGroup>
+  )
+
+  return (
+    <div>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        Use a CSV from your computer, such as a state demographer&apos;s estimates or a Census release this site
+        doesn&apos;t have yet. The file is read in your browser and is not uploaded anywhere. It stays available until
+        the page is reloaded.
+      </p>
+
+      <FormGroup>
+        <Label htmlFor="custom-data-file">CSV file</Label>
+        <FileInput id="custom-data-file" name="custom-data-file" accept=".csv,.txt" onChange={handleFileChange} />
+        {fileError && (
+          <div className="usa-error-message" role="alert">
+            {fileError}
+          </div>
+        )}
+      </FormGroup>
+
+      {file && mapping && (
+        <>
+          <p style={{ fontSize: '0.94rem' }}>
+            {file.name}: {formatNumber(file.parsed.rows.length)} rows, {file.parsed.fields.length} columns.
+          </p>
+
+          <Fieldset legend="Each row is" style={{ marginTop: '1.5rem' }}>
+            {LEVEL_OPTIONS.map((opt) => (
+              <Radio
+                key={opt.value}
+                id={`custom-data-level-${opt.value}`}
+                name="custom-data-level"
+                label={opt.label}
+                value={opt.value}
+                checked={mapping.level === opt.value}
+                onChange={() => updateMapping({ level: opt.value })}
+              />
+            ))}
+          </Fieldset>
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0 1.5rem' }}>
+            {mapping.level === 'sumlev' &&
+              renderColumnSelect('custom-data-sumlev', 'SUMLEV column', mapping.sumlevColumn, (value) =>
+                updateMapping({ sumlevColumn: value })
+              )}
+            {renderColumnSelect(
+              'custom-data-state',
+              'State column',
+              mapping.stateColumn,
+              (value) => updateMapping({ stateColumn: value }),
+              'FIPS code, abbreviation or name; not needed when codes are full GEOIDs'
+            )}
+            {(mapping.level === 'county' || mapping.level === 'sumlev') &&
+              renderColumnSelect(
+                'custom-data-county',
+                'County code column',
+                mapping.countyColumn,
+                (value) => updateMapping({ countyColumn: value }),
+                '3-digit code, or a full 5-digit FIPS'
+              )}
+            {(mapping.level === 'place' || mapping.level === 'sumlev') &&
+              renderColumnSelect(
+                'custom-data-place',
+                'Place code column',
+                mapping.placeColumn,
+                (value) => updateMapping({ placeColumn: value }),
+                '5-digit code, or a full 7-digit GEOID'
+              )}
+            {renderColumnSelect('custom-data-name', 'Name column', mapping.nameColumn, (value) =>
+              updateMapping({ nameColumn: value })
+            )}
+          </div>
+
+          <h4>Metric columns</h4>
+          <p className="usa-hint">
+            Choose which Census field each column holds. {mappedMetricCount} of {otherFields.length} mapped; unmapped
+            columns are ignored.
+          </p>
+          <div style={{ overflowX: 'auto', maxHeight: '24rem', overflowY: 'auto' }}>
+            <Table bordered fullWidth compact>
+              <thead>
+                <tr>
+                  <th scope="col">Column</th>
+                  <th scope="col">First value</th>
+                  <th scope="col">Use as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {otherFields.map((field, index) => (
+                  <tr key={field}>
+                    <td style={{ fontFamily: 'monospace', fontSize: '0.9rem' }}>{field}</td>
+                    <td style={{ fontSize: '0.9rem' }}>{file.parsed.rows[0]?.[field]}</td>
+                    <td>
+                      <Label htmlFor={`custom-data-metric-${index}`} srOnly>
+                        Use {field} as
+                      </Label>
+                      <Select
+                        id={`custom-data-metric-${index}`}
+                        name={`custom-data-metric-${index}`}
+                        value={mapping.metricColumns[field] || ''}
+                        onChange={(e) => handleMetricColumnChange(field, e.target.value)}
+                        style={{ marginTop: 0 }}
+                      >
+                        <option value="">(ignore)</option>
+                        {MAPPABLE_COLUMN_GROUPS.map((group) => (
+                          <optgroup key={group.label} label={group.label}>
+                            {group.columns.map((col) => (
+                              <option key={col.column} value={col.column}>
+                                {col.label}
+                              </option>
+                            ))}
+                          </optgroup>
+                        ))}
+                      </Select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+
+          <FormGroup>
+            <Label htmlFor="custom-data-label">Name for this data source</Label>
+            <TextInput
+              id="custom-data-label"
+              name="custom-data-label"
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </FormGroup>
+
+          <div style={{ marginTop: '1.5rem' }}>
+            <Button type="button" onClick={handleLoad} disabled={!canLoad}>
+              Load as data source
+            </Button>
+          </div>
+        </>
+      )}
+
+      {result && (
+        <div style={{ marginTop: '1.5rem' }}>
+          <Alert
+            type={result.skipped.length > 0 ? 'warning' : 'success'}
+            headingLevel="h4"
+            heading={
+              result.counts.places + result.counts.counties + result.counts.states > 0
+                ? 'File loaded'
+                : 'No rows could be loaded'
+            }
+            slim
+          >
+            {formatNumber(result.counts.counties)} counties, {formatNumber(result.counts.places)} cities/places and{' '}
+            {formatNumber(result.counts.states)} state totals loaded; {formatNumber(result.skipped.length)} rows
+            skipped.
+            {result.counts.places + result.counts.counties + result.counts.states > 0 &&
+              ' It is now selected under "Data vintage" above.'}
+          </Alert>
+          {result.skipped.length > 0 && (
+            <ul className="usa-list" style={{ fontSize: '0.94rem' }}>
+              {result.skipped.slice(0, SKIPPED_PREVIEW).map((row) => (
+                <li key={row.line}>
+                  Line {row.line}: {row.reason}
+                  {row.value !== undefined && ` ("${row.value}")`}
+                </li>
+              ))}
+              {result.skipped.length > SKIPPED_PREVIEW && (
+                <li>…and {formatNumber(result.skipped.length - SKIPPED_PREVIEW)} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CustomDataPanel
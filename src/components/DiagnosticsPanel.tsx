@@ -0,0 +1,221 @@
+import { useState } from 'react'
+import { Alert, Label, Select, Table } from '@trussworks/react-uswds'
+import type { LoadedData } from '../dataIndex'
+import { isExpectedSkip } from '../diagnostics'
+import type { FileDiagnostics } from '../diagnostics'
+import { formatNumber } from '../utils'
+import type { VintageManifest } from '../vintages'
+
+interface DiagnosticsPanelProps {
+  manifest: VintageManifest
+  // Vintages loaded so far, by id
+  datasets: Record<string, LoadedData>
+  // Vintage shown first
+  vintageId: string
+}
+
+const KIND_LABELS: Record<FileDiagnostics['kind'], string> = {
+  places: 'Cities/places file',
+  counties: 'Counties file',
+  custom: 'Your file',
+}
+
+const SOURCE_LABELS: Record<FileDiagnostics['source'], string> = {
+  index: 'read from the prebuilt data index',
+  csv: 'parsed from the CSV',
+  user: 'loaded from this computer',
+}
+
+// What still works without each kind of file
+const MISSING_EFFECTS: Record<FileDiagnostics['kind'], string> = {
+  places: 'Cities/places are unavailable; counties, states and national totals still work.',
+  counties: 'Counties, states and national totals are unavailable; cities/places still work.',
+  custom: 'The file could not be used.',
+}
+
+// Longest list shown for parse errors and duplicates
+const LIST_LIMIT = 20
+
+function FileReport({ diagnostics }: { diagnostics: FileDiagnostics }) {
+  const { table } = diagnostics
+  const heading = `${KIND_LABELS[diagnostics.kind]}${diagnostics.file ? `: ${diagnostics.file}` : ''}`
+
+  if (diagnostics.error) {
+    return (
+      <div style={{ marginBottom: '2rem' }}>
+        <h3>{heading}</h3>
+        <Alert type="warning" headingLevel="h4" slim>
+          Could not be loaded ({diagnostics.error}). {MISSING_EFFECTS[diagnostics.kind]}
+        </Alert>
+      </div>
+    )
+  }
+  if (!table) {
+    return (
+      <div style={{ marginBottom: '2rem' }}>
+        <h3>{heading}</h3>
+        <p className="usa-hint">This vintage has no file of this kind.</p>
+      </div>
+    )
+  }
+
+  const skippedCount = table.skipped.reduce((total, skip) => total + skip.count, 0)
+
+  return (
+    <div style={{ marginBottom: '2rem' }}>
+      <h3 style={{ marginBottom: '0.25rem' }}>{heading}</h3>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        {SOURCE_LABELS[diagnostics.source]}
+      </p>
+
+      <Table bordered compact>
+        <tbody>
+          <tr>
+            <th scope="row">Rows in file</th>
+            <td style={{ textAlign: 'right' }}>{formatNumber(table.sourceRows)}</td>
+          </tr>
+          <tr>
+            <th scope="row">Rows indexed</th>
+            <td style={{ textAlign: 'right' }}>{formatNumber(table.indexedRows)}</td>
+          </tr>
+          <tr>
+            <th scope="row">Rows skipped</th>
+            <td style={{ textAlign: 'right' }}>{formatNumber(skippedCount)}</td>
+          </tr>
+          <tr>
+            <th scope="row">Parse errors</th>
+            <td style={{ textAlign: 'right' }}>{formatNumber(table.parseErrors.length)}</td>
+          </tr>
+          <tr>
+            <th scope="row">Duplicate codes</th>
+            <td style={{ textAlign: 'right' }}>{formatNumber(table.duplicates.length)}</td>
+          </tr>
+          <tr>
+            <th scope="row">Columns with missing or non-numeric values</th>
+            <td style={{ textAlign: 'right' }}>{formatNumber(table.values.length)}</td>
+          </tr>
+        </tbody>
+      </Table>
+
+      {table.skipped.length > 0 && (
+        <>
+          <h4>Skipped rows</h4>
+          <ul className="usa-list" style={{ fontSize: '0.94rem' }}>
+            {table.skipped.map((skip) => (
+              <li key={skip.reason}>
+                {skip.reason}: {formatNumber(skip.count)}
+                {isExpectedSkip(skip.reason) && ' (expected)'}
+                {skip.examples.length > 0 && (
+                  <span style={{ color: '#71767a' }}> — e.g. {skip.examples.join('; ')}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {table.parseErrors.length > 0 && (
+        <>
+          <h4>Parse errors</h4>
+          <ul className="usa-list" style={{ fontSize: '0.94rem' }}>
+            {table.parseErrors.slice(0, LIST_LIMIT).map((error, index) => (
+              <li key={index}>
+                {error.row !== null ? `Line ${error.row + 2}: ` : ''}
+                {error.message}
+              </li>
+            ))}
+            {table.parseErrors.length > LIST_LIMIT && (
+              <li>…and {formatNumber(table.parseErrors.length - LIST_LIMIT)} more</li>
+            )}
+          </ul>
+        </>
+      )}
+
+      {table.duplicates.length > 0 && (
+        <>
+          <h4>Duplicate codes</h4>
+          <p className="usa-hint">Only the last row with each code is used.</p>
+          <ul className="usa-list" style={{ fontSize: '0.94rem' }}>
+            {table.duplicates.slice(0, LIST_LIMIT).map((duplicate) => (
+              <li key={duplicate.code}>
+                <span style={{ fontFamily: 'monospace' }}>{duplicate.code}</span>: {duplicate.count} rows
+              </li>
+            ))}
+            {table.duplicates.length > LIST_LIMIT && (
+              <li>…and {formatNumber(table.duplicates.length - LIST_LIMIT)} more</li>
+            )}
+          </ul>
+        </>
+      )}
+
+      {table.values.length > 0 && (
+        <>
+          <h4>Missing or non-numeric values</h4>
+          <p className="usa-hint">These cells show as a dash in Results rather than as zero.</p>
+          <div style={{ overflowX: 'auto' }}>
+            <Table bordered compact fullWidth>
+              <thead>
+                <tr>
+                  <th scope="col">Column</th>
+                  <th scope="col">Missing</th>
+                  <th scope="col">Non-numeric</th>
+                  <th scope="col">Examples</th>
+                </tr>
+              </thead>
+              <tbody>
+                {table.values.map((issue) => (
+                  <tr key={issue.column}>
+                    <td style={{ fontFamily: 'monospace', fontSize: '0.9rem' }}>{issue.column}</td>
+                    <td style={{ textAlign: 'right' }}>{formatNumber(issue.missing)}</td>
+                    <td style={{ textAlign: 'right' }}>{formatNumber(issue.nonNumeric)}</td>
+                    <td style={{ fontSize: '0.88rem' }}>{issue.examples.join('; ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function DiagnosticsPanel({ manifest, datasets, vintageId }: DiagnosticsPanelProps) {
+  const [shownId, setShownId] = useState<string | null>(null)
+  const loadedVintages = manifest.vintages.filter((v) => datasets[v.id])
+  // Follows the active vintage until another one is picked here
+  const currentId = shownId && datasets[shownId] ? shownId : vintageId
+  const diagnostics = datasets[currentId]?.diagnostics || []
+
+  return (
+    <div>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        What was read from each data file, which rows were left out and why, and any values that could not be used.
+      </p>
+
+      {loadedVintages.length > 1 && (
+        <div style={{ marginBottom: '1.5rem' }}>
+          <Label htmlFor="diagnostics-vintage">Data vintage</Label>
+          <Select
+            id="diagnostics-vintage"
+            name="diagnostics-vintage"
+            value={currentId}
+            onChange={(e) => setShownId(e.target.value)}
+          >
+            {loadedVintages.map((v) => (
+              <option key={v.id} value={v.id}>
+                {v.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+      )}
+
+      {diagnostics.map((file) => (
+        <FileReport key={`${file.kind}-${file.file}`} diagnostics={file} />
+      ))}
+    </div>
+  )
+}
+
+export default DiagnosticsPanel
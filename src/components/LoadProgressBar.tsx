@@ -0,0 +1,55 @@
+import type { FileProgress } from '../dataLoader'
+import { formatNumber } from '../utils'
+
+interface LoadProgressBarProps {
+  progress: FileProgress
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${formatNumber(bytes / 1_000_000, 1)} MB`
+}
+
+function LoadProgressBar({ progress }: LoadProgressBarProps) {
+  // Compressed responses report a smaller Content-Length than the bytes read, so cap at 100%
+  const percent =
+    progress.stage === 'downloading' && progress.total
+      ? Math.min(100, Math.round((progress.loaded / progress.total) * 100))
+      : progress.stage === 'downloading'
+        ? null
+        : 100
+
+  const status =
+    progress.stage === 'done'
+      ? 'Ready'
+      : progress.stage === 'parsing'
+        ? 'Parsing…'
+        : `${formatMegabytes(progress.loaded)}${progress.total ? ` of ${formatMegabytes(progress.total)}` : ''}`
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem', fontSize: '0.94rem' }}>
+        <span style={{ fontFamily: 'monospace' }}>{progress.file}</span>
+        <span>{status}</span>
+      </div>
+      <div
+        role="progressbar"
+        aria-label={`Loading ${progress.file}`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent ?? undefined}
+        style={{ height: '0.5rem', backgroundColor: '#dfe1e2', borderRadius: '0.25rem', overflow: 'hidden', marginTop: '0.25rem' }}
+      >
+        <div
+          style={{
+            height: '100%',
+            width: `${percent ?? 100}%`,
+            backgroundColor: percent === null ? '#a9aeb1' : '#2e5266',
+            transition: 'width 0.2s',
+          }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export default LoadProgressBar
@@ -0,0 +1,508 @@
+import { useMemo, useRef, useState } from 'react'
+import { Alert, Button, Fieldset, FormGroup, Label, Radio, Select } from '@trussworks/react-uswds'
+import {
+  CLASSIFICATION_METHODS,
+  MAX_CLASSES,
+  MIN_CLASSES,
+  NO_DATA_COLOR,
+  buildLegend,
+  classify,
+  collectMapValues,
+  computeBreaks,
+  getClassColors,
+  getCodesInState,
+} from '../choropleth'
+import type { ClassificationMethod, MapValue } from '../choropleth'
+import { findPredecessors } from '../crosswalk'
+import {
+  BOUNDARIES_FILE,
+  MAP_WIDTH,
+  PLACE_LOCATIONS_FILE,
+  combineBounds,
+  loadMapGeometry,
+  loadPlaceLocations,
+  projectPoint,
+} from '../mapGeometry'
+import type { MapBounds, MapGeometry } from '../mapGeometry'
+import {
+  formatMetricValue,
+  getAvailableMetrics,
+  getLatestPopulationMetric,
+  getMetricLabel,
+  groupMetricsByCategory,
+} from '../metrics'
+import type { JurisdictionLookups } from '../selections'
+import type { JurisdictionCandidate, JurisdictionType, MetricType, Selection, StateOption } from '../types'
+import { formatNumber } from '../utils'
+
+interface MapPanelProps {
+  lookups: JurisdictionLookups
+  states: StateOption[]
+  columnsByType: Record<JurisdictionType, Set<string>>
+  basketSelections: Selection[]
+  // Adds the jurisdictions with each metric; returns how many new selections were added
+  onAddSelections: (candidates: JurisdictionCandidate[], metrics: MetricType[]) => number
+}
+
+type MapView = 'basket' | 'state'
+type MapLevel = 'county' | 'place'
+
+interface HoveredJurisdiction {
+  item: MapValue
+  // Pointer position inside the map container
+  x: number
+  y: number
+}
+
+interface MapMark {
+  item: MapValue
+  color: string
+  // Counties are outlines, places are points
+  path?: string
+  point?: [number, number]
+  bounds: MapBounds
+}
+
+// Point radius in screen pixels at the full-country zoom
+const POINT_RADIUS = 3.5
+// USWDS base-lightest, for states around the mapped area
+const BACKGROUND_COLOR = '#f0f0f0'
+
+function MapPanel({ lookups, states, columnsByType, basketSelections, onAddSelections }: MapPanelProps) {
+  const [geometry, setGeometry] = useState<MapGeometry | null>(null)
+  const [loadingMap, setLoadingMap] = useState(false)
+  const [mapError, setMapError] = useState<string | null>(null)
+  // undefined until requested; null when the site has no locations file
+  const [placeLocations, setPlaceLocations] = useState<Map<string, [number, number]> | null | undefined>(undefined)
+  const [view, setView] = useState<MapView>('state')
+  const [level, setLevel] = useState<MapLevel>('county')
+  const [stateFips, setStateFips] = useState('')
+  // '' until the user picks one: the latest population estimate
+  const [metric, setMetric] = useState<MetricType>('')
+  const [method, setMethod] = useState<ClassificationMethod>('quantile')
+  const [classCount, setClassCount] = useState(5)
+  const [hovered, setHovered] = useState<HoveredJurisdiction | null>(null)
+  const [status, setStatus] = useState<{ added: boolean; message: string } | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const metricOptions = useMemo(
+    () => getAvailableMetrics(columnsByType[level]).filter((def) => def.kind !== 'code'),
+    [columnsByType, level]
+  )
+  const metricGroups = useMemo(() => groupMetricsByCategory(metricOptions), [metricOptions])
+  // Fall back when the chosen metric isn't in this file
+  const activeMetric = metricOptions.some((def) => def.id === metric)
+    ? metric
+    : getLatestPopulationMetric(metricOptions) || metricOptions[0]?.id
+
+  const values = useMemo(() => {
+    if (!activeMetric) return []
+    const codes =
+      view === 'basket'
+        ? new Set(basketSelections.filter((sel) => sel.type === level).map((sel) => sel.jurisdictionCode))
+        : getCodesInState(lookups, level, stateFips || null)
+    return collectMapValues(lookups, level, codes, activeMetric)
+  }, [lookups, level, view, stateFips, basketSelections, activeMetric])
+
+  const numericValues = useMemo(
+    () => values.flatMap((item) => (item.value === null ? [] : [item.value])),
+    [values]
+  )
+  const breaks = useMemo(() => computeBreaks(numericValues, method, classCount), [numericValues, method, classCount])
+  const legend = useMemo(() => buildLegend(numericValues, breaks), [numericValues, breaks])
+
+  // Jurisdictions with a shape or point, and those the boundary files don't have
+  const { marks, unmapped } = useMemo(() => {
+    const colors = getClassColors(breaks.length + 1)
+    const result: { marks: MapMark[]; unmapped: MapValue[] } = { marks: [], unmapped: [] }
+    if (!geometry) return result
+
+    values.forEach((item) => {
+      const color = item.value === null ? NO_DATA_COLOR : colors[classify(item.value, breaks)]
+      if (level === 'county') {
+        const shape = geometry.counties.get(item.code)
+        if (shape) {
+          result.marks.push({ item, color, path: shape.path, bounds: shape.bounds })
+          return
+        }
+      } else {
+        const location = placeLocations?.get(item.code)
+        const point = location ? projectPoint(location[0], location[1]) : null
+        if (point) {
+          result.marks.push({ item, color, point, bounds: [point[0], point[1], point[0], point[1]] })
+          return
+        }
+      }
+      result.unmapped.push(item)
+    })
+    return result
+  }, [geometry, placeLocations, values, breaks, level])
+
+  // Retired counties still in the boundary file whose successors aren't, hatched so their area isn't left blank
+  const outdated = useMemo(() => {
+    if (!geometry || level !== 'county') return { shapes: [], replacements: [] }
+    const replacements = unmapped.filter((item) => findPredecessors('county', item.code).length > 0)
+    const codes = new Set(
+      replacements.flatMap((item) => findPredecessors('county', item.code).map((change) => change.code))
+    )
+    return { shapes: Array.from(codes).flatMap((code) => geometry.counties.get(code) || []), replacements }
+  }, [geometry, level, unmapped])
+
+  const viewBox = useMemo(() => {
+    // A whole state is framed by its outline, even if only part of it has values
+    const stateShape = view === 'state' && stateFips ? geometry?.states.get(stateFips) : undefined
+    return combineBounds(stateShape ? [stateShape.bounds] : marks.map((mark) => mark.bounds))
+  }, [geometry, marks, view, stateFips])
+  const zoom = (viewBox[2] - viewBox[0]) / MAP_WIDTH
+
+  const handleShowMap = async () => {
+    setLoadingMap(true)
+    setMapError(null)
+    try {
+      setGeometry(await loadMapGeometry(import.meta.env.BASE_URL))
+    } catch (err) {
+      console.error('Error loading map boundaries:', err)
+      setMapError(`The map boundaries could not be loaded${err instanceof Error ? `: ${err.message}` : '.'}`)
+    } finally {
+      setLoadingMap(false)
+    }
+  }
+
+  const handleLevelChange = async (newLevel: MapLevel) => {
+    setLevel(newLevel)
+    setHovered(null)
+    if (newLevel !== 'place' || placeLocations !== undefined) return
+    try {
+      setPlaceLocations(await loadPlaceLocations(import.meta.env.BASE_URL))
+    } catch (err) {
+      console.error('Error loading place locations:', err)
+      setPlaceLocations(null)
+    }
+  }
+
+  const handleHover = (item: MapValue, e: React.MouseEvent<SVGElement>) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect) return
+    setHovered({ item, x: e.clientX - rect.left, y: e.clientY - rect.top })
+  }
+
+  const handleClick = (item: MapValue) => {
+    if (!activeMetric) return
+    const { type, code, name, stateFips: itemState, stateName } = item
+    const added = onAddSelections([{ type, code, name, stateFips: itemState, stateName }], [activeMetric])
+    setStatus({
+      added: added > 0,
+      message:
+        added > 0
+          ? `Added ${name}, ${stateName} (${getMetricLabel(activeMetric)}) to the basket.`
+          : `${name}, ${stateName} is already in the basket with ${getMetricLabel(activeMetric)}.`,
+    })
+  }
+
+  const noDataCount = values.length - numericValues.length
+  const basketCount = basketSelections.filter((sel) => sel.type === level).length
+
+  return (
+    <div>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        Color counties or cities/places by a metric from the selected data vintage. Hover over one to see its value
+        and click it to add it to the basket with that metric.
+      </p>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0 2rem' }}>
+        <Fieldset legend="Show" style={{ marginTop: '1rem' }}>
+          <Radio
+            id="map-view-state"
+            name="map-view"
+            label="Every jurisdiction in a state, or nationwide"
+            value="state"
+            checked={view === 'state'}
+            onChange={() => setView('state')}
+          />
+          <Radio
+            id="map-view-basket"
+            name="map-view"
+            label="Jurisdictions in the basket"
+            value="basket"
+            checked={view === 'basket'}
+            onChange={() => setView('basket')}
+          />
+        </Fieldset>
+        <Fieldset legend="Jurisdictions" style={{ marginTop: '1rem' }}>
+          <Radio
+            id="map-level-county"
+            name="map-level"
+            label="Counties"
+            value="county"
+            checked={level === 'county'}
+            onChange={() => handleLevelChange('county')}
+          />
+          <Radio
+            id="map-level-place"
+            name="map-level"
+            label="Cities/places (as points)"
+            value="place"
+            checked={level === 'place'}
+            onChange={() => handleLevelChange('place')}
+          />
+        </Fieldset>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0 1.5rem' }}>
+        {view === 'state' && (
+          <FormGroup>
+            <Label htmlFor="map-state">State</Label>
+            <Select id="map-state" name="map-state" value={stateFips} onChange={(e) => setStateFips(e.target.value)}>
+              <option value="">All states</option>
+              {states.map((state) => (
+                <option key={state.fips} value={state.fips}>
+                  {state.name}
+                </option>
+              ))}
+            </Select>
+          </FormGroup>
+        )}
+        <FormGroup>
+          <Label htmlFor="map-metric">Metric</Label>
+          <Select
+            id="map-metric"
+            name="map-metric"
+            value={activeMetric || ''}
+            onChange={(e) => setMetric(e.target.value)}
+            disabled={metricOptions.length === 0}
+          >
+            {metricGroups.map((group) => (
+              <optgroup key={group.category} label={group.label}>
+                {group.metrics.map((def) => (
+                  <option key={def.id} value={def.id}>
+                    {def.label}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </Select>
+        </FormGroup>
+        <FormGroup>
+          <Label htmlFor="map-method">Classes</Label>
+          <Select
+            id="map-method"
+            name="map-method"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as ClassificationMethod)}
+          >
+            {CLASSIFICATION_METHODS.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </Select>
+        </FormGroup>
+        <FormGroup>
+          <Label htmlFor="map-class-count">Number of classes</Label>
+          <Select
+            id="map-class-count"
+            name="map-class-count"
+            value={classCount}
+            onChange={(e) => setClassCount(Number(e.target.value))}
+          >
+            {Array.from({ length: MAX_CLASSES - MIN_CLASSES + 1 }, (_, i) => MIN_CLASSES + i).map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </Select>
+        </FormGroup>
+      </div>
+
+      {!geometry && (
+        <div style={{ marginTop: '1.5rem' }}>
+          <Button type="button" onClick={handleShowMap} disabled={loadingMap}>
+            {loadingMap ? 'Loading map…' : 'Show map'}
+          </Button>
+          {mapError && (
+            <div className="usa-error-message" role="alert">
+              {mapError}
+            </div>
+          )}
+        </div>
+      )}
+
+      {geometry && level === 'place' && placeLocations === null && (
+        <Alert type="info" headingLevel="h3" slim>
+          Cities/places can&apos;t be mapped because this site has no place locations file. Add the Census Gazetteer
+          national places file to public/data as {PLACE_LOCATIONS_FILE} to show them as points.
+        </Alert>
+      )}
+      {geometry && outdated.shapes.length > 0 && (
+        <Alert type="warning" headingLevel="h3" slim>
+          {geometry.bundled
+            ? 'The bundled county boundaries (2017 edition)'
+            : `The site's boundary file (${BOUNDARIES_FILE})`}{' '}
+          predate {formatNumber(outdated.replacements.length)} of these counties, such as{' '}
+          {outdated.replacements[0].name}, {outdated.replacements[0].stateName}, so the counties they replaced are
+          hatched instead and they are listed beside the map.
+          {geometry.bundled &&
+            ` To draw them, add county boundaries matching the data vintage to public/data as ${BOUNDARIES_FILE}.`}
+        </Alert>
+      )}
+      {geometry && view === 'basket' && basketCount === 0 && (
+        <Alert type="info" headingLevel="h3" slim>
+          The basket has no {level === 'county' ? 'counties' : 'cities/places'} yet.
+        </Alert>
+      )}
+
+      {geometry && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1.5rem', marginTop: '1.5rem', alignItems: 'flex-start' }}>
+          <div ref={containerRef} style={{ position: 'relative', flex: '1 1 32rem', minWidth: 0 }}>
+            <svg
+              viewBox={`${viewBox[0]} ${viewBox[1]} ${viewBox[2] - viewBox[0]} ${viewBox[3] - viewBox[1]}`}
+              role="img"
+              aria-label={`Map of ${activeMetric ? getMetricLabel(activeMetric) : 'values'} for ${formatNumber(marks.length)} ${level === 'county' ? 'counties' : 'cities/places'}`}
+              style={{ width: '100%', height: 'auto', maxHeight: '36rem', display: 'block' }}
+              onMouseLeave={() => setHovered(null)}
+            >
+              {Array.from(geometry.states.values()).map((shape) => (
+                <path key={shape.code} d={shape.path} fill={BACKGROUND_COLOR} />
+              ))}
+              {marks
+                .filter((mark) => mark.path)
+                .map((mark) => (
+                  <path
+                    key={mark.item.code}
+                    d={mark.path}
+                    fill={mark.color}
+                    stroke="#ffffff"
+                    strokeWidth={0.5}
+                    vectorEffect="non-scaling-stroke"
+                    style={{ cursor: 'pointer' }}
+                    onMouseMove={(e) => handleHover(mark.item, e)}
+                    onClick={() => handleClick(mark.item)}
+                  />
+                ))}
+              <defs>
+                <pattern
+                  id="map-outdated-hatch"
+                  patternUnits="userSpaceOnUse"
+                  width={4 * zoom}
+                  height={4 * zoom}
+                  patternTransform="rotate(45)"
+                >
+                  <rect width={4 * zoom} height={4 * zoom} fill={BACKGROUND_COLOR} />
+                  <line x1={0} y1={0} x2={0} y2={4 * zoom} stroke="#a9aeb1" strokeWidth={1.5 * zoom} />
+                </pattern>
+              </defs>
+              {outdated.shapes.map((shape) => (
+                <path key={shape.code} d={shape.path} fill="url(#map-outdated-hatch)">
+                  <title>No boundaries for the jurisdictions that replaced this county</title>
+                </path>
+              ))}
+              <path d={geometry.stateBorders} fill="none" stroke="#71767a" strokeWidth={0.75} vectorEffect="non-scaling-stroke" />
+              <path d={geometry.nationOutline} fill="none" stroke="#71767a" strokeWidth={0.75} vectorEffect="non-scaling-stroke" />
+              {marks
+                .filter((mark) => mark.point)
+                .map((mark) => (
+                  <circle
+                    key={mark.item.code}
+                    cx={mark.point![0]}
+                    cy={mark.point![1]}
+                    r={POINT_RADIUS * zoom}
+                    fill={mark.color}
+                    stroke="#1b1b1b"
+                    strokeWidth={0.5}
+                    vectorEffect="non-scaling-stroke"
+                    style={{ cursor: 'pointer' }}
+                    onMouseMove={(e) => handleHover(mark.item, e)}
+                    onClick={() => handleClick(mark.item)}
+                  />
+                ))}
+            </svg>
+
+            {hovered && activeMetric && (
+              <div
+                role="status"
+                style={{
+                  position: 'absolute',
+                  left: hovered.x + 12,
+                  top: hovered.y + 12,
+                  pointerEvents: 'none',
+                  backgroundColor: 'white',
+                  border: '1px solid #a9aeb1',
+                  borderRadius: '0.25rem',
+                  padding: '0.5rem 0.75rem',
+                  fontSize: '0.88rem',
+                  lineHeight: '1.4',
+                  boxShadow: '0 2px 4px rgba(0, 0, 0, 0.15)',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                <strong>{hovered.item.name}</strong>, {hovered.item.stateName}
+                <br />
+                {getMetricLabel(activeMetric)}:{' '}
+                {hovered.item.value === null ? 'no data' : formatMetricValue(activeMetric, hovered.item.value)}
+              </div>
+            )}
+          </div>
+
+          <div style={{ flex: '0 1 16rem' }}>
+            <h3 style={{ marginTop: 0, fontSize: '1rem' }}>{activeMetric ? getMetricLabel(activeMetric) : 'Legend'}</h3>
+            <ul style={{ listStyle: 'none', padding: 0, margin: 0, fontSize: '0.88rem' }}>
+              {legend.map((entry, index) => (
+                <li key={index} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+                  <span
+                    aria-hidden="true"
+                    style={{ width: '1.25rem', height: '1rem', backgroundColor: entry.color, border: '1px solid #a9aeb1' }}
+                  />
+                  <span>
+                    {formatMetricValue(activeMetric!, entry.from)} to {formatMetricValue(activeMetric!, entry.to)}{' '}
+                    <span style={{ color: '#71767a' }}>({formatNumber(entry.count)})</span>
+                  </span>
+                </li>
+              ))}
+              {outdated.shapes.length > 0 && (
+                <li style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
+                  <span
+                    aria-hidden="true"
+                    style={{
+                      width: '1.25rem',
+                      height: '1rem',
+                      background: `repeating-linear-gradient(45deg, ${BACKGROUND_COLOR} 0 3px, #a9aeb1 3px 5px)`,
+                      border: '1px solid #a9aeb1',
+                    }}
+                  />
+                  <span>No boundaries in the boundary file</span>
+                </li>
+              )}
+              {noDataCount > 0 && (
+                <li style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <span
+                    aria-hidden="true"
+                    style={{ width: '1.25rem', height: '1rem', backgroundColor: NO_DATA_COLOR, border: '1px solid #a9aeb1' }}
+                  />
+                  <span>
+                    No data <span style={{ color: '#71767a' }}>({formatNumber(noDataCount)})</span>
+                  </span>
+                </li>
+              )}
+            </ul>
+            {unmapped.length > 0 && (
+              <p className="usa-hint" style={{ fontSize: '0.88rem' }}>
+                {formatNumber(unmapped.length)} not on the map
+                {level === 'county' ? ' (the boundary files predate them, or they are outside the 50 states and DC)' : ''}
+                : {unmapped.slice(0, 5).map((item) => item.name).join('; ')}
+                {unmapped.length > 5 ? '; …' : ''}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <Alert type={status.added ? 'success' : 'info'} headingLevel="h3" slim>
+          {status.message}
+        </Alert>
+      )}
+    </div>
+  )
+}
+
+export default MapPanel
@@ -0,0 +1,44 @@
+import { Checkbox, Fieldset } from '@trussworks/react-uswds'
+import type { MetricGroup } from '../metrics'
+import type { MetricType } from '../types'
+
+interface MetricCheckboxesProps {
+  // Prefix for checkbox ids, so several panels can show the list at once
+  idPrefix: string
+  metricGroups: MetricGroup[]
+  selected: MetricType[]
+  onChange: (metrics: MetricType[]) => void
+}
+
+function MetricCheckboxes({ idPrefix, metricGroups, selected, onChange }: MetricCheckboxesProps) {
+  const handleToggle = (metric: MetricType) => {
+    onChange(selected.includes(metric) ? selected.filter((m) => m !== metric) : [...selected, metric])
+  }
+
+  return (
+    <Fieldset legend="Metrics to add" style={{ marginTop: '1.5rem' }}>
+      <div style={{ maxHeight: '16rem', overflowY: 'auto', border: '1px solid #dfe1e2', padding: '0 1rem 1rem' }}>
+        {metricGroups.map((group) => (
+          <div key={group.category}>
+            <p style={{ fontWeight: 600, marginBottom: 0 }}>{group.label}</p>
+            {group.metrics.map((def) => (
+              <Checkbox
+                key={def.id}
+                id={`${idPrefix}-metric-${def.id}`}
+                name={`${idPrefix}-metric`}
+                label={def.label}
+                checked={selected.includes(def.id)}
+                onChange={() => handleToggle(def.id)}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="usa-hint" style={{ marginTop: '0.5rem' }}>
+        Metrics a file doesn&apos;t carry (such as births for cities/places) are skipped for those jurisdictions.
+      </div>
+    </Fieldset>
+  )
+}
+
+export default MetricCheckboxes
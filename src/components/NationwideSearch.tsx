@@ -0,0 +1,139 @@
+import { useDeferredValue, useMemo, useState } from 'react'
+import { Label, TextInput } from '@trussworks/react-uswds'
+import { searchJurisdictions } from '../search'
+import type { SearchEntry } from '../search'
+import type { JurisdictionCandidate, StateOption } from '../types'
+import { getTypeLabel } from '../utils'
+
+interface NationwideSearchProps {
+  index: SearchEntry[]
+  states: StateOption[]
+  // Called with the picked jurisdiction; the parent fills in the form with it
+  onSelect: (candidate: JurisdictionCandidate) => void
+}
+
+const LISTBOX_ID = 'nationwide-search-results'
+
+function NationwideSearch({ index, states, onSelect }: NationwideSearchProps) {
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [open, setOpen] = useState(false)
+
+  // Searching ~23,000 names per keystroke; let typing stay responsive
+  const deferredQuery = useDeferredValue(query)
+  const results = useMemo(
+    () => (deferredQuery.trim().length >= 2 ? searchJurisdictions(index, deferredQuery, states) : []),
+    [index, deferredQuery, states]
+  )
+  const showResults = open && query.trim().length >= 2
+
+  const handleSelect = (candidate: JurisdictionCandidate) => {
+    onSelect(candidate)
+    setQuery('')
+    setOpen(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setOpen(true)
+      setActiveIndex(Math.min(activeIndex + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex(Math.max(activeIndex - 1, 0))
+    } else if (e.key === 'Enter' && showResults && results[activeIndex]) {
+      e.preventDefault()
+      handleSelect(results[activeIndex])
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <Label htmlFor="nationwide-search" style={{ marginTop: 0 }}>
+        Search all jurisdictions
+      </Label>
+      <span className="usa-hint" id="nationwide-search-hint">
+        Type a city, county or state name, e.g. <em>Springfield</em>, <em>St. Louis</em> or{' '}
+        <em>Washington County, OR</em>. No state needed.
+      </span>
+      <TextInput
+        id="nationwide-search"
+        name="nationwide-search"
+        type="text"
+        role="combobox"
+        autoComplete="off"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setActiveIndex(0)
+          setOpen(true)
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setOpen(false)}
+        aria-describedby="nationwide-search-hint"
+        aria-autocomplete="list"
+        aria-expanded={showResults}
+        aria-controls={LISTBOX_ID}
+        aria-activedescendant={showResults && results[activeIndex] ? `${LISTBOX_ID}-${activeIndex}` : undefined}
+        style={{ maxWidth: 'none' }}
+      />
+      {showResults && (
+        <ul
+          id={LISTBOX_ID}
+          role="listbox"
+          aria-label="Matching jurisdictions"
+          style={{
+            position: 'absolute',
+            zIndex: 10,
+            left: 0,
+            right: 0,
+            margin: 0,
+            padding: 0,
+            listStyle: 'none',
+            maxHeight: '20rem',
+            overflowY: 'auto',
+            backgroundColor: '#fff',
+            border: '1px solid #565c65',
+            borderTop: 'none',
+          }}
+        >
+          {results.length === 0 ? (
+            <li style={{ padding: '0.5rem 0.75rem', color: '#71767a' }}>No matching jurisdictions</li>
+          ) : (
+            results.map((candidate, i) => (
+              <li
+                key={`${candidate.type}-${candidate.code}`}
+                id={`${LISTBOX_ID}-${i}`}
+                role="option"
+                aria-selected={i === activeIndex}
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  handleSelect(candidate)
+                }}
+                onMouseEnter={() => setActiveIndex(i)}
+                style={{
+                  padding: '0.5rem 0.75rem',
+                  cursor: 'pointer',
+                  backgroundColor: i === activeIndex ? '#e7f2f5' : undefined,
+                  borderBottom: '1px solid #dfe1e2',
+                }}
+              >
+                <strong>{candidate.name}</strong>
+                <span style={{ color: '#71767a', fontSize: '0.88rem' }}>
+                  {' '}
+                  · {getTypeLabel(candidate.type)}
+                  {candidate.type !== 'state' && `, ${candidate.stateName}`} · {candidate.code}
+                </span>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default NationwideSearch
@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import { Alert, Button, FileInput, FormGroup, Label, Select, Table, Textarea, TextInput } from '@trussworks/react-uswds'
+import type { ImportContext } from '../bulkImport'
+import type { MetricDefinition } from '../metrics'
+import { DEFAULT_VALUE_LABEL, hasPerCapitaValues, parseCalculatorText } from '../perCapita'
+import type { CalculatorLineResult, PerCapitaInputs } from '../perCapita'
+import { formatNumber } from '../utils'
+
+interface PerCapitaPanelProps {
+  inputs: PerCapitaInputs
+  // Population metrics of the active vintage the values can be divided by
+  denominatorOptions: MetricDefinition[]
+  context: ImportContext
+  // Jurisdictions in the basket (getJurisdictionKey), the only ones values are matched to
+  basketKeys: Set<string>
+  onChange: (inputs: PerCapitaInputs) => void
+}
+
+function PerCapitaPanel({ inputs, denominatorOptions, context, basketKeys, onChange }: PerCapitaPanelProps) {
+  const [text, setText] = useState('')
+  const [report, setReport] = useState<CalculatorLineResult[] | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  // The latest population estimate until the user picks another
+  const denominator = inputs.denominator || denominatorOptions[denominatorOptions.length - 1]?.id || ''
+  const valueCount = Object.keys(inputs.values).filter((key) => basketKeys.has(key)).length
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    try {
+      setText(await file.text())
+      setFileError(null)
+    } catch (err) {
+      console.error('Error reading values file:', err)
+      setFileError(`Could not read ${file.name}.`)
+    }
+  }
+
+  // Values from the list replace earlier ones for the same jurisdictions
+  const handleApply = () => {
+    const results = parseCalculatorText(text, context, basketKeys)
+    const values = { ...inputs.values }
+    results.forEach((result) => {
+      if (result.status === 'matched') values[result.key] = result.value
+    })
+    onChange({ ...inputs, denominator, values })
+    setReport(results)
+  }
+
+  const handleClear = () => {
+    onChange({ ...inputs, values: {} })
+    setReport(null)
+  }
+
+  const matched = report?.filter((result) => result.status === 'matched') || []
+  const unmatched = report?.filter((result) => result.status === 'unmatched') || []
+
+  if (basketKeys.size === 0) {
+    return (
+      <p className="usa-hint" style={{ margin: 0 }}>
+        Add jurisdictions to the Results first, then enter a value for each of them here.
+      </p>
+    )
+  }
+
+  return (
+    <div>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        Enter a value for each jurisdiction in the Results, such as allocated dollars or case counts, to add it and its
+        per-capita and per-1,000-resident rates as Results columns. They are exported with the table and saved with
+        the basket in links and saved query sets.
+      </p>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem' }}>
+        <div style={{ flex: '1 1 16rem' }}>
+          <Label htmlFor="per-capita-label">What the values are</Label>
+          <TextInput
+            id="per-capita-label"
+            name="per-capita-label"
+            type="text"
+            value={inputs.label}
+            placeholder={`e.g. Allocated dollars (shown as "${DEFAULT_VALUE_LABEL}")`}
+            onChange={(e) => onChange({ ...inputs, label: e.target.value })}
+          />
+        </div>
+        <div style={{ flex: '1 1 16rem' }}>
+          <Label htmlFor="per-capita-denominator">Divide by</Label>
+          <Select
+            id="per-capita-denominator"
+            name="per-capita-denominator"
+            value={denominator}
+            onChange={(e) => onChange({ ...inputs, denominator: e.target.value })}
+          >
+            {denominatorOptions.map((def) => (
+              <option key={def.id} value={def.id}>
+                {def.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </div>
+
+      <FormGroup>
+        <Label htmlFor="per-capita-text">Values</Label>
+        <span className="usa-hint" style={{ display: 'block', fontSize: '0.88rem' }}>
+          One jurisdiction per line, ending with its value: a GEOID or FIPS code, or a &quot;Name, State&quot; pair, as
+          in <em>48453, 1200000</em> or <em>Travis County, TX, &quot;$1,200,000&quot;</em>. Columns pasted from a
+          spreadsheet work as they are.
+        </span>
+        <Textarea
+          id="per-capita-text"
+          name="per-capita-text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          style={{ maxWidth: 'none', fontFamily: 'monospace' }}
+        />
+      </FormGroup>
+
+      <FormGroup>
+        <Label htmlFor="per-capita-file">Or upload a CSV file</Label>
+        <FileInput id="per-capita-file" name="per-capita-file" accept=".csv,.txt" onChange={handleFileChange} />
+        {fileError && (
+          <div className="usa-error-message" role="alert">
+            {fileError}
+          </div>
+        )}
+      </FormGroup>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '1rem', marginTop: '1.5rem' }}>
+        <Button type="button" onClick={handleApply} disabled={text.trim() === '' || !denominator}>
+          Apply values
+        </Button>
+        {hasPerCapitaValues(inputs) && (
+          <Button
+            type="button"
+            unstyled
+            onClick={handleClear}
+            style={{ color: '#005ea2', textDecoration: 'underline', fontSize: '0.94rem' }}
+          >
+            Clear values
+          </Button>
+        )}
+        <span className="usa-hint" style={{ fontSize: '0.94rem' }}>
+          {formatNumber(valueCount)} of {formatNumber(basketKeys.size)} jurisdictions have a value
+        </span>
+      </div>
+
+      {report && (
+        <div style={{ marginTop: '1.5rem' }}>
+          <Alert
+            type={unmatched.length > 0 ? 'warning' : 'success'}
+            headingLevel="h4"
+            heading="Values applied"
+            slim
+          >
+            {matched.length} line{matched.length === 1 ? '' : 's'} matched, {unmatched.length} unmatched.
+          </Alert>
+
+          {unmatched.length > 0 && (
+            <>
+              <h4>Unmatched lines</h4>
+              <Table bordered fullWidth>
+                <thead>
+                  <tr>
+                    <th scope="col">Line</th>
+                    <th scope="col">Input</th>
+                    <th scope="col">Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {unmatched.map((result) =>
+                    result.status === 'unmatched' ? (
+                      <tr key={result.line}>
+                        <td>{result.line}</td>
+                        <td>{result.input}</td>
+                        <td>{result.reason}</td>
+                      </tr>
+                    ) : null
+                  )}
+                </tbody>
+              </Table>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PerCapitaPanel
@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { Button, Table } from '@trussworks/react-uswds'
+import { getMetricLabel } from '../metrics'
+import { getCountiesOfPlace, getPlacesInCounty } from '../relationships'
+import type { PlaceCountyIndex, RelatedJurisdiction } from '../relationships'
+import type { JurisdictionLookups } from '../selections'
+import type { JurisdictionCandidate, MetricType } from '../types'
+import { formatNumber } from '../utils'
+
+interface RelatedJurisdictionsProps {
+  lookups: JurisdictionLookups
+  placeCounties: PlaceCountyIndex
+  // The place or county picked in the form
+  type: 'place' | 'county'
+  code: string
+  // Metric the related jurisdictions are added with; '' until one is chosen
+  metric: MetricType | ''
+  // Adds the jurisdictions with each metric; returns how many new selections were added
+  onAddSelections: (candidates: JurisdictionCandidate[], metrics: MetricType[]) => number
+}
+
+function formatShare(share: number | null): string {
+  if (share === null) return '—'
+  // Slivers of a place still show as more than 0%
+  return share > 0 && share < 0.001 ? '<0.1%' : `${formatNumber(share * 100, 1)}%`
+}
+
+function RelatedJurisdictions({
+  lookups,
+  placeCounties,
+  type,
+  code,
+  metric,
+  onAddSelections,
+}: RelatedJurisdictionsProps) {
+  const [status, setStatus] = useState<{ code: string; message: string } | null>(null)
+
+  // Nothing to show without the place-part rows (e.g. a file loaded from this computer)
+  if (placeCounties.links.length === 0) return null
+
+  const related =
+    type === 'place' ? getCountiesOfPlace(lookups, placeCounties, code) : getPlacesInCounty(lookups, placeCounties, code)
+  const relatedLabel = type === 'place' ? 'counties' : 'cities/places'
+  const year = placeCounties.year ? ` (${placeCounties.year})` : ''
+
+  const handleAdd = (items: RelatedJurisdiction[]) => {
+    if (!metric) return
+    const added = onAddSelections(items, [metric])
+    setStatus({
+      code,
+      message:
+        added > 0
+          ? `Added ${formatNumber(added)} ${added === 1 ? 'selection' : 'selections'} with ${getMetricLabel(metric)}.`
+          : `Nothing added: already in the basket, or ${getMetricLabel(metric)} isn't available for ${relatedLabel}.`,
+    })
+  }
+
+  return (
+    <div
+      style={{
+        marginBottom: '2rem',
+        padding: '1rem 1.25rem',
+        border: '1px solid #dfe1e2',
+        borderRadius: '0.25rem',
+        backgroundColor: '#f9f9f9',
+      }}
+    >
+      <h3 style={{ marginTop: 0, fontSize: '1.06rem' }}>
+        {type === 'place' ? 'Counties this place lies in' : 'Incorporated places in this county'}
+        {related.length > 0 && ` (${formatNumber(related.length)})`}
+      </h3>
+
+      {related.length === 0 ? (
+        <p style={{ margin: 0, fontSize: '0.94rem', color: '#71767a' }}>
+          {type === 'place'
+            ? 'The loaded data has no county parts for this place.'
+            : 'No incorporated places lie in this county.'}
+        </p>
+      ) : (
+        <>
+          <div style={{ maxHeight: '16rem', overflowY: 'auto' }}>
+            <Table bordered compact fullWidth>
+              <thead>
+                <tr>
+                  <th scope="col">{type === 'place' ? 'County' : 'City/Place'}</th>
+                  <th scope="col">Population in {type === 'place' ? 'county' : 'this county'}{year}</th>
+                  <th scope="col">Share of the place</th>
+                  <th scope="col">
+                    <span className="usa-sr-only">Add</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {related.map((item) => (
+                  <tr key={item.code}>
+                    <td>{item.name}</td>
+                    <td style={{ textAlign: 'right' }}>
+                      {item.population === null ? '—' : formatNumber(item.population)}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>{formatShare(item.share)}</td>
+                    <td>
+                      <Button
+                        type="button"
+                        unstyled
+                        onClick={() => handleAdd([item])}
+                        disabled={!metric}
+                        style={{ color: '#005ea2', textDecoration: 'underline', fontSize: '0.94rem' }}
+                      >
+                        Add<span className="usa-sr-only"> {item.name}</span>
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+          {type === 'county' && (
+            <p className="usa-hint" style={{ fontSize: '0.88rem' }}>
+              A share under 100% means part of the place lies in another county.
+            </p>
+          )}
+          <Button type="button" outline onClick={() => handleAdd(related)} disabled={!metric}>
+            Add {related.length === 1 ? `${related[0].name}` : `all ${formatNumber(related.length)} ${relatedLabel}`}{' '}
+            to basket
+            {metric ? '' : ' (choose a metric first)'}
+          </Button>
+          {status?.code === code && (
+            <p role="status" style={{ marginBottom: 0, fontSize: '0.94rem' }}>
+              {status.message}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default RelatedJurisdictions
@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { Button, Checkbox, Fieldset, Label, TextInput } from '@trussworks/react-uswds'
+import type { ResultTotalsOptions } from '../results'
+import { formatNumber } from '../utils'
+
+interface ResultGroupControlsProps {
+  // Number of rows checked in the table
+  checkedCount: number
+  // Group names already used in the basket, offered as suggestions
+  groups: string[]
+  totals: ResultTotalsOptions
+  onTotalsChange: (totals: ResultTotalsOptions) => void
+  // Puts the checked rows in a group, or takes them out of theirs with null
+  onGroupChecked: (group: string | null) => void
+  onUncheckAll: () => void
+}
+
+const TOTAL_OPTIONS: { id: keyof ResultTotalsOptions; label: string }[] = [
+  { id: 'byGroup', label: 'Subtotal for each group' },
+  { id: 'byState', label: 'Subtotal for each state' },
+  { id: 'grandTotal', label: 'Grand total' },
+]
+
+function ResultGroupControls({
+  checkedCount,
+  groups,
+  totals,
+  onTotalsChange,
+  onGroupChecked,
+  onUncheckAll,
+}: ResultGroupControlsProps) {
+  const [groupName, setGroupName] = useState('')
+
+  const handleGroup = () => {
+    const name = groupName.trim()
+    if (!name) return
+    onGroupChecked(name)
+    setGroupName('')
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: '1.5rem',
+        alignItems: 'flex-start',
+        marginBottom: '1rem',
+        padding: '0.75rem 1rem 1rem',
+        border: '1px solid #dfe1e2',
+        borderRadius: '0.25rem',
+      }}
+    >
+      <Fieldset legend="Totals" style={{ flex: '0 1 16rem' }}>
+        {TOTAL_OPTIONS.map((option) => (
+          <Checkbox
+            key={option.id}
+            id={`results-totals-${option.id}`}
+            name="results-totals"
+            label={option.label}
+            checked={totals[option.id]}
+            onChange={() => onTotalsChange({ ...totals, [option.id]: !totals[option.id] })}
+          />
+        ))}
+        <div className="usa-hint" style={{ marginTop: '0.5rem', fontSize: '0.88rem' }}>
+          Populations, numeric change and components of change are summed; codes, rates and percentages aren&apos;t.
+        </div>
+      </Fieldset>
+
+      <div style={{ flex: '1 1 20rem' }}>
+        <Label htmlFor="results-group-name" style={{ marginTop: 0 }}>
+          Group name
+        </Label>
+        <span className="usa-hint" style={{ display: 'block', fontSize: '0.88rem' }}>
+          {checkedCount > 0
+            ? `${formatNumber(checkedCount)} ${checkedCount === 1 ? 'row' : 'rows'} checked`
+            : 'Check rows in the table to put them in a named group, such as a planning district'}
+        </span>
+        <TextInput
+          id="results-group-name"
+          name="results-group-name"
+          type="text"
+          list="results-group-names"
+          value={groupName}
+          onChange={(e) => setGroupName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleGroup()
+          }}
+          style={{ maxWidth: '24rem' }}
+        />
+        <datalist id="results-group-names">
+          {groups.map((group) => (
+            <option key={group} value={group} />
+          ))}
+        </datalist>
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem', marginTop: '0.5rem' }}>
+          <Button type="button" onClick={handleGroup} disabled={checkedCount === 0 || !groupName.trim()}>
+            Put checked rows in group
+          </Button>
+          <Button type="button" outline onClick={() => onGroupChecked(null)} disabled={checkedCount === 0}>
+            Remove from group
+          </Button>
+          {checkedCount > 0 && (
+            <Button
+              type="button"
+              unstyled
+              onClick={onUncheckAll}
+              style={{ color: '#005ea2', textDecoration: 'underline', fontSize: '0.94rem' }}
+            >
+              Uncheck all
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ResultGroupControls
@@ -0,0 +1,511 @@
+import { useMemo, useState } from 'react'
+import { Button, ButtonGroup, Checkbox, Label, Pagination, Select, Table, TextInput } from '@trussworks/react-uswds'
+import type { LoadedData } from '../dataIndex'
+import { formatMetricValue, getMetricLabel } from '../metrics'
+import { RANK_SCOPES, createRankingCache, formatPercentile, getPeers, getRankPosition, isRankedType } from '../rankings'
+import type { RankPosition, RankScope } from '../rankings'
+import {
+  EMPTY_RESULT_FILTER,
+  TOTAL_KIND_LABELS,
+  buildResultTotals,
+  filterResultRows,
+  formatColumnValue,
+  isSummableColumn,
+  sortResultRows,
+} from '../results'
+import type {
+  ResultColumn,
+  ResultFilter,
+  ResultRow,
+  ResultSort,
+  ResultSortKey,
+  ResultTotalsOptions,
+} from '../results'
+import type { JurisdictionType, MetricType } from '../types'
+import { JURISDICTION_TYPES, formatNumber, getTypeLabel } from '../utils'
+import ResultGroupControls from './ResultGroupControls'
+
+interface ResultsTableProps {
+  columns: ResultColumn[]
+  rows: ResultRow[]
+  // Loaded data by vintage id, which ranks are computed from
+  datasets: Record<string, LoadedData>
+  // Kept by the caller, so downloads contain the same rows
+  filter: ResultFilter
+  onFilterChange: (filter: ResultFilter) => void
+  totals: ResultTotalsOptions
+  onTotalsChange: (totals: ResultTotalsOptions) => void
+  // Puts rows (by key) in a named group, or takes them out with null
+  onGroupRows: (rowKeys: string[], group: string | null) => void
+}
+
+const PAGE_SIZES = [25, 50, 100]
+
+const headerButtonStyle = {
+  color: 'inherit',
+  fontWeight: 700,
+  textDecoration: 'none',
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '0.25rem',
+}
+
+const linkButtonStyle = { color: '#005ea2', textDecoration: 'underline', fontSize: '0.94rem' }
+
+function ResultsTable({
+  columns,
+  rows,
+  datasets,
+  filter,
+  onFilterChange,
+  totals,
+  onTotalsChange,
+  onGroupRows,
+}: ResultsTableProps) {
+  const [sort, setSort] = useState<ResultSort | null>(null)
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0])
+  // Metric the rank columns are computed for; '' hides them
+  const [rankMetric, setRankMetric] = useState<MetricType | ''>('')
+  const [peers, setPeers] = useState<{ rowKey: string; scope: RankScope } | null>(null)
+  // Keys of the rows checked for grouping
+  const [checked, setChecked] = useState<string[]>([])
+
+  const getRanking = useMemo(() => createRankingCache(datasets), [datasets])
+  // Only numeric catalog metrics can be ranked; a metric removed from the basket stops the ranking
+  const rankColumns = columns.filter((col) => col.numeric && !col.calculated)
+  const activeRankMetric = rankColumns.some((col) => col.metric === rankMetric) ? rankMetric : ''
+
+  // Filter choices only list what is actually in the basket
+  const stateOptions = useMemo(() => {
+    const byFips = new Map(rows.map((row) => [row.stateFips, row.stateName]))
+    return Array.from(byFips.entries()).sort((a, b) => a[1].localeCompare(b[1]))
+  }, [rows])
+  const typeOptions = JURISDICTION_TYPES.filter((type) => rows.some((row) => row.type === type))
+  // A vintage column is only worth its space when the basket mixes vintages
+  const showVintage = new Set(rows.map((row) => row.vintage)).size > 1
+  const groupNames = useMemo(
+    () => Array.from(new Set(rows.flatMap((row) => (row.group ? [row.group] : [])))).sort(),
+    [rows]
+  )
+  const showGroup = groupNames.length > 0
+  // Rows removed from the basket drop out of the checked set
+  const checkedKeys = checked.filter((key) => rows.some((row) => row.key === key))
+
+  const visibleRows = useMemo(() => sortResultRows(filterResultRows(rows, filter), sort), [rows, filter, sort])
+
+  const totalPages = Math.max(1, Math.ceil(visibleRows.length / pageSize))
+  // Removing rows can leave the current page past the end
+  const currentPage = Math.min(page, totalPages)
+  const pageStart = (currentPage - 1) * pageSize
+  const pageRows = visibleRows.slice(pageStart, pageStart + pageSize)
+  // Totals follow the filters, across every page
+  const totalRows = useMemo(() => buildResultTotals(visibleRows, columns, totals), [visibleRows, columns, totals])
+  const allPageChecked = pageRows.length > 0 && pageRows.every((row) => checkedKeys.includes(row.key))
+
+  const toggleChecked = (key: string) => {
+    setChecked(checkedKeys.includes(key) ? checkedKeys.filter((k) => k !== key) : [...checkedKeys, key])
+  }
+
+  const togglePageChecked = () => {
+    const pageKeys = pageRows.map((row) => row.key)
+    setChecked(
+      allPageChecked
+        ? checkedKeys.filter((key) => !pageKeys.includes(key))
+        : [...checkedKeys, ...pageKeys.filter((key) => !checkedKeys.includes(key))]
+    )
+  }
+
+  const handleGroupChecked = (group: string | null) => {
+    onGroupRows(checkedKeys, group)
+    setChecked([])
+  }
+
+  const updateFilter = (changes: Partial<ResultFilter>) => {
+    onFilterChange({ ...filter, ...changes })
+    setPage(1)
+  }
+
+  // Numbers start largest-first, text A–Z; clicking again reverses
+  const handleSort = (key: ResultSortKey, numeric: boolean) => {
+    if (sort?.key === key) {
+      setSort({ key, direction: sort.direction === 'ascending' ? 'descending' : 'ascending' })
+    } else {
+      setSort({ key, direction: numeric ? 'descending' : 'ascending' })
+    }
+    setPage(1)
+  }
+
+  const renderHeader = (key: ResultSortKey, label: string, numeric: boolean) => {
+    const active = sort?.key === key
+    return (
+      <th
+        key={key}
+        scope="col"
+        aria-sort={active ? sort.direction : 'none'}
+        style={{ fontWeight: 700, textAlign: numeric ? 'right' : undefined }}
+      >
+        <Button type="button" unstyled onClick={() => handleSort(key, numeric)} style={headerButtonStyle}>
+          {label}
+          <span aria-hidden="true" style={{ color: active ? '#1b1b1b' : '#a9aeb1', fontSize: '0.8rem' }}>
+            {active ? (sort.direction === 'ascending' ? '▲' : '▼') : '⇅'}
+          </span>
+        </Button>
+      </th>
+    )
+  }
+
+  const getRankingFor = (row: ResultRow, scope: RankScope) => {
+    if (!activeRankMetric || !isRankedType(row.type)) return null
+    return getRanking(row.vintageId, row.type, activeRankMetric, scope === 'state' ? row.stateFips : null)
+  }
+
+  const renderRank = (row: ResultRow, scope: RankScope) => {
+    const ranking = getRankingFor(row, scope)
+    const position: RankPosition | null = ranking ? getRankPosition(ranking, row.jurisdictionCode) : null
+    return (
+      <td key={scope} style={{ textAlign: 'right', whiteSpace: 'nowrap' }}>
+        {position ? (
+          <>
+            {formatNumber(position.rank)} of {formatNumber(position.count)}
+            <div className="usa-hint" style={{ fontSize: '0.88rem' }}>
+              {formatPercentile(position.percentile)}
+            </div>
+          </>
+        ) : (
+          '—'
+        )}
+      </td>
+    )
+  }
+
+  const peerRow = activeRankMetric && peers ? rows.find((row) => row.key === peers.rowKey) : undefined
+  const peerRanking = peerRow && peers ? getRankingFor(peerRow, peers.scope) : null
+  const peerList = peerRow && peerRanking ? getPeers(peerRanking, peerRow.jurisdictionCode) : []
+
+  const isFiltered = filter.text !== '' || filter.stateFips !== '' || filter.type !== ''
+
+  return (
+    <div>
+      {/* Filters */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'flex-end', marginBottom: '1rem' }}>
+        <div style={{ flex: '1 1 16rem' }}>
+          <Label htmlFor="results-filter-text" style={{ marginTop: 0 }}>
+            Filter by name or code
+          </Label>
+          <TextInput
+            id="results-filter-text"
+            name="results-filter-text"
+            type="search"
+            value={filter.text}
+            onChange={(e) => updateFilter({ text: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="results-filter-state" style={{ marginTop: 0 }}>
+            State
+          </Label>
+          <Select
+            id="results-filter-state"
+            name="results-filter-state"
+            value={filter.stateFips}
+            onChange={(e) => updateFilter({ stateFips: e.target.value })}
+          >
+            <option value="">All states</option>
+            {stateOptions.map(([fips, name]) => (
+              <option key={fips} value={fips}>
+                {name}
+              </option>
+            ))}
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="results-filter-type" style={{ marginTop: 0 }}>
+            Type
+          </Label>
+          <Select
+            id="results-filter-type"
+            name="results-filter-type"
+            value={filter.type}
+            onChange={(e) => updateFilter({ type: e.target.value as JurisdictionType | '' })}
+          >
+            <option value="">All types</option>
+            {typeOptions.map((type) => (
+              <option key={type} value={type}>
+                {getTypeLabel(type)}
+              </option>
+            ))}
+          </Select>
+        </div>
+        {isFiltered && (
+          <Button
+            type="button"
+            unstyled
+            onClick={() => updateFilter(EMPTY_RESULT_FILTER)}
+            style={{ color: '#005ea2', textDecoration: 'underline', fontSize: '0.94rem', marginBottom: '0.5rem' }}
+          >
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {/* Rank and percentile */}
+      {rankColumns.length > 0 && (
+        <div style={{ marginBottom: '1rem' }}>
+          <Label htmlFor="results-rank-metric" style={{ marginTop: 0 }}>
+            Show rank and percentile by
+          </Label>
+          <span className="usa-hint" style={{ display: 'block', fontSize: '0.88rem' }}>
+            Among all cities/places or counties in the state and nationally, largest value first
+          </span>
+          <Select
+            id="results-rank-metric"
+            name="results-rank-metric"
+            value={activeRankMetric}
+            onChange={(e) => setRankMetric(e.target.value as MetricType | '')}
+            style={{ maxWidth: '24rem' }}
+          >
+            <option value="">Don't show ranks</option>
+            {rankColumns.map((col) => (
+              <option key={col.metric} value={col.metric}>
+                {col.label}
+              </option>
+            ))}
+          </Select>
+        </div>
+      )}
+
+      <ResultGroupControls
+        checkedCount={checkedKeys.length}
+        groups={groupNames}
+        totals={totals}
+        onTotalsChange={onTotalsChange}
+        onGroupChecked={handleGroupChecked}
+        onUncheckAll={() => setChecked([])}
+      />
+
+      <div className="usa-hint" aria-live="polite" style={{ marginBottom: '0.5rem' }}>
+        {visibleRows.length === 0
+          ? `No rows match the filters (${formatNumber(rows.length)} in total).`
+          : `Showing ${formatNumber(pageStart + 1)}–${formatNumber(pageStart + pageRows.length)} of ${formatNumber(visibleRows.length)} rows${isFiltered ? ` (filtered from ${formatNumber(rows.length)})` : ''}.`}
+      </div>
+
+      <div style={{ overflowX: 'auto' }}>
+        <Table bordered fullWidth>
+          <thead>
+            <tr>
+              <th scope="col" style={{ width: '2.5rem' }}>
+                <Checkbox
+                  id="results-check-page"
+                  name="results-check-page"
+                  label={<span className="usa-sr-only">Check every row on this page</span>}
+                  checked={allPageChecked}
+                  onChange={togglePageChecked}
+                />
+              </th>
+              {renderHeader('state', 'State', false)}
+              {renderHeader('type', 'Type', false)}
+              {renderHeader('jurisdiction', 'Jurisdiction', false)}
+              {showVintage && renderHeader('vintage', 'Vintage', false)}
+              {showGroup && renderHeader('group', 'Group', false)}
+              {columns.map((col) => renderHeader(col.metric, col.label, col.numeric))}
+              {activeRankMetric && (
+                <>
+                  <th scope="col" style={{ textAlign: 'right' }}>Rank in state</th>
+                  <th scope="col" style={{ textAlign: 'right' }}>Rank nationally</th>
+                  <th scope="col">
+                    <span className="usa-sr-only">Peers</span>
+                  </th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((row) => (
+              <tr key={row.key}>
+                <td>
+                  <Checkbox
+                    id={`results-check-${row.key}`}
+                    name="results-check"
+                    label={<span className="usa-sr-only">Check {row.jurisdictionName}</span>}
+                    checked={checkedKeys.includes(row.key)}
+                    onChange={() => toggleChecked(row.key)}
+                    />
+                </td>
+                <td>{row.stateName}</td>
+                <td style={{ fontSize: '0.94rem' }}>{getTypeLabel(row.type)}</td>
+                <td><strong>{row.jurisdictionName}</strong></td>
+                {showVintage && <td style={{ fontSize: '0.94rem' }}>{row.vintage}</td>}
+                {showGroup && <td style={{ fontSize: '0.94rem' }}>{row.group || '—'}</td>}
+                {columns.map((col) =>
+                  col.numeric ? (
+                    <td key={col.metric} style={{ textAlign: 'right', fontWeight: 600 }}>
+                      {row.values[col.metric]?.display || '—'}
+                    </td>
+                  ) : (
+                    <td key={col.metric} style={{ fontFamily: 'monospace', fontSize: '0.9rem' }}>
+                      {row.values[col.metric]?.display || row.jurisdictionCode}
+                    </td>
+                  )
+                )}
+                {activeRankMetric &&
+                  (isRankedType(row.type) ? (
+                    <>
+                      {RANK_SCOPES.map((scope) => renderRank(row, scope.id))}
+                      <td>
+                        <Button
+                          type="button"
+                          unstyled
+                          onClick={() => setPeers({ rowKey: row.key, scope: peers?.scope ?? 'state' })}
+                          style={linkButtonStyle}
+                        >
+                          Show peers<span className="usa-sr-only"> of {row.jurisdictionName}</span>
+                        </Button>
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={3} className="usa-hint" style={{ fontSize: '0.88rem' }}>
+                      Ranks cover cities/places and counties
+                    </td>
+                  ))}
+              </tr>
+            ))}
+          </tbody>
+          {totalRows.length > 0 && (
+            <tbody style={{ borderTop: '3px solid #1b1b1b' }}>
+              {totalRows.map((total) => (
+                <tr key={total.key} style={{ backgroundColor: '#f0f0f0' }}>
+                  <td />
+                  <td>{total.kind === 'state' ? total.label : ''}</td>
+                  <td style={{ fontSize: '0.94rem' }}>{TOTAL_KIND_LABELS[total.kind]}</td>
+                  <th scope="row">
+                    {total.label}
+                    <span className="usa-hint" style={{ display: 'block', fontSize: '0.88rem', fontWeight: 400 }}>
+                      {formatNumber(total.rowCount)} {total.rowCount === 1 ? 'row' : 'rows'}
+                    </span>
+                  </th>
+                  {showVintage && <td />}
+                  {showGroup && <td style={{ fontSize: '0.94rem' }}>{total.kind === 'group' ? total.label : ''}</td>}
+                  {columns.map((col) => {
+                    const value = total.values[col.metric]
+                    return (
+                      <td key={col.metric} style={{ textAlign: 'right', fontWeight: 700 }}>
+                        {!isSummableColumn(col) ? '' : value == null ? '—' : formatColumnValue(col, value)}
+                      </td>
+                    )
+                  })}
+                  {activeRankMetric && <td colSpan={3} />}
+                </tr>
+              ))}
+            </tbody>
+          )}
+        </Table>
+      </div>
+
+      {/* Peers of one row */}
+      {peerRow && peers && activeRankMetric && (
+        <div
+          style={{
+            marginTop: '1rem',
+            padding: '1rem 1.25rem',
+            border: '1px solid #dfe1e2',
+            borderRadius: '0.25rem',
+            backgroundColor: '#f9f9f9',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+            <h3 style={{ margin: 0, fontSize: '1.06rem' }}>
+              Ranked near {peerRow.jurisdictionName}, {peerRow.stateName} by {getMetricLabel(activeRankMetric)}
+            </h3>
+            <Button type="button" unstyled onClick={() => setPeers(null)} style={linkButtonStyle}>
+              Close
+            </Button>
+          </div>
+          <ButtonGroup type="segmented" style={{ margin: '0.75rem 0' }}>
+            {RANK_SCOPES.map((scope) => (
+              <Button
+                key={scope.id}
+                type="button"
+                outline={peers.scope !== scope.id}
+                onClick={() => setPeers({ ...peers, scope: scope.id })}
+              >
+                {scope.id === 'state' ? `In ${peerRow.stateName}` : scope.label}
+              </Button>
+            ))}
+          </ButtonGroup>
+          {peerList.length === 0 ? (
+            <p style={{ margin: 0, fontSize: '0.94rem', color: '#71767a' }}>
+              {peerRow.jurisdictionName} has no value for {getMetricLabel(activeRankMetric)}, so it isn't ranked.
+            </p>
+          ) : (
+            <Table bordered compact fullWidth>
+              <thead>
+                <tr>
+                  <th scope="col" style={{ textAlign: 'right' }}>Rank</th>
+                  <th scope="col">{getTypeLabel(peerRow.type)}</th>
+                  {peers.scope === 'nation' && <th scope="col">State</th>}
+                  <th scope="col" style={{ textAlign: 'right' }}>{getMetricLabel(activeRankMetric)}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {peerList.map((peer) => {
+                  const current = peer.code === peerRow.jurisdictionCode
+                  return (
+                    <tr
+                      key={peer.code}
+                      aria-current={current ? 'true' : undefined}
+                      style={current ? { backgroundColor: '#d9e8f6', fontWeight: 700 } : undefined}
+                    >
+                      <td style={{ textAlign: 'right' }}>{formatNumber(peer.rank)}</td>
+                      <td>{peer.name}</td>
+                      {peers.scope === 'nation' && <td>{peer.stateName}</td>}
+                      <td style={{ textAlign: 'right' }}>{formatMetricValue(activeRankMetric, peer.value)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </Table>
+          )}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {visibleRows.length > PAGE_SIZES[0] && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+          <Pagination
+            pathname=""
+            totalPages={totalPages}
+            currentPage={currentPage}
+            onClickPrevious={() => setPage(currentPage - 1)}
+            onClickNext={() => setPage(currentPage + 1)}
+            onClickPageNumber={(_e, pageNumber) => setPage(pageNumber)}
+            aria-label="Results pages"
+          />
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+            <Label htmlFor="results-page-size" style={{ marginTop: 0 }}>
+              Rows per page
+            </Label>
+            <Select
+              id="results-page-size"
+              name="results-page-size"
+              value={String(pageSize)}
+              onChange={(e) => {
+                setPageSize(Number(e.target.value))
+                setPage(1)
+              }}
+              style={{ marginTop: 0, width: 'auto' }}
+            >
+              {PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </Select>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ResultsTable
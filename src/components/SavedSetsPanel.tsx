@@ -0,0 +1,252 @@
+import { useState } from 'react'
+import { Alert, Button, FileInput, FormGroup, Label, Table, TextInput } from '@trussworks/react-uswds'
+import { downloadBlob } from '../export'
+import {
+  countJurisdictions,
+  createSavedSet,
+  duplicateSavedSet,
+  loadSavedSets,
+  parseSavedSetsJson,
+  savedSetsToJson,
+  storeSavedSets,
+} from '../savedSets'
+import type { PerCapitaInputs } from '../perCapita'
+import type { SavedSet } from '../savedSets'
+import type { BasketEntry } from '../types'
+
+interface SavedSetsPanelProps {
+  basketEntries: BasketEntry[]
+  // Per-capita calculator values for the basket, saved with it
+  perCapita: PerCapitaInputs | null
+  // Replaces the basket with the set, loading any other vintage it uses; resolves
+  // with how many entries could not be resolved
+  onLoadSet: (set: SavedSet) => Promise<number>
+}
+
+interface StatusMessage {
+  type: 'success' | 'warning' | 'error'
+  text: string
+}
+
+const linkButtonStyle = { color: '#005ea2', textDecoration: 'underline', fontSize: '0.94rem' }
+
+function toFilename(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'query-set'
+}
+
+function SavedSetsPanel({ basketEntries, perCapita, onLoadSet }: SavedSetsPanelProps) {
+  const [sets, setSets] = useState<SavedSet[]>(loadSavedSets)
+  const [newName, setNewName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [status, setStatus] = useState<StatusMessage | null>(null)
+
+  // Every change is written straight through to local storage
+  const updateSets = (next: SavedSet[]) => {
+    setSets(next)
+    storeSavedSets(next)
+  }
+
+  const handleSave = () => {
+    const name = newName.trim()
+    if (!name || basketEntries.length === 0) return
+
+    const existing = sets.find((set) => set.name === name)
+    if (existing) {
+      // Saving under an existing name overwrites that set
+      updateSets(
+        sets.map((set) =>
+          set.id === existing.id
+            ? { ...createSavedSet(name, basketEntries, perCapita), id: set.id, createdAt: set.createdAt }
+            : set
+        )
+      )
+      setStatus({ type: 'success', text: `Updated "${name}".` })
+    } else {
+      updateSets([...sets, createSavedSet(name, basketEntries, perCapita)])
+      setStatus({ type: 'success', text: `Saved "${name}".` })
+    }
+    setNewName('')
+  }
+
+  const handleLoad = async (set: SavedSet) => {
+    const unresolved = await onLoadSet(set)
+    setStatus(
+      unresolved > 0
+        ? {
+            type: 'warning',
+            text: `Loaded "${set.name}". ${unresolved} item${unresolved === 1 ? '' : 's'} could not be resolved against the current data (see the notice at the top of the page).`,
+          }
+        : { type: 'success', text: `Loaded "${set.name}".` }
+    )
+  }
+
+  const handleStartRename = (set: SavedSet) => {
+    setRenamingId(set.id)
+    setRenameValue(set.name)
+  }
+
+  const handleRename = (id: string) => {
+    const name = renameValue.trim()
+    if (name) {
+      updateSets(sets.map((set) => (set.id === id ? { ...set, name, updatedAt: new Date().toISOString() } : set)))
+    }
+    setRenamingId(null)
+  }
+
+  const handleDuplicate = (set: SavedSet) => {
+    updateSets([...sets, duplicateSavedSet(set, sets.map((s) => s.name))])
+  }
+
+  const handleDelete = (set: SavedSet) => {
+    if (!window.confirm(`Delete the saved set "${set.name}"?`)) return
+    updateSets(sets.filter((s) => s.id !== set.id))
+    setStatus({ type: 'success', text: `Deleted "${set.name}".` })
+  }
+
+  const handleExport = (toExport: SavedSet[], filename: string) => {
+    downloadBlob(new Blob([savedSetsToJson(toExport)], { type: 'application/json' }), `${filename}.json`)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    try {
+      const imported = parseSavedSetsJson(await file.text())
+      updateSets([...sets, ...imported])
+      setStatus({
+        type: 'success',
+        text: `Imported ${imported.length} set${imported.length === 1 ? '' : 's'} from ${file.name}.`,
+      })
+    } catch (err) {
+      console.error('Error importing query sets:', err)
+      setStatus({ type: 'error', text: `${file.name} is not a valid saved query set file.` })
+    }
+  }
+
+  return (
+    <div>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        Saved sets are stored in this browser. Loading a set replaces the current basket and looks up every
+        jurisdiction again in the currently loaded data.
+      </p>
+
+      <FormGroup>
+        <Label htmlFor="saved-set-name">Save current basket as</Label>
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+          <TextInput
+            id="saved-set-name"
+            name="saved-set-name"
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g. Service-area counties"
+            style={{ marginTop: 0 }}
+          />
+          <Button type="button" onClick={handleSave} disabled={!newName.trim() || basketEntries.length === 0}>
+            Save
+          </Button>
+        </div>
+        {basketEntries.length === 0 && <div className="usa-hint">Add selections to the basket to save them.</div>}
+      </FormGroup>
+
+      {status && (
+        <div style={{ marginTop: '1rem' }}>
+          <Alert type={status.type} headingLevel="h4" slim>
+            {status.text}
+          </Alert>
+        </div>
+      )}
+
+      {sets.length > 0 ? (
+        <div style={{ overflowX: 'auto', marginTop: '1.5rem' }}>
+          <Table bordered fullWidth>
+            <thead>
+              <tr>
+                <th scope="col">Name</th>
+                <th scope="col" style={{ textAlign: 'right' }}>Jurisdictions</th>
+                <th scope="col">Last updated</th>
+                <th scope="col">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sets.map((set) => (
+                <tr key={set.id}>
+                  <td>
+                    {renamingId === set.id ? (
+                      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                        <Label htmlFor={`rename-${set.id}`} srOnly>
+                          New name
+                        </Label>
+                        <TextInput
+                          id={`rename-${set.id}`}
+                          name={`rename-${set.id}`}
+                          type="text"
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          style={{ marginTop: 0 }}
+                        />
+                        <Button type="button" unstyled onClick={() => handleRename(set.id)} style={linkButtonStyle}>
+                          Done
+                        </Button>
+                      </div>
+                    ) : (
+                      <strong>{set.name}</strong>
+                    )}
+                  </td>
+                  <td style={{ textAlign: 'right' }}>{countJurisdictions(set)}</td>
+                  <td style={{ fontSize: '0.94rem' }}>{new Date(set.updatedAt).toLocaleDateString()}</td>
+                  <td>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.75rem' }}>
+                      <Button type="button" unstyled onClick={() => handleLoad(set)} style={linkButtonStyle}>
+                        Load
+                      </Button>
+                      <Button type="button" unstyled onClick={() => handleStartRename(set)} style={linkButtonStyle}>
+                        Rename
+                      </Button>
+                      <Button type="button" unstyled onClick={() => handleDuplicate(set)} style={linkButtonStyle}>
+                        Duplicate
+                      </Button>
+                      <Button
+                        type="button"
+                        unstyled
+                        onClick={() => handleExport([set], toFilename(set.name))}
+                        style={linkButtonStyle}
+                      >
+                        Export
+                      </Button>
+                      <Button
+                        type="button"
+                        unstyled
+                        onClick={() => handleDelete(set)}
+                        style={{ ...linkButtonStyle, color: '#b50909' }}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        </div>
+      ) : (
+        <p style={{ color: '#71767a' }}>No saved sets yet.</p>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2rem', alignItems: 'flex-end', marginTop: '1rem' }}>
+        <div>
+          <Label htmlFor="saved-sets-import">Import sets from JSON</Label>
+          <FileInput id="saved-sets-import" name="saved-sets-import" accept=".json,application/json" onChange={handleImport} />
+        </div>
+        {sets.length > 0 && (
+          <Button type="button" outline onClick={() => handleExport(sets, 'saved-query-sets')}>
+            Export all sets
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default SavedSetsPanel
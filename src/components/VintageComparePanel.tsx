@@ -0,0 +1,221 @@
+import { useState } from 'react'
+import { Alert, Button, ButtonGroup, FormGroup, Label, Select, Table } from '@trussworks/react-uswds'
+import { exportTable } from '../export'
+import type { ExportFormat } from '../exportFormats'
+import { formatMetricValue, getLatestPopulationMetric, getMetricLabel, groupMetricsByCategory } from '../metrics'
+import type { VintageSource } from '../selections'
+import type { JurisdictionType, MetricType } from '../types'
+import { formatNumber, getTypeLabel } from '../utils'
+import { compareVintages, comparisonToExportTable, getComparableMetrics } from '../vintageCompare'
+import type { VintageComparisonRow } from '../vintageCompare'
+import { getVintageLabel } from '../vintages'
+import type { VintageManifest } from '../vintages'
+
+interface VintageComparePanelProps {
+  manifest: VintageManifest
+  // Vintages loaded so far, by id
+  datasets: Record<string, VintageSource>
+  // Distinct jurisdictions in the basket
+  jurisdictions: { type: JurisdictionType; code: string }[]
+  // Loads a vintage that hasn't been used yet
+  onLoadVintage: (id: string) => Promise<VintageSource>
+}
+
+interface Comparison {
+  fromId: string
+  toId: string
+  metric: MetricType
+  rows: VintageComparisonRow[]
+}
+
+function formatRevision(metric: MetricType, value: number | null): string {
+  if (value === null) return '—'
+  return `${value > 0 ? '+' : ''}${formatMetricValue(metric, value)}`
+}
+
+function VintageComparePanel({ manifest, datasets, jurisdictions, onLoadVintage }: VintageComparePanelProps) {
+  const ids = manifest.vintages.map((v) => v.id)
+  const [fromId, setFromId] = useState(ids.length > 1 ? ids[ids.length - 2] : ids[0])
+  const [toId, setToId] = useState(ids[ids.length - 1])
+  // '' until the user picks one: the latest population estimate
+  const [metric, setMetric] = useState<MetricType>('')
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [comparing, setComparing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (manifest.vintages.length < 2) {
+    return (
+      <Alert type="info" headingLevel="h3" slim>
+        Only one data vintage ({manifest.vintages[0].label}) is available. Add another release to
+        public/data/vintages.json to compare estimates across vintages.
+      </Alert>
+    )
+  }
+
+  // Until both vintages are loaded, offer the metrics of whichever is
+  const fromData = datasets[fromId]
+  const toData = datasets[toId]
+  const metricGroups =
+    fromData || toData
+      ? groupMetricsByCategory(getComparableMetrics(fromData || toData, toData || fromData))
+      : []
+  const activeMetric = metric || getLatestPopulationMetric(metricGroups.flatMap((group) => group.metrics))
+
+  const handleCompare = async () => {
+    setComparing(true)
+    setError(null)
+    try {
+      const [from, to] = await Promise.all([onLoadVintage(fromId), onLoadVintage(toId)])
+      // Neither vintage was loaded when the default was picked
+      const compared = activeMetric || getLatestPopulationMetric(getComparableMetrics(from, to))
+      setComparison({ fromId, toId, metric: compared, rows: compareVintages(jurisdictions, compared, from, to) })
+    } catch (err) {
+      console.error('Error comparing vintages:', err)
+      setError('The data files for one of these vintages could not be loaded.')
+    } finally {
+      setComparing(false)
+    }
+  }
+
+  const handleExport = (format: ExportFormat) => {
+    if (!comparison) return
+    const table = comparisonToExportTable(
+      comparison.rows,
+      getMetricLabel(comparison.metric),
+      getVintageLabel(manifest, comparison.fromId),
+      getVintageLabel(manifest, comparison.toId)
+    )
+    exportTable(table, format, `vintage-comparison-${comparison.fromId}-${comparison.toId}`).catch((err) => {
+      console.error('Error exporting comparison:', err)
+    })
+  }
+
+  return (
+    <div>
+      <p className="usa-hint" style={{ marginTop: 0 }}>
+        Each Census release revises earlier years. Compare the jurisdictions in your basket across two vintages to
+        see how an estimate changed.
+      </p>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0 1.5rem' }}>
+        <FormGroup>
+          <Label htmlFor="compare-from">Earlier vintage</Label>
+          <Select id="compare-from" name="compare-from" value={fromId} onChange={(e) => setFromId(e.target.value)}>
+            {manifest.vintages.map((v) => (
+              <option key={v.id} value={v.id}>
+                {v.label}
+              </option>
+            ))}
+          </Select>
+        </FormGroup>
+        <FormGroup>
+          <Label htmlFor="compare-to">Later vintage</Label>
+          <Select id="compare-to" name="compare-to" value={toId} onChange={(e) => setToId(e.target.value)}>
+            {manifest.vintages.map((v) => (
+              <option key={v.id} value={v.id}>
+                {v.label}
+              </option>
+            ))}
+          </Select>
+        </FormGroup>
+        <FormGroup>
+          <Label htmlFor="compare-metric">Metric</Label>
+          <Select id="compare-metric" name="compare-metric" value={activeMetric} onChange={(e) => setMetric(e.target.value)}>
+            {metricGroups.map((group) => (
+              <optgroup key={group.category} label={group.label}>
+                {group.metrics.map((def) => (
+                  <option key={def.id} value={def.id}>
+                    {def.label}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </Select>
+        </FormGroup>
+      </div>
+
+      <div style={{ marginTop: '1.5rem' }}>
+        <Button
+          type="button"
+          onClick={handleCompare}
+          disabled={comparing || fromId === toId || jurisdictions.length === 0}
+        >
+          {comparing ? 'Loading vintages…' : `Compare ${formatNumber(jurisdictions.length)} jurisdictions`}
+        </Button>
+        {jurisdictions.length === 0 && (
+          <p className="usa-hint">Add jurisdictions to the basket to compare them.</p>
+        )}
+      </div>
+
+      {error && (
+        <div style={{ marginTop: '1rem' }}>
+          <Alert type="error" headingLevel="h3" slim>
+            {error}
+          </Alert>
+        </div>
+      )}
+
+      {comparison && (
+        <div style={{ marginTop: '1.5rem' }}>
+          <div style={{ overflowX: 'auto' }}>
+            <Table bordered fullWidth>
+              <caption>
+                {getMetricLabel(comparison.metric)}: {getVintageLabel(manifest, comparison.fromId)} vs.{' '}
+                {getVintageLabel(manifest, comparison.toId)}
+              </caption>
+              <thead>
+                <tr>
+                  <th scope="col">Jurisdiction</th>
+                  <th scope="col">{getVintageLabel(manifest, comparison.fromId)}</th>
+                  <th scope="col">{getVintageLabel(manifest, comparison.toId)}</th>
+                  <th scope="col">Revision</th>
+                  <th scope="col">Revision (%)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.rows.map((row) => (
+                  <tr key={`${row.type}-${row.code}`}>
+                    <td>
+                      <strong>{row.name}</strong>
+                      <span style={{ color: '#71767a', fontSize: '0.88rem' }}>
+                        {' '}
+                        {getTypeLabel(row.type)}, {row.stateName}
+                      </span>
+                    </td>
+                    <td style={{ textAlign: 'right' }}>
+                      {row.from === null ? '—' : formatMetricValue(comparison.metric, row.from)}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>
+                      {row.to === null ? '—' : formatMetricValue(comparison.metric, row.to)}
+                    </td>
+                    <td style={{ textAlign: 'right', fontWeight: 600 }}>
+                      {formatRevision(comparison.metric, row.revision)}
+                    </td>
+                    <td style={{ textAlign: 'right' }}>
+                      {row.percentRevision === null
+                        ? '—'
+                        : `${row.percentRevision > 0 ? '+' : ''}${formatNumber(row.percentRevision, 2)}%`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+          <ButtonGroup type="default">
+            <Button type="button" outline onClick={() => handleExport('csv')}>
+              Download CSV
+            </Button>
+            <Button type="button" outline onClick={() => handleExport('xlsx')}>
+              Download Excel
+            </Button>
+            <Button type="button" outline onClick={() => handleExport('json')}>
+              Download JSON
+            </Button>
+          </ButtonGroup>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default VintageComparePanel
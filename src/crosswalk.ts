@@ -0,0 +1,238 @@
+import type { JurisdictionType } from './types'
+import { getTypeLabel } from './utils'
+
+// Codes the Census Bureau has retired, and what replaced them, so saved sets,
+// shared links and imported lists made with older data still resolve. Only
+// county codes are covered; place codes retired by incorporations, mergers and
+// disincorporations are out of scope and are reported as not found.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export type CodeChangeKind = 'renamed' | 'merged' | 'split' | 'replaced'
+
+export interface CodeSuccessor {
+  code: string
+  name: string
+  // Approximate share of the retired jurisdiction's population now in this
+  // successor (0–1), from the census before the change; null where the
+  // split isn't bundled
+  share: number | null
+}
+
+export interface CodeChange {
+  type: JurisdictionType
+  // The retired code and its last name
+  code: string
+  name: string
+  stateName: string
+  // Year the change took effect in the estimates
+  year: number
+  kind: CodeChangeKind
+  successors: CodeSuccessor[]
+}
+
+// ========================================================
+// CROSSWALK
+// ========================================================
+
+// Connecticut's eight counties, replaced in 2022 by nine planning regions.
+// Only Middlesex lies wholly inside one region; the others' shares need the
+// town-level relationship files and aren't bundled. Most regions also take in
+// towns of another county, so the listed regions add up to more than the county.
+const CONNECTICUT_COUNTIES = [
+  {
+    code: '09001',
+    name: 'Fairfield County',
+    successors: [
+      { code: '09120', name: 'Greater Bridgeport Planning Region', share: null },
+      { code: '09190', name: 'Western Connecticut Planning Region', share: null },
+      { code: '09140', name: 'Naugatuck Valley Planning Region', share: null },
+    ],
+  },
+  {
+    code: '09003',
+    name: 'Hartford County',
+    successors: [
+      { code: '09110', name: 'Capitol Planning Region', share: null },
+      { code: '09140', name: 'Naugatuck Valley Planning Region', share: null },
+      { code: '09160', name: 'Northwest Hills Planning Region', share: null },
+    ],
+  },
+  {
+    code: '09005',
+    name: 'Litchfield County',
+    successors: [
+      { code: '09160', name: 'Northwest Hills Planning Region', share: null },
+      { code: '09140', name: 'Naugatuck Valley Planning Region', share: null },
+      { code: '09190', name: 'Western Connecticut Planning Region', share: null },
+    ],
+  },
+  {
+    code: '09007',
+    name: 'Middlesex County',
+    successors: [{ code: '09130', name: 'Lower Connecticut River Valley Planning Region', share: 1 }],
+  },
+  {
+    code: '09009',
+    name: 'New Haven County',
+    successors: [
+      { code: '09170', name: 'South Central Connecticut Planning Region', share: null },
+      { code: '09140', name: 'Naugatuck Valley Planning Region', share: null },
+    ],
+  },
+  {
+    code: '09011',
+    name: 'New London County',
+    successors: [
+      { code: '09180', name: 'Southeastern Connecticut Planning Region', share: null },
+      { code: '09130', name: 'Lower Connecticut River Valley Planning Region', share: null },
+      { code: '09150', name: 'Northeastern Connecticut Planning Region', share: null },
+    ],
+  },
+  {
+    code: '09013',
+    name: 'Tolland County',
+    successors: [
+      { code: '09110', name: 'Capitol Planning Region', share: null },
+      { code: '09150', name: 'Northeastern Connecticut Planning Region', share: null },
+    ],
+  },
+  {
+    code: '09015',
+    name: 'Windham County',
+    successors: [
+      { code: '09150', name: 'Northeastern Connecticut Planning Region', share: null },
+      { code: '09180', name: 'Southeastern Connecticut Planning Region', share: null },
+    ],
+  },
+].map((county): CodeChange => ({ ...county, type: 'county', stateName: 'Connecticut', year: 2022, kind: 'replaced' }))
+
+export const CODE_CHANGES: CodeChange[] = [
+  ...CONNECTICUT_COUNTIES,
+  {
+    type: 'county',
+    code: '02261',
+    name: 'Valdez-Cordova Census Area',
+    stateName: 'Alaska',
+    year: 2019,
+    kind: 'split',
+    // 2020 Census: 7,102 and 2,617
+    successors: [
+      { code: '02063', name: 'Chugach Census Area', share: 0.731 },
+      { code: '02066', name: 'Copper River Census Area', share: 0.269 },
+    ],
+  },
+  {
+    type: 'county',
+    code: '02270',
+    name: 'Wade Hampton Census Area',
+    stateName: 'Alaska',
+    year: 2015,
+    kind: 'renamed',
+    successors: [{ code: '02158', name: 'Kusilvak Census Area', share: 1 }],
+  },
+  {
+    type: 'county',
+    code: '46113',
+    name: 'Shannon County',
+    stateName: 'South Dakota',
+    year: 2015,
+    kind: 'renamed',
+    successors: [{ code: '46102', name: 'Oglala Lakota County', share: 1 }],
+  },
+  {
+    type: 'county',
+    code: '51515',
+    name: 'Bedford city',
+    stateName: 'Virginia',
+    year: 2013,
+    kind: 'merged',
+    successors: [{ code: '51019', name: 'Bedford County', share: 1 }],
+  },
+]
+
+const CHANGES_BY_KEY = new Map(CODE_CHANGES.map((change) => [`${change.type}-${change.code}`, change]))
+
+/**
+ * The change that retired a code, or null if the code was never retired.
+ */
+export function findCodeChange(type: JurisdictionType, code: string): CodeChange | null {
+  return CHANGES_BY_KEY.get(`${type}-${code}`) || null
+}
+
+/**
+ * Changes that retired other codes in favor of this one, e.g. the Connecticut
+ * counties a planning region took over from.
+ */
+export function findPredecessors(type: JurisdictionType, code: string): CodeChange[] {
+  return CODE_CHANGES.filter(
+    (change) => change.type === type && change.successors.some((successor) => successor.code === code)
+  )
+}
+
+/**
+ * Group name for the successors of a split or replacement, so the basket's
+ * group subtotal stands in for the retired jurisdiction; null for other kinds
+ * of change. Successors that also cover other jurisdictions (the Connecticut
+ * regions) are named as an over-count, since their subtotal is larger.
+ */
+export function getSuccessorGroup(change: CodeChange): string | null {
+  if (change.kind === 'split') return `${change.name} (${change.code})`
+  if (change.kind === 'replaced' && change.successors.length > 1) {
+    return `${change.name} (${change.code}), over-count: regions extend beyond it`
+  }
+  return null
+}
+
+// ========================================================
+// NOTICES
+// ========================================================
+
+/**
+ * Drops repeats, since each metric of a retired code is redirected separately.
+ */
+export function uniqueCodeChanges(changes: CodeChange[]): CodeChange[] {
+  return Array.from(new Map(changes.map((change) => [`${change.type}-${change.code}`, change])).values())
+}
+
+function joinNames(names: string[]): string {
+  if (names.length <= 2) return names.join(' and ')
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+}
+
+/**
+ * One sentence for the notice shown when a retired code is redirected, e.g.
+ * "Wade Hampton Census Area, Alaska (02270) was renamed Kusilvak Census
+ * Area (02158) in 2015."
+ */
+export function describeCodeChange(change: CodeChange): string {
+  const retired = `${change.name}, ${change.stateName} (${change.code})`
+  const successors = change.successors.map((successor, i) => {
+    const share =
+      change.kind === 'split' && successor.share !== null
+        ? `, about ${Math.round(successor.share * 100)}%${i === 0 ? ' of its population' : ''}`
+        : ''
+    return `${successor.name} (${successor.code}${share})`
+  })
+  const names = joinNames(successors)
+
+  switch (change.kind) {
+    case 'renamed':
+      return `${retired} was renamed ${names} in ${change.year}.`
+    case 'merged':
+      return `${retired} was merged into ${names} in ${change.year}; figures for it are now part of that ${getTypeLabel(change.type).toLowerCase()}'s.`
+    case 'split':
+      return `${retired} was split in ${change.year} into ${names}.`
+    case 'replaced': {
+      const replaced = `${retired} was replaced in ${change.year} by ${names}.`
+      if (change.successors.length === 1) return replaced
+      // Regions that reach into other counties: their sum is more than the old county
+      return (
+        `${replaced} They also cover parts of other counties, so their total over-counts it; ` +
+        "how its population divides between them isn't bundled."
+      )
+    }
+  }
+}
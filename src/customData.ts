@@ -0,0 +1,233 @@
+import { indexData } from './dataIndex'
+import type { FileStatus, LoadedData, ParsedCsv } from './dataIndex'
+import { addSkip, combineDiagnostics, listSkips } from './diagnostics'
+import type { SkipTally, TableDiagnostics } from './diagnostics'
+import { METRIC_CATALOG, METRIC_CATEGORIES } from './metrics'
+import type { MetricCategory } from './metrics'
+import { findState } from './stateCodes'
+import type { CensusRow, CountyRow, PlaceRow, StateOption } from './types'
+import { padCounty, padPlace } from './utils'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+// What each row of the file describes; 'sumlev' reads it from a SUMLEV column
+export type CustomRowLevel = 'county' | 'place' | 'state' | 'sumlev'
+
+export interface ColumnMapping {
+  level: CustomRowLevel
+  // State FIPS code, USPS abbreviation or name; may be '' when the code columns hold full GEOIDs
+  stateColumn: string
+  // 3-digit county code or full 5-digit FIPS, read for county rows
+  countyColumn: string
+  // 5-digit place code or full 7-digit GEOID, read for place rows
+  placeColumn: string
+  nameColumn: string
+  sumlevColumn: string
+  // File column → Census column it holds, e.g. { 'Pop 2025': 'POPESTIMATE2025' }
+  metricColumns: Record<string, string>
+}
+
+export interface SkippedRow {
+  // 1-based line in the file, counting the header
+  line: number
+  reason: string
+  // The offending value, if there is one
+  value?: string
+}
+
+export interface CustomDataResult {
+  data: LoadedData
+  counts: { places: number; counties: number; states: number }
+  skipped: SkippedRow[]
+}
+
+// A Census column that file columns can be mapped to, grouped like the metric picker
+export interface MappableColumn {
+  column: string
+  label: string
+  category: MetricCategory
+}
+
+// ========================================================
+// COLUMNS
+// ========================================================
+
+// Every source column the metric catalog reads, labelled by its plain metric
+export const MAPPABLE_COLUMNS: MappableColumn[] = METRIC_CATALOG.filter((def) => def.column).map((def) => ({
+  column: def.column!,
+  label: def.label,
+  category: def.category,
+}))
+
+export const MAPPABLE_COLUMN_GROUPS = METRIC_CATEGORIES.map((cat) => ({
+  label: cat.label,
+  columns: MAPPABLE_COLUMNS.filter((col) => col.category === cat.id),
+})).filter((group) => group.columns.length > 0)
+
+const SUMLEV_PATTERN = /^sumlev$/i
+const STATE_PATTERN = /^(state|statefp|state[ _]?fips|st|stname|state[ _]?name)$/i
+const COUNTY_PATTERN = /^(county|countyfp|county[ _]?fips|county[ _]?code|fips|geoid|code)$/i
+const PLACE_PATTERN = /^(place|placefp|place[ _]?fips|place[ _]?code|geoid)$/i
+const NAME_PATTERN = /^(name|ctyname|county[ _]?name|place[ _]?name|jurisdiction|geography)$/i
+
+/**
+ * A starting mapping from the file's headers: Census-style headers map to
+ * themselves, metric ids like "pop2025" to their column.
+ */
+export function guessColumnMapping(fields: string[]): ColumnMapping {
+  const find = (pattern: RegExp) => fields.find((field) => pattern.test(field.trim())) || ''
+  const sumlevColumn = find(SUMLEV_PATTERN)
+  // Census files have both STATE (the code) and STNAME; prefer the code
+  const stateColumn = fields.find((field) => /^state$/i.test(field.trim())) || find(STATE_PATTERN)
+  const countyColumn = find(COUNTY_PATTERN)
+  const placeColumn = find(PLACE_PATTERN)
+
+  const metricColumns: Record<string, string> = {}
+  fields.forEach((field) => {
+    const key = field.trim().toUpperCase()
+    const def = METRIC_CATALOG.find((d) => d.column && (d.column === key || d.id.toUpperCase() === key))
+    if (def?.column) metricColumns[field] = def.column
+  })
+
+  return {
+    level: sumlevColumn ? 'sumlev' : placeColumn && !/county/i.test(countyColumn) ? 'place' : 'county',
+    stateColumn,
+    countyColumn,
+    placeColumn,
+    nameColumn: find(NAME_PATTERN),
+    sumlevColumn,
+    metricColumns,
+  }
+}
+
+// ========================================================
+// MAPPING
+// ========================================================
+
+const LEVEL_SUMLEVS: Record<Exclude<CustomRowLevel, 'sumlev'>, string> = {
+  county: '050',
+  place: '162',
+  state: '040',
+}
+
+// 160 (all places) is accepted for files that don't use the 162 split
+const PLACE_SUMLEVS = new Set(['160', '162'])
+
+// Strips spreadsheet wrapping (="01001") and thousands separators from numbers
+function cleanValue(value: string | undefined): string {
+  const cell = (value || '').trim().replace(/^="(.*)"$/, '$1')
+  return /^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(cell) ? cell.replace(/,/g, '') : cell
+}
+
+function digitsOnly(value: string): string | null {
+  return /^\d+$/.test(value) ? value : null
+}
+
+/**
+ * Turns a user's file into rows shaped like the Census place and county files
+ * and indexes them the same way, so every selection and Results feature works
+ * on it. Rows that can't be placed are skipped with a reason. `states` are
+ * used to read state codes, abbreviations and names.
+ */
+export function applyColumnMapping(
+  parsed: ParsedCsv,
+  mapping: ColumnMapping,
+  states: StateOption[],
+  fileName: string
+): CustomDataResult {
+  const placeRows: PlaceRow[] = []
+  const countyRows: CountyRow[] = []
+  const skipped: SkippedRow[] = []
+  const metricEntries = Object.entries(mapping.metricColumns).filter(([, column]) => column)
+
+  parsed.rows.forEach((source, index) => {
+    const line = index + 2
+    const skip = (reason: string, value?: string) => skipped.push({ line, reason, value })
+
+    const sumlev =
+      mapping.level === 'sumlev'
+        ? cleanValue(source[mapping.sumlevColumn]).padStart(3, '0')
+        : LEVEL_SUMLEVS[mapping.level]
+    const level = sumlev === '040' ? 'state' : sumlev === '050' ? 'county' : PLACE_SUMLEVS.has(sumlev) ? 'place' : null
+    if (!level) return skip('Summary level is not a state, county or place', sumlev)
+
+    const name = cleanValue(source[mapping.nameColumn])
+    const rawCode = cleanValue(
+      source[level === 'place' ? mapping.placeColumn : level === 'county' ? mapping.countyColumn : '']
+    )
+    const rawState = cleanValue(source[mapping.stateColumn])
+
+    // The state comes from a full GEOID in the code column, or from the state column
+    const localLength = level === 'place' ? 5 : level === 'county' ? 3 : 0
+    const code = rawCode ? digitsOnly(rawCode) : null
+    if (level !== 'state' && !code) return rawCode ? skip('Code is not numeric', rawCode) : skip('Missing code')
+    const isFullCode = level !== 'state' && code!.length > localLength
+    const state = findState(isFullCode ? code!.slice(0, -localLength) : rawState, states)
+    if (!state) return skip('No matching state', isFullCode ? code! : rawState)
+    const localCode = level === 'state' ? '' : isFullCode ? code!.slice(-localLength) : code!
+
+    const row: CensusRow = { SUMLEV: level === 'place' ? '162' : sumlev, STATE: state.fips, STNAME: state.name }
+    metricEntries.forEach(([field, column]) => {
+      row[column] = cleanValue(source[field])
+    })
+
+    if (level === 'place') {
+      if (!name) return skip('Missing name')
+      placeRows.push({ ...row, PLACE: padPlace(localCode), NAME: name } as PlaceRow)
+    } else if (level === 'county') {
+      if (!name) return skip('Missing name')
+      countyRows.push({ ...row, COUNTY: padCounty(localCode), CTYNAME: name } as CountyRow)
+    } else {
+      countyRows.push({ ...row, COUNTY: '000', CTYNAME: name || state.name } as CountyRow)
+    }
+  })
+
+  const metricFields = Array.from(new Set(metricEntries.map(([, column]) => column)))
+  const places =
+    placeRows.length > 0
+      ? { fields: ['SUMLEV', 'STATE', 'PLACE', 'STNAME', 'NAME', ...metricFields], rows: placeRows, errors: [] }
+      : null
+  const counties =
+    countyRows.length > 0
+      ? { fields: ['SUMLEV', 'STATE', 'COUNTY', 'STNAME', 'CTYNAME', ...metricFields], rows: countyRows, errors: [] }
+      : null
+
+  // A national total summed from a handful of states would be misleading, so
+  // only a file with every state (and DC) gets one
+  const status: FileStatus = { file: fileName, source: 'user', error: null }
+  const data = indexData(places, counties, { places: status, counties: status })
+  const nationRow = data.lookups.stateLookup.size >= 51 ? data.lookups.nationRow : null
+
+  // One report for the whole file: the rows the mapping skipped plus the
+  // checks of the place and county tables built from it
+  const tally: SkipTally = new Map()
+  skipped.forEach((row) => addSkip(tally, row.reason, `Line ${row.line}${row.value ? `: "${row.value}"` : ''}`))
+  const mappingDiagnostics: TableDiagnostics = {
+    sourceRows: 0,
+    indexedRows: 0,
+    skipped: listSkips(tally),
+    parseErrors: parsed.errors,
+    duplicates: [],
+    values: [],
+  }
+  const table = data.diagnostics.reduce(
+    (combined, file) => (file.table ? combineDiagnostics(combined, file.table) : combined),
+    mappingDiagnostics
+  )
+
+  return {
+    data: {
+      ...data,
+      lookups: { ...data.lookups, nationRow },
+      diagnostics: [{ ...status, kind: 'custom', table: { ...table, sourceRows: parsed.rows.length } }],
+    },
+    counts: {
+      places: placeRows.length,
+      counties: countyRows.filter((row) => row.SUMLEV === '050').length,
+      states: countyRows.filter((row) => row.SUMLEV === '040').length,
+    },
+    skipped,
+  }
+}
@@ -0,0 +1,393 @@
+import Papa from 'papaparse'
+import { buildNationRow } from './aggregates'
+import { UNUSED_LEVEL_REASON, addSkip, checkValues, findDuplicates, listSkips } from './diagnostics'
+import type { FileDiagnostics, FileSource, ParseIssue, SkipTally, TableDiagnostics } from './diagnostics'
+import { METRIC_CATALOG, computeRate } from './metrics'
+import { indexPlaceCountyLinks, readPlaceCountyLinks } from './relationships'
+import type { PlaceCountyIndex } from './relationships'
+import type { JurisdictionLookups } from './selections'
+import { SUBCOUNTY_LEVELS, bySubcountyType, findSubcountyLevel, getSubcountyGEOID } from './subcounty'
+import type { CensusRow, CountyRow, JurisdictionType, PlaceRow, StateOption, SubcountyType } from './types'
+import { getCountyFIPS, getPlaceGEOID, getTypeLabel, padState } from './utils'
+
+// Shared by the loading worker and the build-time index step, so nothing in
+// here may touch the DOM.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface ParsedCsv<T extends CensusRow = CensusRow> {
+  fields: string[]
+  rows: T[]
+  errors: ParseIssue[]
+  // Set when read from the prebuilt index, which leaves out the summary levels the app doesn't use
+  sourceRows?: number
+  droppedLevels?: Record<string, number>
+}
+
+// Column-oriented, with numeric cells stored as JSON numbers
+export interface CompactTable {
+  // Every column of the source file, including derived ones not stored in `columns`
+  fields: string[]
+  rowCount: number
+  columns: Record<string, (string | number)[]>
+  // What the source file held before unused summary levels were dropped, for diagnostics
+  sourceRows?: number
+  droppedLevels?: Record<string, number>
+  parseErrors?: ParseIssue[]
+}
+
+// The prebuilt index written at build time. A file that was missing at build
+// time is null.
+export interface DataIndexFile {
+  version: 1
+  builtAt: string
+  places: CompactTable | null
+  counties: CompactTable | null
+}
+
+export interface LoadedData {
+  states: StateOption[]
+  placesByStateFips: Map<string, PlaceRow[]>
+  countiesByStateFips: Map<string, CountyRow[]>
+  // County subdivisions, consolidated cities and parts, per type
+  subcountiesByStateFips: Record<SubcountyType, Map<string, PlaceRow[]>>
+  lookups: JurisdictionLookups
+  // CSV headers of each file, which decide the metrics offered per jurisdiction type
+  columnsByType: Record<JurisdictionType, Set<string>>
+  // Which counties each place lies in
+  placeCounties: PlaceCountyIndex
+  diagnostics: FileDiagnostics[]
+}
+
+// How a file was obtained, recorded in its diagnostics
+export interface FileStatus {
+  file: string | null
+  source: FileSource
+  // Why the file couldn't be used; null when it loaded or the vintage has none
+  error: string | null
+}
+
+// ========================================================
+// FILES
+// ========================================================
+
+// Summary levels the app uses; everything else is dropped from the prebuilt index
+const PLACE_SUMMARY_LEVELS = new Set(['162', ...SUBCOUNTY_LEVELS.map((level) => level.sumlev)])
+const COUNTY_SUMMARY_LEVELS = new Set(['040', '050'])
+
+// Rate columns are left out of the index and recomputed from the components on
+// load; they match the published values to within 1e-7 and are a third of the file
+const RATE_DEFINITIONS = METRIC_CATALOG.filter((def) => def.kind === 'rate' && def.column)
+const DERIVED_COLUMNS = new Set(RATE_DEFINITIONS.map((def) => def.column))
+
+// ========================================================
+// PARSING
+// ========================================================
+
+/**
+ * Census publishes these files in Latin-1 (Doña Ana is byte 0xF1), but a
+ * re-saved copy may be UTF-8. Try UTF-8 strictly and fall back.
+ */
+export function decodeCsv(bytes: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes)
+  }
+}
+
+/**
+ * Parses a CSV with a header row. `columnAliases` renames headers (a vintage's
+ * file header → the name the metric catalog expects) as they are read.
+ */
+export function parseCsv<T extends CensusRow>(text: string, columnAliases: Record<string, string> = {}): ParsedCsv<T> {
+  const results = Papa.parse<T>(text, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => columnAliases[header.trim()] ?? header,
+  })
+  return {
+    fields: results.meta.fields || [],
+    rows: results.data,
+    errors: results.errors.map((error) => ({ row: error.row ?? null, message: error.message })),
+  }
+}
+
+// Numbers that survive a round trip are stored as numbers; codes like "01" stay strings
+function compactValue(value: string): string | number {
+  const number = Number(value)
+  return value !== '' && String(number) === value ? number : value
+}
+
+function compactTable(parsed: ParsedCsv, summaryLevels: Set<string>): CompactTable {
+  const droppedLevels: Record<string, number> = {}
+  const rows = parsed.rows.filter((row) => {
+    const level = row.SUMLEV ?? ''
+    if (summaryLevels.has(level)) return true
+    droppedLevels[level] = (droppedLevels[level] || 0) + 1
+    return false
+  })
+  const columns: CompactTable['columns'] = {}
+  parsed.fields.forEach((field) => {
+    if (DERIVED_COLUMNS.has(field)) return
+    columns[field] = rows.map((row) => compactValue(row[field] ?? ''))
+  })
+  return {
+    fields: parsed.fields,
+    rowCount: rows.length,
+    columns,
+    sourceRows: parsed.rows.length,
+    droppedLevels,
+    parseErrors: parsed.errors,
+  }
+}
+
+export function buildDataIndexFile(places: ParsedCsv | null, counties: ParsedCsv | null): DataIndexFile {
+  return {
+    version: 1,
+    builtAt: new Date().toISOString(),
+    places: places && compactTable(places, PLACE_SUMMARY_LEVELS),
+    counties: counties && compactTable(counties, COUNTY_SUMMARY_LEVELS),
+  }
+}
+
+export function expandTable<T extends CensusRow>(table: CompactTable): ParsedCsv<T> {
+  const stored = Object.entries(table.columns)
+  const derived = RATE_DEFINITIONS.filter(
+    (def) => def.column && table.fields.includes(def.column) && !table.columns[def.column]
+  )
+
+  const rows: T[] = []
+  for (let i = 0; i < table.rowCount; i++) {
+    const row: CensusRow = {}
+    stored.forEach(([field, values]) => {
+      row[field] = String(values[i])
+    })
+    derived.forEach((def) => {
+      const rate = computeRate(row, def)
+      row[def.column!] = rate === null ? '' : String(rate)
+    })
+    rows.push(row as T)
+  }
+  return {
+    fields: table.fields,
+    rows,
+    errors: table.parseErrors || [],
+    sourceRows: table.sourceRows,
+    droppedLevels: table.droppedLevels,
+  }
+}
+
+// ========================================================
+// INDEXING
+// ========================================================
+
+// Why rows of a summary level aren't indexed as jurisdictions
+function getLevelSkipReason(level: string | undefined): string {
+  return `${UNUSED_LEVEL_REASON} (${level || 'blank'})`
+}
+
+// Starts the skip tally of a file with the rows the prebuilt index already left out
+function startTally(parsed: ParsedCsv): SkipTally {
+  const tally: SkipTally = new Map()
+  Object.entries(parsed.droppedLevels || {}).forEach(([level, count]) => {
+    addSkip(tally, getLevelSkipReason(level), undefined, count)
+  })
+  return tally
+}
+
+function summarize(
+  parsed: ParsedCsv,
+  indexedRows: CensusRow[],
+  tally: SkipTally,
+  codes: string[],
+  describe: (row: CensusRow) => string
+): TableDiagnostics {
+  return {
+    sourceRows: parsed.sourceRows ?? parsed.rows.length,
+    indexedRows: indexedRows.length,
+    skipped: listSkips(tally),
+    parseErrors: parsed.errors,
+    duplicates: findDuplicates(codes),
+    values: checkValues(indexedRows, parsed.fields, describe),
+  }
+}
+
+const NO_FILE: FileStatus = { file: null, source: 'csv', error: null }
+
+/**
+ * Builds the state list, per-state lists and code lookups from the parsed
+ * files, with a diagnostics report for each. A missing file yields no
+ * jurisdictions of its types; `files` says where each came from and why one
+ * is missing.
+ */
+export function indexData(
+  places: ParsedCsv<PlaceRow> | null,
+  counties: ParsedCsv<CountyRow> | null,
+  files: { places: FileStatus; counties: FileStatus } = { places: NO_FILE, counties: NO_FILE }
+): LoadedData {
+  const placesData = places?.rows || []
+  const countiesData = counties?.rows || []
+
+  // Build state list from both files
+  const stateSet = new Map<string, string>()
+  placesData.forEach((row) => {
+    if (row.STNAME && row.STATE) {
+      stateSet.set(row.STATE, row.STNAME)
+    }
+  })
+  countiesData.forEach((row) => {
+    if (row.STNAME && row.STATE) {
+      stateSet.set(row.STATE, row.STNAME)
+    }
+  })
+
+  const states = Array.from(stateSet.entries())
+    .map(([fips, name]) => ({ fips: padState(fips), name }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  // Index places by state FIPS (SUMLEV 162 for incorporated places), and the
+  // file's other levels by type
+  const placesByStateFips = new Map<string, PlaceRow[]>()
+  const placeLookup = new Map<string, PlaceRow>()
+  const subcountiesByStateFips = bySubcountyType(() => new Map<string, PlaceRow[]>())
+  const subcountyLookups = bySubcountyType(() => new Map<string, PlaceRow>())
+  const placeTally: SkipTally = places ? startTally(places) : new Map()
+  const placeCodes: string[] = []
+  const indexedPlaces: PlaceRow[] = []
+  placesData.forEach((row) => {
+    if (row.SUMLEV !== '162') {
+      const level = findSubcountyLevel(row.SUMLEV)
+      if (!level) {
+        addSkip(placeTally, getLevelSkipReason(row.SUMLEV))
+        return
+      }
+      const geoid = getSubcountyGEOID(level, row)
+      if (!geoid || !row.NAME) {
+        addSkip(placeTally, `${getTypeLabel(level.type)} missing a code or NAME`, `${geoid || '?'} ${row.NAME || ''}`)
+        return
+      }
+      const byState = subcountiesByStateFips[level.type]
+      const stateFips = padState(row.STATE)
+      if (!byState.has(stateFips)) byState.set(stateFips, [])
+      byState.get(stateFips)!.push(row)
+      subcountyLookups[level.type].set(geoid, row)
+      // The same digits can be the GEOID of two levels, e.g. a township and the county part of a like-named city
+      placeCodes.push(`${geoid} (${getTypeLabel(level.type).toLowerCase()})`)
+      indexedPlaces.push(row)
+      return
+    }
+    if (!row.STATE || !row.NAME || !row.PLACE) {
+      addSkip(placeTally, 'Missing STATE, PLACE or NAME', `${row.STATE || '?'}${row.PLACE || '?'} ${row.NAME || ''}`)
+      return
+    }
+    const stateFips = padState(row.STATE)
+
+    // Add to state index
+    if (!placesByStateFips.has(stateFips)) {
+      placesByStateFips.set(stateFips, [])
+    }
+    placesByStateFips.get(stateFips)!.push(row)
+
+    // Add to lookup map (using GEOID ensures uniqueness)
+    const geoid = getPlaceGEOID(row.STATE, row.PLACE)
+    placeLookup.set(geoid, row)
+    placeCodes.push(geoid)
+    indexedPlaces.push(row)
+  })
+
+  // Index counties by state FIPS (filter to SUMLEV 050 for county-level data only)
+  const countiesByStateFips = new Map<string, CountyRow[]>()
+  const countyLookup = new Map<string, CountyRow>()
+  const stateLookup = new Map<string, CountyRow>()
+  const countyTally: SkipTally = counties ? startTally(counties) : new Map()
+  const countyCodes: string[] = []
+  const indexedCounties: CountyRow[] = []
+  countiesData.forEach((row) => {
+    // State totals (SUMLEV 040, COUNTY 000) get their own lookup
+    if (row.SUMLEV === '040') {
+      if (!row.STATE || !row.STNAME) {
+        addSkip(countyTally, 'State total missing STATE or STNAME', `${row.STATE || '?'} ${row.STNAME || ''}`)
+        return
+      }
+      const stateFips = padState(row.STATE)
+      stateLookup.set(stateFips, row)
+      countyCodes.push(stateFips)
+      indexedCounties.push(row)
+      return
+    }
+    if (row.SUMLEV !== '050') {
+      addSkip(countyTally, `${UNUSED_LEVEL_REASON} (${row.SUMLEV || 'blank'})`)
+      return
+    }
+    // Exclude state-level rows (COUNTY 000) mislabeled as counties
+    if (!row.STATE || !row.CTYNAME || !row.COUNTY || row.COUNTY === '000') {
+      addSkip(
+        countyTally,
+        'Missing STATE, CTYNAME or COUNTY (or COUNTY is 000)',
+        `${row.STATE || '?'}${row.COUNTY || '?'} ${row.CTYNAME || ''}`
+      )
+      return
+    }
+    const stateFips = padState(row.STATE)
+    if (!countiesByStateFips.has(stateFips)) {
+      countiesByStateFips.set(stateFips, [])
+    }
+    countiesByStateFips.get(stateFips)!.push(row)
+    const fips = getCountyFIPS(row.STATE, row.COUNTY)
+    countyLookup.set(fips, row)
+    countyCodes.push(fips)
+    indexedCounties.push(row)
+  })
+
+  // National total summed from the state rows
+  const countyFields = counties?.fields || []
+  const nationRow = stateLookup.size > 0 ? buildNationRow(Array.from(stateLookup.values()), countyFields) : null
+
+  // Rows are named by code and name in the examples
+  const describePlace = (row: CensusRow) => {
+    const level = findSubcountyLevel(row.SUMLEV)
+    return `${level ? getSubcountyGEOID(level, row) : getPlaceGEOID(row.STATE!, row.PLACE!)} ${row.NAME}`
+  }
+  const describeCounty = (row: CensusRow) =>
+    row.SUMLEV === '040'
+      ? `${padState(row.STATE!)} ${row.STNAME}`
+      : `${getCountyFIPS(row.STATE!, row.COUNTY!)} ${row.CTYNAME}`
+
+  const diagnostics: FileDiagnostics[] = [
+    {
+      kind: 'places',
+      ...files.places,
+      table: places && summarize(places, indexedPlaces, placeTally, placeCodes, describePlace),
+    },
+    {
+      kind: 'counties',
+      ...files.counties,
+      table: counties && summarize(counties, indexedCounties, countyTally, countyCodes, describeCounty),
+    },
+  ]
+
+  const lookups = { placeLookup, countyLookup, stateLookup, nationRow, subcountyLookups }
+  const links = readPlaceCountyLinks(placesData, places?.fields || [])
+
+  return {
+    states,
+    placesByStateFips,
+    countiesByStateFips,
+    subcountiesByStateFips,
+    lookups,
+    // State and national rows come from the county file, so they share its columns
+    columnsByType: {
+      place: new Set(places?.fields || []),
+      county: new Set(countyFields),
+      state: new Set(countyFields),
+      nation: new Set(countyFields),
+      // The other place file levels share its columns, when it has rows of them
+      ...bySubcountyType((type) => new Set(subcountyLookups[type].size > 0 ? places?.fields : [])),
+    },
+    placeCounties: indexPlaceCountyLinks(links, lookups),
+    diagnostics,
+  }
+}
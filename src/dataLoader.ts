@@ -0,0 +1,61 @@
+import type { LoadedData } from './dataIndex'
+import type { Vintage } from './vintages'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface FileProgress {
+  file: string
+  stage: 'downloading' | 'parsing' | 'done'
+  loaded: number
+  // Content-Length when the server sends one
+  total: number | null
+}
+
+export type WorkerRequest = { baseUrl: string; vintage: Vintage }
+
+export type WorkerMessage =
+  | { type: 'progress'; progress: FileProgress }
+  | { type: 'done'; data: LoadedData }
+  | { type: 'error'; message: string }
+
+// ========================================================
+// LOADING
+// ========================================================
+
+/**
+ * Downloads, parses and indexes one vintage's data files in a Web Worker so the page
+ * stays responsive. The worker posts back the finished Maps; structured
+ * cloning keeps the rows shared between the per-state lists and the lookups.
+ */
+export function loadData(
+  baseUrl: string,
+  vintage: Vintage,
+  onProgress: (progress: FileProgress) => void
+): Promise<LoadedData> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress(message.progress)
+        return
+      }
+      worker.terminate()
+      if (message.type === 'done') {
+        resolve(message.data)
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'Data worker failed'))
+    }
+
+    const request: WorkerRequest = { baseUrl, vintage }
+    worker.postMessage(request)
+  })
+}
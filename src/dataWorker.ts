@@ -0,0 +1,128 @@
+import { decodeCsv, expandTable, indexData, parseCsv } from './dataIndex'
+import type { DataIndexFile, FileStatus, ParsedCsv } from './dataIndex'
+import type { FileProgress, WorkerMessage, WorkerRequest } from './dataLoader'
+import type { CountyRow, PlaceRow } from './types'
+import { getDataIndexFile } from './vintages'
+import type { Vintage } from './vintages'
+
+function post(message: WorkerMessage) {
+  self.postMessage(message)
+}
+
+function report(file: string, stage: FileProgress['stage'], loaded = 0, total: number | null = null) {
+  post({ type: 'progress', progress: { file, stage, loaded, total } })
+}
+
+// Reads the response body in chunks so download progress can be reported
+async function download(url: string, file: string): Promise<Uint8Array> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`${file}: HTTP ${response.status}`)
+  }
+  // Dev servers and single-page hosts answer missing files with the app's HTML page
+  if (response.headers.get('Content-Type')?.includes('text/html')) {
+    throw new Error(`${file}: not found`)
+  }
+
+  const total = Number(response.headers.get('Content-Length')) || null
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer())
+    report(file, 'downloading', bytes.length, total)
+    return bytes
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let loaded = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loaded += value.length
+    report(file, 'downloading', loaded, total)
+  }
+
+  const bytes = new Uint8Array(loaded)
+  let offset = 0
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  })
+  return bytes
+}
+
+// The prebuilt index; null if this deployment doesn't have one
+async function loadIndexFile(baseUrl: string, vintage: Vintage): Promise<DataIndexFile | null> {
+  const file = getDataIndexFile(vintage)
+  try {
+    const bytes = await download(`${baseUrl}data/${file}`, file)
+    report(file, 'parsing')
+    const index = JSON.parse(new TextDecoder().decode(bytes)) as DataIndexFile
+    if (index.version !== 1) return null
+    report(file, 'done')
+    return index
+  } catch (err) {
+    console.warn('Prebuilt data index unavailable, parsing the CSV files instead:', err)
+    return null
+  }
+}
+
+async function loadCsv<T extends PlaceRow | CountyRow>(
+  baseUrl: string,
+  vintage: Vintage,
+  file: string
+): Promise<ParsedCsv<T>> {
+  const bytes = await download(`${baseUrl}data/${file}`, file)
+  report(file, 'parsing', bytes.length, bytes.length)
+  const parsed = parseCsv<T>(decodeCsv(bytes), vintage.columnAliases)
+  report(file, 'done', bytes.length, bytes.length)
+  return parsed
+}
+
+/**
+ * Reads one of a vintage's files from the prebuilt index, or from its CSV when
+ * the index doesn't have it. A file that can't be loaded comes back as null
+ * with the reason, so the other file can still be used.
+ */
+async function loadTable<T extends PlaceRow | CountyRow>(
+  baseUrl: string,
+  vintage: Vintage,
+  kind: 'places' | 'counties',
+  index: DataIndexFile | null
+): Promise<{ parsed: ParsedCsv<T> | null; status: FileStatus }> {
+  const file = vintage.files[kind]
+  if (!file) return { parsed: null, status: { file, source: 'csv', error: null } }
+
+  const table = index?.[kind]
+  if (table) return { parsed: expandTable<T>(table), status: { file, source: 'index', error: null } }
+
+  try {
+    return { parsed: await loadCsv<T>(baseUrl, vintage, file), status: { file, source: 'csv', error: null } }
+  } catch (err) {
+    console.warn(`Could not load ${file}:`, err)
+    return { parsed: null, status: { file, source: 'csv', error: err instanceof Error ? err.message : String(err) } }
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const { baseUrl, vintage } = event.data
+  try {
+    const index = await loadIndexFile(baseUrl, vintage)
+    const [places, counties] = await Promise.all([
+      loadTable<PlaceRow>(baseUrl, vintage, 'places', index),
+      loadTable<CountyRow>(baseUrl, vintage, 'counties', index),
+    ])
+
+    // One file is enough to work with; neither is an error
+    if (!places.parsed && !counties.parsed) {
+      const reasons = [places.status.error, counties.status.error].filter(Boolean)
+      throw new Error(`No data files could be loaded${reasons.length > 0 ? ` (${reasons.join('; ')})` : ''}`)
+    }
+    post({
+      type: 'done',
+      data: indexData(places.parsed, counties.parsed, { places: places.status, counties: counties.status }),
+    })
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+})
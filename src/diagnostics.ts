@@ -0,0 +1,181 @@
+import { METRIC_CATALOG } from './metrics'
+import type { CensusRow } from './types'
+
+// Data quality checks run while the files are indexed. DOM-free, like dataIndex.ts.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+// A problem PapaParse reported, such as a row with too many fields
+export interface ParseIssue {
+  // 0-based data row, when PapaParse knows it
+  row: number | null
+  message: string
+}
+
+// Rows left out of the index for one reason
+export interface SkipCount {
+  reason: string
+  count: number
+  // A few of the affected rows, described by code and name
+  examples: string[]
+}
+
+// Metric column with blank or non-numeric cells among the indexed rows
+export interface ValueIssue {
+  column: string
+  missing: number
+  nonNumeric: number
+  examples: string[]
+}
+
+export interface DuplicateCode {
+  code: string
+  count: number
+}
+
+export interface TableDiagnostics {
+  // Data rows in the file, before any were left out
+  sourceRows: number
+  indexedRows: number
+  skipped: SkipCount[]
+  parseErrors: ParseIssue[]
+  // Codes that appear on more than one row; only the last row is used
+  duplicates: DuplicateCode[]
+  values: ValueIssue[]
+}
+
+// Where a file's rows came from
+export type FileSource = 'index' | 'csv' | 'user'
+
+export interface FileDiagnostics {
+  kind: 'places' | 'counties' | 'custom'
+  // null when the vintage has no file of this kind
+  file: string | null
+  source: FileSource
+  // Why the file couldn't be used; null when it loaded
+  error: string | null
+  table: TableDiagnostics | null
+}
+
+// ========================================================
+// COLLECTING
+// ========================================================
+
+const EXAMPLE_LIMIT = 5
+
+// Rows of summary levels the app doesn't offer are expected, not a problem
+export const UNUSED_LEVEL_REASON = 'Summary level not used by this tool'
+
+export function isExpectedSkip(reason: string): boolean {
+  return reason.startsWith(UNUSED_LEVEL_REASON)
+}
+
+// Metric source columns, the only ones whose values are checked
+const METRIC_COLUMNS = new Set(METRIC_CATALOG.flatMap((def) => (def.column ? [def.column] : [])))
+
+// Rows left out of the index, keyed by reason
+export type SkipTally = Map<string, SkipCount>
+
+/**
+ * Counts a skipped row under its reason, keeping a few examples of each.
+ */
+export function addSkip(tally: SkipTally, reason: string, example?: string, count = 1): void {
+  let entry = tally.get(reason)
+  if (!entry) {
+    entry = { reason, count: 0, examples: [] }
+    tally.set(reason, entry)
+  }
+  entry.count += count
+  if (example && entry.examples.length < EXAMPLE_LIMIT) entry.examples.push(example)
+}
+
+// Most common reason first
+export function listSkips(tally: SkipTally): SkipCount[] {
+  return Array.from(tally.values()).sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Counts codes seen more than once, given every code in index order.
+ */
+export function findDuplicates(codes: string[]): DuplicateCode[] {
+  const counts = new Map<string, number>()
+  codes.forEach((code) => counts.set(code, (counts.get(code) || 0) + 1))
+  return Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([code, count]) => ({ code, count }))
+}
+
+/**
+ * Finds blank and non-numeric cells in the metric columns of the indexed
+ * rows. `describe` names a row for the examples.
+ */
+export function checkValues<T extends CensusRow>(
+  rows: T[],
+  fields: string[],
+  describe: (row: T) => string
+): ValueIssue[] {
+  const columns = fields.filter((field) => METRIC_COLUMNS.has(field))
+
+  return columns
+    .map((column) => {
+      const issue: ValueIssue = { column, missing: 0, nonNumeric: 0, examples: [] }
+      rows.forEach((row) => {
+        const raw = row[column]?.trim()
+        if (!raw) {
+          issue.missing++
+        } else if (!Number.isFinite(Number(raw))) {
+          issue.nonNumeric++
+        } else {
+          return
+        }
+        if (issue.examples.length < EXAMPLE_LIMIT) issue.examples.push(`${describe(row)}: "${raw ?? ''}"`)
+      })
+      return issue
+    })
+    .filter((issue) => issue.missing + issue.nonNumeric > 0)
+}
+
+/**
+ * Adds up the checks of two tables, for a user file split into places and counties.
+ */
+export function combineDiagnostics(a: TableDiagnostics, b: TableDiagnostics): TableDiagnostics {
+  const tally: SkipTally = new Map()
+  ;[...a.skipped, ...b.skipped].forEach((skip) => {
+    addSkip(tally, skip.reason, undefined, skip.count)
+    skip.examples.forEach((example) => addSkip(tally, skip.reason, example, 0))
+  })
+
+  return {
+    sourceRows: a.sourceRows + b.sourceRows,
+    indexedRows: a.indexedRows + b.indexedRows,
+    skipped: listSkips(tally),
+    parseErrors: [...a.parseErrors, ...b.parseErrors],
+    duplicates: [...a.duplicates, ...b.duplicates],
+    values: [...a.values, ...b.values],
+  }
+}
+
+// ========================================================
+// SUMMARY
+// ========================================================
+
+/**
+ * Number of problems worth pointing out: a missing file, parse errors,
+ * unexpected skipped rows, duplicates and bad values.
+ */
+export function countIssues(files: FileDiagnostics[]): number {
+  return files.reduce((total, file) => {
+    if (file.error) return total + 1
+    if (!file.table) return total
+    const { skipped, parseErrors, duplicates, values } = file.table
+    return (
+      total +
+      skipped.filter((skip) => !isExpectedSkip(skip.reason)).length +
+      parseErrors.length +
+      duplicates.length +
+      values.length
+    )
+  }, 0)
+}
@@ -0,0 +1,84 @@
+import { tableToCsv, tableToJson, tableToXlsx } from './exportFormats'
+import type { ExportFormat, ExportTable } from './exportFormats'
+
+// ========================================================
+// DOWNLOAD
+// ========================================================
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoking right after the click can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export async function exportTable(table: ExportTable, format: ExportFormat, baseName: string): Promise<void> {
+  const filename = `${baseName}.${format}`
+
+  if (format === 'csv') {
+    downloadBlob(new Blob([tableToCsv(table)], { type: 'text/csv;charset=utf-8' }), filename)
+  } else if (format === 'json') {
+    downloadBlob(new Blob([tableToJson(table)], { type: 'application/json' }), filename)
+  } else {
+    downloadBlob(await tableToXlsx(table), filename)
+  }
+}
+
+// ========================================================
+// CHART IMAGES
+// ========================================================
+
+export type ImageFormat = 'svg' | 'png'
+
+// A standalone copy of the chart, sized to its viewBox
+function serializeSvg(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  const { width, height } = svg.viewBox.baseVal
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
+  clone.setAttribute('width', String(width))
+  clone.setAttribute('height', String(height))
+  clone.removeAttribute('style')
+  return new XMLSerializer().serializeToString(clone)
+}
+
+/**
+ * Downloads a chart as SVG, or as a PNG drawn from the SVG at `scale` times
+ * its viewBox size on a white background.
+ */
+export async function exportChart(svg: SVGSVGElement, format: ImageFormat, baseName: string, scale = 2): Promise<void> {
+  const markup = serializeSvg(svg)
+  const svgBlob = new Blob([markup], { type: 'image/svg+xml;charset=utf-8' })
+  if (format === 'svg') {
+    downloadBlob(svgBlob, `${baseName}.svg`)
+    return
+  }
+
+  const url = URL.createObjectURL(svgBlob)
+  try {
+    const image = new Image()
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve()
+      image.onerror = () => reject(new Error('Could not draw the chart'))
+      image.src = url
+    })
+    const { width, height } = svg.viewBox.baseVal
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(width * scale)
+    canvas.height = Math.round(height * scale)
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas is not available')
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    context.drawImage(image, 0, 0, canvas.width, canvas.height)
+    const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+    if (!png) throw new Error('Could not encode the chart as PNG')
+    downloadBlob(png, `${baseName}.png`)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
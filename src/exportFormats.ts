@@ -0,0 +1,113 @@
+import Papa from 'papaparse'
+
+// Results tables as CSV, JSON or Excel. DOM-free, so the command-line tool
+// writes the same files the page downloads.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json'
+
+export type ExportCell = string | number | null
+
+export interface ExportColumn {
+  key: string
+  header: string
+  // 'text' columns are always written as strings so zero-padded codes keep their leading zeros
+  type: 'text' | 'number'
+}
+
+export interface ExportTable {
+  columns: ExportColumn[]
+  rows: Record<string, ExportCell>[]
+}
+
+// ========================================================
+// SERIALIZERS
+// ========================================================
+
+function toText(value: ExportCell): string {
+  return value === null ? '' : String(value)
+}
+
+/**
+ * CSV with a header row. For spreadsheets, text cells that look numeric
+ * (GEOID/FIPS codes) are wrapped as ="01001" so spreadsheet apps don't strip
+ * their leading zeros; `forSpreadsheet: false` writes plain CSV for scripts.
+ */
+export function tableToCsv(table: ExportTable, { forSpreadsheet = true } = {}): string {
+  const header = table.columns.map((col) => col.header)
+  const body = table.rows.map((row) =>
+    table.columns.map((col) => {
+      const value = row[col.key] ?? null
+      if (forSpreadsheet && col.type === 'text' && typeof value === 'string' && /^\d+$/.test(value)) {
+        return `="${value}"`
+      }
+      return toText(value)
+    })
+  )
+  // Prepend a BOM so Excel detects UTF-8 (accented place names)
+  return (forSpreadsheet ? '\uFEFF' : '') + Papa.unparse([header, ...body])
+}
+
+/**
+ * JSON array keyed by column key; numbers stay numeric and codes stay strings.
+ */
+export function tableToJson(table: ExportTable): string {
+  const records = table.rows.map((row) => {
+    const record: Record<string, ExportCell> = {}
+    table.columns.forEach((col) => {
+      const value = row[col.key] ?? null
+      record[col.key] = col.type === 'text' && value !== null ? String(value) : value
+    })
+    return record
+  })
+  return JSON.stringify(records, null, 2)
+}
+
+/**
+ * Excel workbook with a single sheet. Text columns are stored as string cells
+ * (type 's'), numeric columns as number cells with a thousands format.
+ */
+export async function tableToXlsx(table: ExportTable, sheetName = 'Results'): Promise<Blob> {
+  // SheetJS is large, so only load it when someone actually exports a workbook. SheetJS
+  // publishes 0.20.x only on its own CDN (xlsx on npm stops at the unmaintained 0.18.5), so this
+  // is @e965/xlsx: a third-party npm republish of the 0.20.3 CDN build by the e965/sheetjs-npm-publisher
+  // script, not an official SheetJS package. It is pinned exactly and locked by integrity hash;
+  // builds that can reach cdn.sheetjs.com should depend on its xlsx-0.20.3.tgz instead
+  const XLSX = await import('@e965/xlsx')
+
+  const header = table.columns.map((col) => col.header)
+  const body = table.rows.map((row) =>
+    table.columns.map((col) => {
+      const value = row[col.key] ?? null
+      if (value === null) return null
+      return col.type === 'text' ? String(value) : value
+    })
+  )
+
+  const sheet = XLSX.utils.aoa_to_sheet([header, ...body])
+
+  // Force text cells to string type and give numeric cells a readable format
+  table.columns.forEach((col, colIndex) => {
+    for (let rowIndex = 1; rowIndex <= body.length; rowIndex++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r: rowIndex, c: colIndex })]
+      if (!cell) continue
+      if (col.type === 'text') {
+        cell.t = 's'
+        cell.z = '@'
+      } else if (cell.t === 'n') {
+        cell.z = Number.isInteger(cell.v) ? '#,##0' : '#,##0.00'
+      }
+    }
+  })
+  sheet['!cols'] = table.columns.map((col) => ({ wch: Math.max(col.header.length + 2, 12) }))
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName)
+  const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer
+  return new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  })
+}
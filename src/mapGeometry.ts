@@ -0,0 +1,186 @@
+import { geoAlbersUsa, geoPath } from 'd3-geo'
+import Papa from 'papaparse'
+import { feature, mesh } from 'topojson-client'
+import type { GeometryCollection, Topology } from 'topojson-specification'
+import countiesTopologyUrl from 'us-atlas/counties-10m.json?url'
+
+// County and state boundaries from the us-atlas package (Census cartographic
+// boundary files, 2017 edition), bundled with the build so the map also works
+// offline. A site can replace them with boundaries matching its data vintage.
+// Places are drawn as points from the Census Gazetteer, when it is provided.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+// [x0, y0, x1, y1] in map units
+export type MapBounds = [number, number, number, number]
+
+export interface MapShape {
+  // 5-digit county FIPS or 2-digit state FIPS, as in getCountyFIPS
+  code: string
+  // SVG path data
+  path: string
+  bounds: MapBounds
+}
+
+export interface MapGeometry {
+  // True for the bundled 2017 boundaries, false for the site's BOUNDARIES_FILE
+  bundled: boolean
+  counties: Map<string, MapShape>
+  states: Map<string, MapShape>
+  // Borders between states, drawn over the counties
+  stateBorders: string
+  nationOutline: string
+}
+
+// ========================================================
+// PROJECTION
+// ========================================================
+
+export const MAP_WIDTH = 975
+export const MAP_HEIGHT = 610
+
+// Lower 48 with Alaska and Hawaii inset; Puerto Rico and the island areas fall outside it
+const projection = geoAlbersUsa()
+  .scale(1300)
+  .translate([MAP_WIDTH / 2, MAP_HEIGHT / 2])
+const pathGenerator = geoPath(projection)
+
+/**
+ * Map position of a longitude/latitude, or null when it falls outside the projection.
+ */
+export function projectPoint(longitude: number, latitude: number): [number, number] | null {
+  return projection([longitude, latitude])
+}
+
+/**
+ * Smallest box around the given boxes, padded by a share of its size; the
+ * whole map when there are none.
+ */
+export function combineBounds(boxes: MapBounds[], padding = 0.05): MapBounds {
+  if (boxes.length === 0) return [0, 0, MAP_WIDTH, MAP_HEIGHT]
+  const x0 = Math.min(...boxes.map((box) => box[0]))
+  const y0 = Math.min(...boxes.map((box) => box[1]))
+  const x1 = Math.max(...boxes.map((box) => box[2]))
+  const y1 = Math.max(...boxes.map((box) => box[3]))
+  // A lone point still gets a readable area around it
+  const pad = Math.max(x1 - x0, y1 - y0, 40) * padding
+  return [x0 - pad, y0 - pad, x1 + pad, y1 + pad]
+}
+
+// ========================================================
+// LOADING
+// ========================================================
+
+// County boundaries matching the site's data vintage, in the us-atlas layout
+// (TopoJSON with "counties" and "states" objects, ids = FIPS codes); optional,
+// without it the bundled 2017 boundaries are used
+export const BOUNDARIES_FILE = 'county-boundaries.json'
+
+// Codes are padded, since files built from numeric FIPS columns can drop leading zeros
+function toShapes(topology: Topology, object: GeometryCollection, codeLength: number): Map<string, MapShape> {
+  const shapes = new Map<string, MapShape>()
+  feature(topology, object).features.forEach((geo) => {
+    const path = pathGenerator(geo)
+    if (!path || geo.id === undefined) return
+    const code = String(geo.id).padStart(codeLength, '0')
+    const [[x0, y0], [x1, y1]] = pathGenerator.bounds(geo)
+    shapes.set(code, { code, path, bounds: [x0, y0, x1, y1] })
+  })
+  return shapes
+}
+
+function isBoundaryTopology(value: unknown): value is Topology {
+  const topology = value as Topology | null
+  return (
+    topology?.type === 'Topology' &&
+    topology.objects?.counties?.type === 'GeometryCollection' &&
+    topology.objects?.states?.type === 'GeometryCollection'
+  )
+}
+
+// The site's own boundaries when it has them, otherwise the bundled ones
+async function fetchBoundaries(baseUrl: string): Promise<{ topology: Topology; bundled: boolean }> {
+  const siteResponse = await fetch(`${baseUrl}data/${BOUNDARIES_FILE}`)
+  // The dev server answers missing files with the app's index.html
+  if (siteResponse.ok && !siteResponse.headers.get('content-type')?.includes('text/html')) {
+    const topology: unknown = await siteResponse.json()
+    if (!isBoundaryTopology(topology)) {
+      throw new Error(`${BOUNDARIES_FILE} must be a TopoJSON topology with "counties" and "states" objects`)
+    }
+    return { topology, bundled: false }
+  }
+
+  const response = await fetch(countiesTopologyUrl)
+  if (!response.ok) throw new Error(`Map boundaries: ${response.status} ${response.statusText}`)
+  return { topology: (await response.json()) as Topology, bundled: true }
+}
+
+let pending: Promise<MapGeometry> | null = null
+
+/**
+ * Downloads the boundary file once and projects every county and state.
+ */
+export function loadMapGeometry(baseUrl: string): Promise<MapGeometry> {
+  if (!pending) {
+    pending = fetchBoundaries(baseUrl)
+      .then(({ topology, bundled }) => {
+        const counties = topology.objects.counties as GeometryCollection
+        const states = topology.objects.states as GeometryCollection
+        return {
+          bundled,
+          counties: toShapes(topology, counties, 5),
+          states: toShapes(topology, states, 2),
+          stateBorders: pathGenerator(mesh(topology, states, (a, b) => a !== b)) || '',
+          nationOutline: pathGenerator(mesh(topology, states, (a, b) => a === b)) || '',
+        }
+      })
+      .catch((err) => {
+        // Let a later attempt try again
+        pending = null
+        throw err
+      })
+  }
+  return pending
+}
+
+// ========================================================
+// PLACE LOCATIONS
+// ========================================================
+
+// The Census Gazetteer national places file (e.g. 2024_Gaz_place_national.txt),
+// renamed; optional, without it places can't be mapped
+export const PLACE_LOCATIONS_FILE = 'place-locations.txt'
+
+/**
+ * Reads place GEOIDs and their internal points (INTPTLAT/INTPTLONG) from a
+ * Gazetteer file, tab- or comma-delimited. Returns longitude/latitude pairs.
+ */
+export function parsePlaceLocations(text: string): Map<string, [number, number]> {
+  const results = Papa.parse<Record<string, string | undefined>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    // The Gazetteer pads its last header with spaces
+    transformHeader: (header) => header.trim().toUpperCase(),
+  })
+  const locations = new Map<string, [number, number]>()
+  results.data.forEach((row) => {
+    const geoid = row.GEOID?.trim()
+    const latitude = Number(row.INTPTLAT)
+    const longitude = Number(row.INTPTLONG)
+    if (!geoid || !row.INTPTLAT || !row.INTPTLONG || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return
+    locations.set(geoid.padStart(7, '0'), [longitude, latitude])
+  })
+  return locations
+}
+
+/**
+ * Downloads the place locations file; null when the site doesn't have one.
+ */
+export async function loadPlaceLocations(baseUrl: string): Promise<Map<string, [number, number]> | null> {
+  const response = await fetch(`${baseUrl}data/${PLACE_LOCATIONS_FILE}`)
+  // The dev server answers missing files with the app's index.html
+  if (!response.ok || response.headers.get('content-type')?.includes('text/html')) return null
+  return parsePlaceLocations(await response.text())
+}
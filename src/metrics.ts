@@ -0,0 +1,315 @@
+import type { CensusRow, MetricType } from './types'
+import { formatNumber } from './utils'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export type MetricCategory = 'identifiers' | 'population' | 'growth' | 'components' | 'groupQuarters' | 'rates'
+
+// code: the GEOID/FIPS itself; count: people; rate: per 1,000 residents; percent: growth percentages
+export type MetricKind = 'code' | 'count' | 'rate' | 'percent'
+
+export type GrowthKind = 'change' | 'pctChange' | 'cagr'
+
+// Growth metrics are computed from two population estimate columns
+export interface GrowthDefinition {
+  kind: GrowthKind
+  fromYear: number
+  toYear: number
+  fromColumn: string
+  toColumn: string
+}
+
+export interface MetricDefinition {
+  id: MetricType
+  label: string
+  // Shorter label used for Results table headers
+  shortLabel: string
+  category: MetricCategory
+  kind: MetricKind
+  // Source CSV column; undefined for the code metric and growth metrics
+  column?: string
+  growth?: GrowthDefinition
+  // Rates: the component column they divide, so totals can recompute them
+  rateOf?: string
+}
+
+export interface MetricGroup {
+  category: MetricCategory
+  label: string
+  metrics: MetricDefinition[]
+}
+
+// ========================================================
+// CATALOG
+// ========================================================
+
+export const METRIC_CATEGORIES: { id: MetricCategory; label: string }[] = [
+  { id: 'identifiers', label: 'Identifiers' },
+  { id: 'population', label: 'Population estimates' },
+  { id: 'growth', label: 'Growth between years' },
+  { id: 'components', label: 'Components of change' },
+  { id: 'groupQuarters', label: 'Group quarters population' },
+  { id: 'rates', label: 'Rates (per 1,000 residents)' },
+]
+
+// Every vintage based on the 2020 Census through the end of the decade. A
+// metric is only offered when the loaded file has its column, so each vintage
+// shows just the years it covers.
+const FIRST_ESTIMATE_YEAR = 2020
+const LAST_ESTIMATE_YEAR = 2030
+export const ESTIMATE_YEARS = Array.from(
+  { length: LAST_ESTIMATE_YEAR - FIRST_ESTIMATE_YEAR + 1 },
+  (_, i) => FIRST_ESTIMATE_YEAR + i
+)
+// Rates are only published for full estimate years
+const RATE_YEARS = ESTIMATE_YEARS.filter((year) => year > FIRST_ESTIMATE_YEAR)
+
+// Components of change columns in the county file: [column prefix, label]
+const COMPONENTS: [string, string][] = [
+  ['NPOPCHG', 'Numeric population change'],
+  ['BIRTHS', 'Births'],
+  ['DEATHS', 'Deaths'],
+  ['NATURALCHG', 'Natural change'],
+  ['INTERNATIONALMIG', 'Net international migration'],
+  ['DOMESTICMIG', 'Net domestic migration'],
+  ['NETMIG', 'Net migration'],
+  ['RESIDUAL', 'Residual'],
+]
+
+// [rate column prefix, label, component column prefix]
+const RATES: [string, string, string][] = [
+  ['RBIRTH', 'Birth rate', 'BIRTHS'],
+  ['RDEATH', 'Death rate', 'DEATHS'],
+  ['RNATURALCHG', 'Natural change rate', 'NATURALCHG'],
+  ['RINTERNATIONALMIG', 'International migration rate', 'INTERNATIONALMIG'],
+  ['RDOMESTICMIG', 'Domestic migration rate', 'DOMESTICMIG'],
+  ['RNETMIG', 'Net migration rate', 'NETMIG'],
+]
+
+const GROWTH_KINDS: [GrowthKind, string, MetricKind][] = [
+  ['change', 'Numeric change', 'count'],
+  ['pctChange', 'Percent change', 'percent'],
+  ['cagr', 'Compound annual growth rate', 'percent'],
+]
+
+function yearLabel(year: number): string {
+  // 2020 components cover April 1 to July 1, 2020 only
+  return year === FIRST_ESTIMATE_YEAR ? `${year}, Apr–Jul` : String(year)
+}
+
+function buildCatalog(): MetricDefinition[] {
+  const catalog: MetricDefinition[] = [
+    { id: 'code', label: 'GEOID / FIPS code', shortLabel: 'GEOID / FIPS', category: 'identifiers', kind: 'code' },
+    {
+      id: 'estimatesbase2020',
+      label: 'Estimates base (April 1, 2020)',
+      shortLabel: 'Estimates base (2020)',
+      category: 'population',
+      kind: 'count',
+      column: 'ESTIMATESBASE2020',
+    },
+  ]
+
+  ESTIMATE_YEARS.forEach((year) => {
+    catalog.push({
+      id: `pop${year}`,
+      label: `Population estimate (${year})`,
+      shortLabel: `Population (${year})`,
+      category: 'population',
+      kind: 'count',
+      column: `POPESTIMATE${year}`,
+    })
+  })
+
+  // Every pair of estimate years, e.g. change_2023_2024
+  GROWTH_KINDS.forEach(([kind, label, metricKind]) => {
+    ESTIMATE_YEARS.forEach((fromYear) => {
+      ESTIMATE_YEARS.filter((toYear) => toYear > fromYear).forEach((toYear) => {
+        catalog.push({
+          id: `${kind.toLowerCase()}_${fromYear}_${toYear}`,
+          label: `${label}, ${fromYear}–${toYear}${metricKind === 'percent' ? ' (%)' : ''}`,
+          shortLabel: `${label} ${fromYear}–${toYear}${metricKind === 'percent' ? ' (%)' : ''}`,
+          category: 'growth',
+          kind: metricKind,
+          growth: {
+            kind,
+            fromYear,
+            toYear,
+            fromColumn: `POPESTIMATE${fromYear}`,
+            toColumn: `POPESTIMATE${toYear}`,
+          },
+        })
+      })
+    })
+  })
+
+  COMPONENTS.forEach(([prefix, label]) => {
+    ESTIMATE_YEARS.forEach((year) => {
+      catalog.push({
+        id: `${prefix.toLowerCase()}${year}`,
+        label: `${label} (${yearLabel(year)})`,
+        shortLabel: `${label} (${year})`,
+        category: 'components',
+        kind: 'count',
+        column: `${prefix}${year}`,
+      })
+    })
+  })
+
+  catalog.push({
+    id: 'gqestimatesbase2020',
+    label: 'Group quarters estimates base (April 1, 2020)',
+    shortLabel: 'GQ base (2020)',
+    category: 'groupQuarters',
+    kind: 'count',
+    column: 'GQESTIMATESBASE2020',
+  })
+  ESTIMATE_YEARS.forEach((year) => {
+    catalog.push({
+      id: `gqestimates${year}`,
+      label: `Group quarters population (${year})`,
+      shortLabel: `GQ population (${year})`,
+      category: 'groupQuarters',
+      kind: 'count',
+      column: `GQESTIMATES${year}`,
+    })
+  })
+
+  RATES.forEach(([prefix, label, component]) => {
+    RATE_YEARS.forEach((year) => {
+      catalog.push({
+        id: `${prefix.toLowerCase()}${year}`,
+        label: `${label} (${year}, per 1,000)`,
+        shortLabel: `${label} (${year})`,
+        category: 'rates',
+        kind: 'rate',
+        column: `${prefix}${year}`,
+        rateOf: `${component}${year}`,
+      })
+    })
+  })
+
+  return catalog
+}
+
+export const METRIC_CATALOG: MetricDefinition[] = buildCatalog()
+
+const METRICS_BY_ID = new Map(METRIC_CATALOG.map((def) => [def.id, def]))
+
+// ========================================================
+// LOOKUPS
+// ========================================================
+
+export function getMetricDefinition(metric: MetricType): MetricDefinition | undefined {
+  return METRICS_BY_ID.get(metric)
+}
+
+export function getMetricLabel(metric: MetricType): string {
+  return getMetricDefinition(metric)?.label ?? metric
+}
+
+function getRequiredColumns(def: MetricDefinition): string[] {
+  if (def.growth) return [def.growth.fromColumn, def.growth.toColumn]
+  return def.column ? [def.column] : []
+}
+
+/**
+ * Whether a file with these column headers can answer the metric.
+ * The code metric is always available.
+ */
+export function isMetricAvailable(metric: MetricType, columns: Set<string>): boolean {
+  const def = getMetricDefinition(metric)
+  return !!def && getRequiredColumns(def).every((column) => columns.has(column))
+}
+
+/**
+ * Metrics a data file can answer, given the column headers it was parsed with.
+ */
+export function getAvailableMetrics(columns: Set<string>): MetricDefinition[] {
+  return METRIC_CATALOG.filter((def) => isMetricAvailable(def.id, columns))
+}
+
+/**
+ * Groups metric definitions by category, in catalog order, dropping empty categories.
+ */
+export function groupMetricsByCategory(metrics: MetricDefinition[]): MetricGroup[] {
+  return METRIC_CATEGORIES.map((cat) => ({
+    category: cat.id,
+    label: cat.label,
+    metrics: metrics.filter((def) => def.category === cat.id),
+  })).filter((group) => group.metrics.length > 0)
+}
+
+/**
+ * The latest population estimate among the given metrics, e.g. 'pop2024' for
+ * the 2024 release; '' when there is none. Used as the default population
+ * metric, so no one release's columns are assumed.
+ */
+export function getLatestPopulationMetric(metrics: MetricDefinition[]): MetricType {
+  const estimates = metrics.filter((def) => def.category === 'population')
+  return estimates[estimates.length - 1]?.id || ''
+}
+
+// ========================================================
+// VALUES
+// ========================================================
+
+function parseColumn(row: CensusRow, column: string): number | null {
+  const raw = row[column]?.trim()
+  if (!raw) return null
+
+  const value = Number(raw)
+  return Number.isFinite(value) ? value : null
+}
+
+/**
+ * Change between two parsed estimates. Percentages are returned as percent
+ * values (2.5 for 2.5%); null when the start value is missing or zero.
+ */
+export function computeGrowth(growth: GrowthDefinition, from: number | null, to: number | null): number | null {
+  if (from === null || to === null) return null
+
+  if (growth.kind === 'change') return to - from
+  if (from === 0) return null
+  if (growth.kind === 'pctChange') return ((to - from) / from) * 100
+
+  const years = growth.toYear - growth.fromYear
+  return (Math.pow(to / from, 1 / years) - 1) * 100
+}
+
+/**
+ * Reads a metric from a raw CSV row, computing growth metrics from the two
+ * underlying estimate columns. Returns null when a column is missing, blank
+ * or not a number, rather than treating it as zero.
+ */
+export function getMetricValue(row: CensusRow, metric: MetricType): number | null {
+  const def = getMetricDefinition(metric)
+  if (!def) return null
+
+  if (def.growth) {
+    return computeGrowth(def.growth, parseColumn(row, def.growth.fromColumn), parseColumn(row, def.growth.toColumn))
+  }
+  return def.column ? parseColumn(row, def.column) : null
+}
+
+/**
+ * Census rates are per 1,000 residents of the average of the two July 1
+ * estimates bracketing the year, e.g. BIRTHS2024 over POPESTIMATE2023/2024.
+ */
+export function computeRate(row: CensusRow, def: MetricDefinition): number | null {
+  if (!def.rateOf) return null
+  const year = Number(def.rateOf.slice(-4))
+  const component = parseColumn(row, def.rateOf)
+  const startPop = parseColumn(row, `POPESTIMATE${year - 1}`)
+  const endPop = parseColumn(row, `POPESTIMATE${year}`)
+  if (component === null || startPop === null || endPop === null || startPop + endPop === 0) return null
+  return (1000 * component) / ((startPop + endPop) / 2)
+}
+
+export function formatMetricValue(metric: MetricType, value: number): string {
+  const kind = getMetricDefinition(metric)?.kind
+  if (kind === 'percent') return `${formatNumber(value, 2)}%`
+  return kind === 'rate' ? formatNumber(value, 2) : formatNumber(value)
+}
@@ -0,0 +1,158 @@
+import { NATION_FIPS } from './aggregates'
+import { resolveJurisdiction } from './selections'
+import type { JurisdictionLookups } from './selections'
+import { isSubcountyType } from './subcounty'
+import type { JurisdictionCandidate, JurisdictionType } from './types'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface NameIndex {
+  // Normalized full Census name, e.g. "austin city"
+  byFullName: Map<string, JurisdictionCandidate[]>
+  // Normalized name without its legal/statistical suffix, e.g. "austin"
+  byBaseName: Map<string, JurisdictionCandidate[]>
+}
+
+export type NameMatchType = 'any' | JurisdictionType
+
+// ========================================================
+// NORMALIZATION
+// ========================================================
+
+// Trailing terms Census appends to place and county names. Longest first so
+// "city and borough" wins over "borough".
+const LEGAL_SUFFIXES = [
+  'metropolitan government balance',
+  'consolidated government balance',
+  'unified government balance',
+  'unorganized territory',
+  'city and borough',
+  'government balance',
+  'charter township',
+  'planning region',
+  'census area',
+  'urban county',
+  'municipality',
+  'plantation',
+  'municipio',
+  'location',
+  'purchase',
+  'township',
+  'borough',
+  'village',
+  'balance',
+  'county',
+  'parish',
+  'grant',
+  'city',
+  'gore',
+  'town',
+  'cdp',
+]
+
+// Abbreviations spelled out so "St. Charles Twp" and "Saint Charles township" compare equal
+const ABBREVIATIONS = new Map([
+  ['st', 'saint'],
+  ['ste', 'sainte'],
+  ['mt', 'mount'],
+  ['ft', 'fort'],
+  ['pt', 'point'],
+  ['twp', 'township'],
+  ['vlg', 'village'],
+  ['boro', 'borough'],
+])
+
+/**
+ * Lowercases, strips accents and punctuation, spells out common abbreviations
+ * and collapses whitespace so "Cañon City" and "canon  city" compare equal.
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['\u2019.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map((token) => ABBREVIATIONS.get(token) ?? token)
+    .join(' ')
+}
+
+/**
+ * Removes one trailing legal/statistical suffix from an already normalized name.
+ */
+export function stripLegalSuffix(normalized: string): string {
+  for (const suffix of LEGAL_SUFFIXES) {
+    if (normalized.endsWith(` ${suffix}`)) {
+      return normalized.slice(0, -(suffix.length + 1))
+    }
+  }
+  return normalized
+}
+
+// ========================================================
+// INDEX
+// ========================================================
+
+function addToIndex(map: Map<string, JurisdictionCandidate[]>, key: string, candidate: JurisdictionCandidate) {
+  if (!map.has(key)) {
+    map.set(key, [])
+  }
+  map.get(key)!.push(candidate)
+}
+
+export function buildNameIndex(lookups: JurisdictionLookups): NameIndex {
+  const index: NameIndex = { byFullName: new Map(), byBaseName: new Map() }
+
+  // `indexedName` stands in for names that have their county added, so they match as written
+  const add = (type: JurisdictionType, code: string, indexedName?: string) => {
+    const jurisdiction = resolveJurisdiction(lookups, type, code)
+    if (!jurisdiction) return
+    const { name, stateFips, stateName } = jurisdiction
+    const candidate: JurisdictionCandidate = { type, code: jurisdiction.code, name, stateFips, stateName }
+
+    const full = normalizeName(indexedName ?? name)
+    addToIndex(index.byFullName, full, candidate)
+    addToIndex(index.byBaseName, stripLegalSuffix(full), candidate)
+  }
+
+  lookups.placeLookup.forEach((_row, geoid) => add('place', geoid))
+  lookups.countyLookup.forEach((_row, fips) => add('county', fips))
+  lookups.stateLookup.forEach((_row, fips) => add('state', fips))
+  if (lookups.nationRow) {
+    add('nation', NATION_FIPS)
+  }
+  lookups.subcountyLookups.cousub.forEach((row, geoid) => add('cousub', geoid, row.NAME))
+  lookups.subcountyLookups.concity.forEach((_row, geoid) => add('concity', geoid))
+
+  return index
+}
+
+/**
+ * Looks up jurisdictions by name, optionally within one state and type.
+ * Exact full-name matches win; otherwise names are compared without their
+ * suffix, so "Travis" finds "Travis County" and "Austin" finds "Austin city".
+ */
+export function findByName(
+  index: NameIndex,
+  name: string,
+  stateFips: string | null,
+  matchType: NameMatchType
+): JurisdictionCandidate[] {
+  const normalized = normalizeName(name)
+  if (!normalized) return []
+
+  // 'any' is places, counties and totals; county subdivisions share many cities' names, so they're matched only when asked for
+  const keep = (candidate: JurisdictionCandidate) =>
+    (!stateFips || candidate.stateFips === stateFips) &&
+    (matchType === 'any' ? !isSubcountyType(candidate.type) : candidate.type === matchType)
+
+  const exact = (index.byFullName.get(normalized) || []).filter(keep)
+  if (exact.length > 0) return exact
+
+  return (index.byBaseName.get(stripLegalSuffix(normalized)) || []).filter(keep)
+}
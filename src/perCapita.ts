@@ -0,0 +1,224 @@
+import { parseImportText, resolveImportRows } from './bulkImport'
+import type { ImportContext } from './bulkImport'
+import { getAvailableMetrics, getMetricDefinition, getMetricValue } from './metrics'
+import type { MetricDefinition } from './metrics'
+import type { ResultColumn, ResultRow } from './results'
+import { resolveJurisdiction } from './selections'
+import type { VintageSource } from './selections'
+import type { JurisdictionType, MetricType } from './types'
+import { formatNumber } from './utils'
+
+// The per-capita calculator: a value per jurisdiction entered by the user
+// (allocated dollars, case counts, ...) divided by a population metric, shown
+// as extra Results columns.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface PerCapitaInputs {
+  // What the values are, e.g. "Allocated dollars"; names the columns
+  label: string
+  // Population metric the values are divided by; '' until one is chosen
+  denominator: MetricType
+  // Value per jurisdiction, keyed by getJurisdictionKey
+  values: Record<string, number>
+}
+
+export type CalculatorLineResult =
+  | { status: 'matched'; line: number; input: string; key: string; value: number }
+  | { status: 'unmatched'; line: number; input: string; reason: string }
+
+// ========================================================
+// INPUTS
+// ========================================================
+
+export const EMPTY_PER_CAPITA: PerCapitaInputs = { label: '', denominator: '', values: {} }
+
+export const DEFAULT_VALUE_LABEL = 'Value'
+
+// One value per jurisdiction, whatever vintages it appears in
+export function getJurisdictionKey(type: JurisdictionType, code: string): string {
+  return `${type}-${code}`
+}
+
+export function hasPerCapitaValues(inputs: PerCapitaInputs): boolean {
+  return Object.keys(inputs.values).length > 0
+}
+
+/**
+ * Population estimates a data file can divide by, in catalog order.
+ */
+export function getDenominatorOptions(columns: Set<string>): MetricDefinition[] {
+  return getAvailableMetrics(columns).filter((def) => def.category === 'population')
+}
+
+/**
+ * The inputs with values only for jurisdictions still in the basket, as they
+ * are stored in links and saved sets; null when none are left.
+ */
+export function keepBasketValues(inputs: PerCapitaInputs, keys: Set<string>): PerCapitaInputs | null {
+  const values = Object.fromEntries(Object.entries(inputs.values).filter(([key]) => keys.has(key)))
+  return Object.keys(values).length > 0 ? { ...inputs, values } : null
+}
+
+/**
+ * Validates inputs from storage, an imported file or a link. Returns undefined
+ * if the shape is wrong; values that aren't finite numbers are dropped.
+ */
+export function toPerCapitaInputs(value: unknown): PerCapitaInputs | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const inputs = value as Record<string, unknown>
+  if (typeof inputs.label !== 'string' || typeof inputs.denominator !== 'string') return undefined
+  if (!inputs.values || typeof inputs.values !== 'object') return undefined
+  const values = Object.fromEntries(
+    Object.entries(inputs.values).filter((entry): entry is [string, number] => Number.isFinite(entry[1]))
+  )
+  return { label: inputs.label, denominator: inputs.denominator, values }
+}
+
+// ========================================================
+// PARSING
+// ========================================================
+
+/**
+ * Reads a pasted amount such as "$1,250,000.50" or "(300)"; null when the
+ * cell isn't a number.
+ */
+export function parseAmount(cell: string): number | null {
+  const text = cell.trim().replace(/^\((.*)\)$/, '-$1').replace(/[$,\s]/g, '')
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(text)) return null
+  return Number(text)
+}
+
+// A value at the end of a line, after a comma, semicolon or tab; it may have
+// thousands separators, a dollar sign, quotes or accounting parentheses
+const TRAILING_VALUE = /[,;\t]\s*"?(\(?-?\$?-?[\d,]*\.?\d+\)?)"?\s*$/
+
+/**
+ * Reads lines of a jurisdiction and a value, e.g. "48453, 1200000",
+ * "Travis County, TX, $1,200,000" or columns pasted from a spreadsheet. The
+ * jurisdiction is matched as in bulk import, but only against those in
+ * `basketKeys`. A first line without a value is taken as a header.
+ */
+export function parseCalculatorText(
+  text: string,
+  context: ImportContext,
+  basketKeys: Set<string>
+): CalculatorLineResult[] {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '')
+    .map((input, index) => {
+      const match = TRAILING_VALUE.exec(input)
+      const value = match ? parseAmount(match[1]) : null
+      const rest = match && value !== null ? input.slice(0, match.index) : ''
+      // A quoted "Name, State" cell from a CSV file reads like an unquoted one
+      let cells = parseImportText(rest)[0] || []
+      if (cells.length === 1) cells = cells[0].split(',').map((cell) => cell.trim())
+      return { line: index + 1, input: input.trim(), cells, value }
+    })
+  const valued = lines.filter((line) => line.value !== null && line.cells.some((cell) => cell !== ''))
+  const resolved = new Map(
+    resolveImportRows(valued.map((line) => line.cells), context, 'any').map((result, i) => [valued[i].line, result])
+  )
+
+  return lines.flatMap((line): CalculatorLineResult[] => {
+    const { input } = line
+    const result = resolved.get(line.line)
+    if (line.value === null || !result) {
+      if (line.line === 1) return []
+      return [{ status: 'unmatched', line: line.line, input, reason: 'No jurisdiction and value on this line' }]
+    }
+    if (result.status === 'skipped' || result.status === 'unmatched') {
+      return [{ status: 'unmatched', line: line.line, input, reason: result.reason }]
+    }
+
+    // A name shared by several jurisdictions is fine when only one is in the basket
+    const candidates = (result.status === 'matched' ? [result.match] : result.candidates).filter((candidate) =>
+      basketKeys.has(getJurisdictionKey(candidate.type, candidate.code))
+    )
+    if (candidates.length === 1) {
+      const key = getJurisdictionKey(candidates[0].type, candidates[0].code)
+      return [{ status: 'matched', line: line.line, input, key, value: line.value }]
+    }
+    const reason =
+      candidates.length > 1
+        ? 'Matches more than one jurisdiction in the Results; use its GEOID or add the state'
+        : result.status === 'matched'
+          ? `${result.match.name}, ${result.match.stateName} isn't in the Results`
+          : 'None of the jurisdictions with this name are in the Results'
+    return [{ status: 'unmatched', line: line.line, input, reason }]
+  })
+}
+
+// ========================================================
+// COLUMNS
+// ========================================================
+
+const VALUE_COLUMN = 'perCapita:value'
+const PER_CAPITA_COLUMN = 'perCapita:perCapita'
+const PER_THOUSAND_COLUMN = 'perCapita:per1000'
+
+/**
+ * Adds the calculator's columns to the Results: the denominator (unless the
+ * basket has it already), the values, and the values per capita and per
+ * 1,000 residents. Rows without the denominator read it from their own
+ * vintage; rows without a value or a population are left blank. Unchanged when there are
+ * no values.
+ */
+export function addPerCapitaColumns(
+  rows: ResultRow[],
+  columns: ResultColumn[],
+  inputs: PerCapitaInputs,
+  sources: Record<string, VintageSource>
+): { rows: ResultRow[]; columns: ResultColumn[] } {
+  const denominatorDef = getMetricDefinition(inputs.denominator)
+  if (!hasPerCapitaValues(inputs) || !denominatorDef) return { rows, columns }
+
+  const label = inputs.label.trim() || DEFAULT_VALUE_LABEL
+  const valueDigits = Object.values(inputs.values).every(Number.isInteger) ? 0 : 2
+  const hasDenominator = columns.some((col) => col.metric === denominatorDef.id)
+  const ratioOf = (scale: number) => ({ numerator: VALUE_COLUMN, denominator: denominatorDef.id, scale })
+
+  const calculatorColumns: ResultColumn[] = [
+    ...(hasDenominator ? [] : [{ metric: denominatorDef.id, label: denominatorDef.shortLabel, numeric: true }]),
+    { metric: VALUE_COLUMN, label, numeric: true, calculated: { fractionDigits: valueDigits } },
+    {
+      metric: PER_CAPITA_COLUMN,
+      label: `${label} per capita`,
+      numeric: true,
+      calculated: { fractionDigits: 4, ratioOf: ratioOf(1) },
+    },
+    {
+      metric: PER_THOUSAND_COLUMN,
+      label: `${label} per 1,000 residents`,
+      numeric: true,
+      calculated: { fractionDigits: 2, ratioOf: ratioOf(1000) },
+    },
+  ]
+
+  const calculatorRows = rows.map((row) => {
+    const values = { ...row.values }
+    // Rows selected with other metrics don't show the population even when the basket's column exists
+    if (!values[denominatorDef.id]) {
+      const lookups = sources[row.vintageId]?.lookups
+      const jurisdiction = lookups ? resolveJurisdiction(lookups, row.type, row.jurisdictionCode) : null
+      const population = jurisdiction ? getMetricValue(jurisdiction.row, denominatorDef.id) : null
+      values[denominatorDef.id] = { display: population === null ? '' : formatNumber(population), numeric: population }
+    }
+
+    const value = inputs.values[getJurisdictionKey(row.type, row.jurisdictionCode)] ?? null
+    const population = values[denominatorDef.id]?.numeric ?? null
+    const perCapita = value !== null && population ? value / population : null
+    values[VALUE_COLUMN] = { display: value === null ? '' : formatNumber(value, valueDigits), numeric: value }
+    values[PER_CAPITA_COLUMN] = { display: perCapita === null ? '' : formatNumber(perCapita, 4), numeric: perCapita }
+    values[PER_THOUSAND_COLUMN] = {
+      display: perCapita === null ? '' : formatNumber(perCapita * 1000, 2),
+      numeric: perCapita === null ? null : perCapita * 1000,
+    }
+    return { ...row, values }
+  })
+
+  return { rows: calculatorRows, columns: [...columns, ...calculatorColumns] }
+}
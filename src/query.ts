@@ -0,0 +1,115 @@
+import { NATION_FIPS } from './aggregates'
+import { uniqueCodeChanges } from './crosswalk'
+import type { CodeChange } from './crosswalk'
+import { buildResultColumns, buildResultRows } from './results'
+import type { ResultColumn, ResultRow } from './results'
+import { resolveBasketEntries, resolveJurisdiction } from './selections'
+import type { VintageSource } from './selections'
+import type { BasketEntry, JurisdictionType, MetricType } from './types'
+
+// Looking jurisdictions up by code, with no UI: the page and the
+// jurisdiction-pull command-line tool (scripts/jurisdictionPull.ts) both
+// answer queries through here.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface QueryRequest {
+  // Place GEOIDs, county FIPS, state FIPS, 00 for the United States, or
+  // GEOIDs of county subdivisions, consolidated cities and their parts
+  codes: string[]
+  metrics: MetricType[]
+  // Vintage id from vintages.json
+  vintage: string
+}
+
+export interface QueryIssue {
+  code: string
+  metric: MetricType
+  reason: string
+}
+
+export interface QueryResult {
+  columns: ResultColumn[]
+  rows: ResultRow[]
+  // Code + metric pairs that couldn't be answered
+  issues: QueryIssue[]
+  // Retired codes answered for their successors, once each
+  changes: CodeChange[]
+}
+
+// ========================================================
+// CODES
+// ========================================================
+
+// GEOID lengths after the 2-digit state FIPS, with the types that use each;
+// where two share a length, the more common is tried first
+const CODE_LENGTHS: { length: number; types: JurisdictionType[] }[] = [
+  { length: 5, types: ['county'] },
+  { length: 7, types: ['place', 'concity'] },
+  { length: 10, types: ['cousub', 'placePart'] },
+  { length: 12, types: ['concityPart'] },
+  { length: 15, types: ['cousubPart'] },
+]
+
+/**
+ * Code length → the jurisdiction types a code can be and its padded length.
+ * Codes a digit short (4, 6, 9, ...) are usually ones that lost a leading zero
+ * in a spreadsheet.
+ */
+export function classifyCode(code: string): { types: JurisdictionType[]; padded: string } {
+  if (code.length <= 2) {
+    const padded = code.padStart(2, '0')
+    return { types: [padded === NATION_FIPS ? 'nation' : 'state'], padded }
+  }
+  const { length, types } = CODE_LENGTHS.find((entry) => code.length <= entry.length) || CODE_LENGTHS[CODE_LENGTHS.length - 1]
+  return { types, padded: code.padStart(length, '0') }
+}
+
+/**
+ * Splits "01001, 06037 0644000" into codes, on commas, semicolons or spaces.
+ */
+export function parseCodeList(text: string): string[] {
+  return text.split(/[\s,;]+/).filter(Boolean)
+}
+
+// ========================================================
+// QUERY
+// ========================================================
+
+/**
+ * Answers each metric for each code from the loaded vintages, one row per
+ * jurisdiction as in the Results table. Codes that aren't 1–15 digits, aren't
+ * in the data, or lack a metric are reported in `issues`; retired codes are
+ * answered for their successors and listed in `changes`.
+ */
+export function runQuery(
+  sources: Record<string, VintageSource>,
+  request: QueryRequest,
+  getVintageLabel: (id: string) => string = (id) => id
+): QueryResult {
+  const issues: QueryIssue[] = []
+  const entries: BasketEntry[] = []
+  request.codes.forEach((code) => {
+    if (!/^\d{1,15}$/.test(code)) {
+      request.metrics.forEach((metric) => issues.push({ code, metric, reason: 'Not a GEOID or FIPS code' }))
+      return
+    }
+    const { types, padded } = classifyCode(code)
+    // The first type the code is found as, e.g. a consolidated city when no place has it
+    const lookups = sources[request.vintage]?.lookups
+    const type = (lookups && types.find((t) => resolveJurisdiction(lookups, t, padded))) || types[0]
+    request.metrics.forEach((metric) => entries.push({ type, code: padded, metric, vintage: request.vintage }))
+  })
+
+  const { selections, unresolved, redirected } = resolveBasketEntries(sources, request.vintage, entries)
+  unresolved.forEach(({ entry, reason }) => issues.push({ code: entry.code, metric: entry.metric, reason }))
+
+  return {
+    columns: buildResultColumns(selections),
+    rows: buildResultRows(selections, getVintageLabel),
+    issues,
+    changes: uniqueCodeChanges(redirected.map(({ change }) => change)),
+  }
+}
@@ -0,0 +1,143 @@
+import type { LoadedData } from './dataIndex'
+import { getMetricValue, isMetricAvailable } from './metrics'
+import type { CountyRow, JurisdictionType, MetricType, PlaceRow } from './types'
+import { formatOrdinal, getCountyFIPS, getPlaceGEOID, padState } from './utils'
+
+// Where a place or county stands among all the others of its kind, in its
+// state and nationally, read from the full indexes rather than the basket.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export type RankScope = 'state' | 'nation'
+
+export type RankedType = 'place' | 'county'
+
+export interface RankedJurisdiction {
+  code: string
+  name: string
+  stateFips: string
+  stateName: string
+  value: number
+  // 1 is the largest value; equal values share a rank
+  rank: number
+}
+
+export interface Ranking {
+  // Largest value first; jurisdictions without a value are left out
+  entries: RankedJurisdiction[]
+  // Index into `entries` by code
+  positions: Map<string, number>
+}
+
+export interface RankPosition {
+  rank: number
+  count: number
+  // Share of the others with a lower value, 0–100
+  percentile: number
+}
+
+export const RANK_SCOPES: { id: RankScope; label: string }[] = [
+  { id: 'state', label: 'In state' },
+  { id: 'nation', label: 'Nationally' },
+]
+
+export function isRankedType(type: JurisdictionType): type is RankedType {
+  return type === 'place' || type === 'county'
+}
+
+// How many jurisdictions "show peers" lists on each side
+export const PEER_RADIUS = 5
+
+// ========================================================
+// RANKING
+// ========================================================
+
+function getStateGroups<T>(byState: Map<string, T[]>, stateFips: string | null): T[] {
+  return stateFips ? byState.get(stateFips) || [] : Array.from(byState.values()).flat()
+}
+
+/**
+ * Ranks every place or county of one state (or of all states when
+ * `stateFips` is null) by a metric.
+ */
+export function rankJurisdictions(
+  data: LoadedData,
+  type: RankedType,
+  metric: MetricType,
+  stateFips: string | null
+): Ranking {
+  const entries: RankedJurisdiction[] = []
+  const add = (code: string, name: string, row: PlaceRow | CountyRow) => {
+    const value = getMetricValue(row, metric)
+    if (value === null) return
+    entries.push({ code, name, stateFips: padState(row.STATE), stateName: row.STNAME, value, rank: 0 })
+  }
+  if (isMetricAvailable(metric, data.columnsByType[type])) {
+    if (type === 'place') {
+      getStateGroups(data.placesByStateFips, stateFips).forEach((row) =>
+        add(getPlaceGEOID(row.STATE, row.PLACE), row.NAME, row)
+      )
+    } else {
+      getStateGroups(data.countiesByStateFips, stateFips).forEach((row) =>
+        add(getCountyFIPS(row.STATE, row.COUNTY), row.CTYNAME, row)
+      )
+    }
+  }
+
+  entries.sort((a, b) => b.value - a.value || a.stateName.localeCompare(b.stateName) || a.name.localeCompare(b.name))
+  entries.forEach((entry, i) => {
+    entry.rank = i > 0 && entries[i - 1].value === entry.value ? entries[i - 1].rank : i + 1
+  })
+
+  return { entries, positions: new Map(entries.map((entry, i) => [entry.code, i])) }
+}
+
+/**
+ * Rank and percentile of one jurisdiction; null when it has no value.
+ */
+export function getRankPosition(ranking: Ranking, code: string): RankPosition | null {
+  const index = ranking.positions.get(code)
+  if (index === undefined) return null
+  const { value, rank } = ranking.entries[index]
+  const count = ranking.entries.length
+  // Entries are sorted, so the lower values are the ones after the last tie
+  let lastTie = index
+  while (lastTie + 1 < count && ranking.entries[lastTie + 1].value === value) lastTie++
+  const below = count - lastTie - 1
+  return { rank, count, percentile: count > 1 ? (below / (count - 1)) * 100 : 100 }
+}
+
+/**
+ * "97th percentile", in whole percentiles from 0 to 99.
+ */
+export function formatPercentile(percentile: number): string {
+  return `${formatOrdinal(Math.min(99, Math.floor(percentile)))} percentile`
+}
+
+/**
+ * The jurisdiction with up to `radius` ranked just above and below it.
+ */
+export function getPeers(ranking: Ranking, code: string, radius = PEER_RADIUS): RankedJurisdiction[] {
+  const index = ranking.positions.get(code)
+  if (index === undefined) return []
+  return ranking.entries.slice(Math.max(0, index - radius), index + radius + 1)
+}
+
+/**
+ * Memoizes rankings by vintage, type, metric and scope, since every row of
+ * the Results table asks for the same few.
+ */
+export function createRankingCache(
+  datasets: Record<string, LoadedData>
+): (vintage: string, type: RankedType, metric: MetricType, stateFips: string | null) => Ranking | null {
+  const cache = new Map<string, Ranking>()
+  return (vintage, type, metric, stateFips) => {
+    const data = datasets[vintage]
+    if (!data) return null
+    const key = `${vintage}-${type}-${metric}-${stateFips ?? 'nation'}`
+    if (!cache.has(key)) cache.set(key, rankJurisdictions(data, type, metric, stateFips))
+    return cache.get(key)!
+  }
+}
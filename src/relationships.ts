@@ -0,0 +1,157 @@
+import { resolveJurisdiction } from './selections'
+import type { JurisdictionLookups } from './selections'
+import type { CensusRow, JurisdictionCandidate } from './types'
+import { getCountyFIPS, getPlaceGEOID } from './utils'
+
+// Which counties each place lies in, read from the place-part rows
+// (SUMLEV 157) of the Census place file. DOM-free, like dataIndex.ts.
+
+// ========================================================
+// TYPES
+// ========================================================
+
+// The part of one place that lies in one county
+export interface PlaceCountyLink {
+  // 7-digit place GEOID
+  place: string
+  // 5-digit county FIPS
+  county: string
+  // Population estimate of the part; null when the row has none
+  population: number | null
+}
+
+export interface PlaceCountyLinks {
+  // Estimate year of the part populations
+  year: number | null
+  links: PlaceCountyLink[]
+}
+
+export interface PlaceCountyIndex extends PlaceCountyLinks {
+  byPlace: Map<string, PlaceCountyLink[]>
+  byCounty: Map<string, PlaceCountyLink[]>
+}
+
+// A jurisdiction related to the one selected
+export interface RelatedJurisdiction extends JurisdictionCandidate {
+  // Population of the part the two have in common
+  population: number | null
+  // Share of the place's population in that part, 0–1; null when unknown
+  share: number | null
+}
+
+// ========================================================
+// READING
+// ========================================================
+
+export const PLACE_PART_SUMLEV = '157'
+
+// Latest POPESTIMATEyyyy column of a file
+function getLatestPopulationColumn(fields: string[]): { column: string; year: number } | null {
+  const years = fields.flatMap((field) => {
+    const match = /^POPESTIMATE(\d{4})$/.exec(field)
+    return match ? [Number(match[1])] : []
+  })
+  if (years.length === 0) return null
+  const year = Math.max(...years)
+  return { column: `POPESTIMATE${year}`, year }
+}
+
+/**
+ * Reads the place-within-county rows of a place file, with each part's latest
+ * population estimate.
+ */
+export function readPlaceCountyLinks(rows: CensusRow[], fields: string[]): PlaceCountyLinks {
+  const population = getLatestPopulationColumn(fields)
+  const links: PlaceCountyLink[] = []
+  rows.forEach((row) => {
+    if (row.SUMLEV !== PLACE_PART_SUMLEV || !row.STATE || !row.PLACE || !row.COUNTY) return
+    const raw = population ? row[population.column]?.trim() : ''
+    const value = raw ? Number(raw) : NaN
+    links.push({
+      place: getPlaceGEOID(row.STATE, row.PLACE),
+      county: getCountyFIPS(row.STATE, row.COUNTY),
+      population: Number.isFinite(value) ? value : null,
+    })
+  })
+  return { year: population?.year ?? null, links }
+}
+
+/**
+ * Groups the links by place and by county, keeping only places in the loaded
+ * data (the file also has parts of places the app doesn't index).
+ */
+export function indexPlaceCountyLinks(data: PlaceCountyLinks, lookups: JurisdictionLookups): PlaceCountyIndex {
+  const byPlace = new Map<string, PlaceCountyLink[]>()
+  const byCounty = new Map<string, PlaceCountyLink[]>()
+  const links = data.links.filter((link) => lookups.placeLookup.has(link.place))
+  links.forEach((link) => {
+    if (!byPlace.has(link.place)) byPlace.set(link.place, [])
+    byPlace.get(link.place)!.push(link)
+    if (!byCounty.has(link.county)) byCounty.set(link.county, [])
+    byCounty.get(link.county)!.push(link)
+  })
+  return { year: data.year, links, byPlace, byCounty }
+}
+
+export const EMPTY_PLACE_COUNTIES: PlaceCountyIndex = {
+  year: null,
+  links: [],
+  byPlace: new Map(),
+  byCounty: new Map(),
+}
+
+// ========================================================
+// LOOKUPS
+// ========================================================
+
+// Share of a place's population in one of its parts, from the sum of the parts
+function getShare(index: PlaceCountyIndex, link: PlaceCountyLink): number | null {
+  const parts = index.byPlace.get(link.place) || []
+  if (parts.length === 1) return 1
+  if (link.population === null || parts.some((part) => part.population === null)) return null
+  const total = parts.reduce((sum, part) => sum + part.population!, 0)
+  return total > 0 ? link.population / total : null
+}
+
+function toRelated(
+  lookups: JurisdictionLookups,
+  index: PlaceCountyIndex,
+  link: PlaceCountyLink,
+  type: 'place' | 'county'
+): RelatedJurisdiction | null {
+  const resolved = resolveJurisdiction(lookups, type, type === 'place' ? link.place : link.county)
+  if (!resolved) return null
+  const { code, name, stateFips, stateName } = resolved
+  return { type, code, name, stateFips, stateName, population: link.population, share: getShare(index, link) }
+}
+
+function byPopulation(a: RelatedJurisdiction, b: RelatedJurisdiction): number {
+  return (b.population ?? -1) - (a.population ?? -1) || a.name.localeCompare(b.name)
+}
+
+/**
+ * The counties a place lies in, the one holding most of its population first.
+ */
+export function getCountiesOfPlace(
+  lookups: JurisdictionLookups,
+  index: PlaceCountyIndex,
+  geoid: string
+): RelatedJurisdiction[] {
+  return (index.byPlace.get(geoid) || [])
+    .flatMap((link) => toRelated(lookups, index, link, 'county') ?? [])
+    .sort(byPopulation)
+}
+
+/**
+ * The incorporated places in a county, largest part first. `share` says how
+ * much of each place lies in this county.
+ */
+export function getPlacesInCounty(
+  lookups: JurisdictionLookups,
+  index: PlaceCountyIndex,
+  fips: string
+): RelatedJurisdiction[] {
+  return (index.byCounty.get(fips) || [])
+    .flatMap((link) => toRelated(lookups, index, link, 'place') ?? [])
+    .sort(byPopulation)
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { buildResultTotals } from './results'
+import type { ResultColumn, ResultRow, ResultTotalsOptions } from './results'
+import type { JurisdictionType } from './types'
+
+function row(
+  type: JurisdictionType,
+  code: string,
+  vintageId: string,
+  values: Record<string, number | null>,
+  group: string | null = null
+): ResultRow {
+  return {
+    key: `${type}-${code}-${vintageId}`,
+    stateName: 'Texas',
+    stateFips: '48',
+    type,
+    jurisdictionName: code,
+    jurisdictionCode: code,
+    vintage: `Vintage ${vintageId}`,
+    vintageId,
+    group,
+    values: Object.fromEntries(
+      Object.entries(values).map(([metric, numeric]) => [metric, { display: String(numeric ?? ''), numeric }])
+    ),
+  }
+}
+
+const POPULATION: ResultColumn = { metric: 'pop2024', label: 'Population (2024)', numeric: true }
+const BIRTHS: ResultColumn = { metric: 'births2024', label: 'Births (2024)', numeric: true }
+const BIRTH_RATE: ResultColumn = { metric: 'rbirth2024', label: 'Birth rate (2024)', numeric: true }
+const GRAND: ResultTotalsOptions = { byGroup: false, byState: false, grandTotal: true }
+
+describe('buildResultTotals', () => {
+  it('sums rows of one type and vintage into a single grand total', () => {
+    const rows = [row('county', '48201', '2024', { pop2024: 100 }), row('county', '48157', '2024', { pop2024: 50 })]
+    const totals = buildResultTotals(rows, [POPULATION], GRAND)
+    expect(totals).toHaveLength(1)
+    expect(totals[0]).toMatchObject({ key: 'grand', label: 'All rows', rowCount: 2, values: { pop2024: 150 } })
+  })
+
+  it('keeps a state apart from its counties and a county apart from itself in another vintage', () => {
+    const rows = [
+      row('state', '48', '2024', { pop2024: 1000 }),
+      row('county', '48201', '2024', { pop2024: 100 }),
+      row('county', '48157', '2024', { pop2024: 50 }),
+      row('county', '48201', '2023', { pop2024: 90 }),
+    ]
+    const totals = buildResultTotals(rows, [POPULATION], GRAND)
+    expect(totals.map((total) => [total.label, total.rowCount, total.values.pop2024])).toEqual([
+      ['All counties, Vintage 2023', 1, 90],
+      ['All counties, Vintage 2024', 2, 150],
+      ['All states, Vintage 2024', 1, 1000],
+    ])
+  })
+
+  it('leaves the vintage out of the labels when there is only one', () => {
+    const rows = [row('place', '4835000', '2024', { pop2024: 10 }), row('county', '48201', '2024', { pop2024: 100 })]
+    expect(buildResultTotals(rows, [POPULATION], GRAND).map((total) => total.label)).toEqual([
+      'All cities/places',
+      'All counties',
+    ])
+  })
+
+  it('leaves a total blank when a row has no value', () => {
+    const rows = [row('county', '48201', '2024', { pop2024: 100 }), row('county', '48157', '2024', { pop2024: null })]
+    expect(buildResultTotals(rows, [POPULATION], GRAND)[0].values.pop2024).toBeNull()
+  })
+
+  it('sums counts but not rates, and recomputes ratio columns from the summed components', () => {
+    const perThousand: ResultColumn = {
+      metric: 'perCapita:per1000',
+      label: 'Births per 1,000',
+      numeric: true,
+      calculated: { fractionDigits: 2, ratioOf: { numerator: 'births2024', denominator: 'pop2024', scale: 1000 } },
+    }
+    const rows = [
+      row('county', '48201', '2024', { pop2024: 1000, births2024: 20, rbirth2024: 20, 'perCapita:per1000': 20 }),
+      row('county', '48157', '2024', { pop2024: 3000, births2024: 30, rbirth2024: 10, 'perCapita:per1000': 10 }),
+    ]
+    const [total] = buildResultTotals(rows, [POPULATION, BIRTHS, BIRTH_RATE, perThousand], GRAND)
+    expect(total.values.births2024).toBe(50)
+    expect(total.values).not.toHaveProperty('rbirth2024')
+    // 50 births per 4,000 residents, not the sum (30) or mean (15) of the row rates
+    expect(total.values['perCapita:per1000']).toBeCloseTo(12.5, 9)
+  })
+
+  it('adds group and state subtotals before the grand totals', () => {
+    const rows = [
+      row('county', '48201', '2024', { pop2024: 100 }, 'Gulf Coast'),
+      row('county', '48157', '2024', { pop2024: 50 }, 'Gulf Coast'),
+      row('state', '48', '2024', { pop2024: 1000 }),
+    ]
+    const totals = buildResultTotals(rows, [POPULATION], { byGroup: true, byState: true, grandTotal: true })
+    expect(totals.map((total) => [total.kind, total.label, total.values.pop2024])).toEqual([
+      ['group', 'Gulf Coast', 150],
+      ['state', 'Texas', 150],
+      ['grand', 'All counties', 150],
+      ['grand', 'All states', 1000],
+    ])
+  })
+})
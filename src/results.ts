@@ -0,0 +1,384 @@
+import type { ExportColumn, ExportTable } from './exportFormats'
+import { METRIC_CATALOG, formatMetricValue, getMetricDefinition } from './metrics'
+import { isListedType } from './selections'
+import type { JurisdictionType, MetricType, Selection } from './types'
+import { JURISDICTION_TYPES, formatNumber, getTypeLabel, getTypePlural } from './utils'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+// One row per jurisdiction, with a value for each metric selected for it
+export interface ResultRow {
+  key: string
+  stateName: string
+  stateFips: string
+  type: JurisdictionType
+  jurisdictionName: string
+  jurisdictionCode: string
+  // Label of the data vintage the values came from
+  vintage: string
+  vintageId: string
+  // User-defined group; null when the row isn't in one
+  group: string | null
+  values: Partial<Record<MetricType, { display: string; numeric: number | null }>>
+}
+
+export interface ResultColumn {
+  metric: MetricType
+  label: string
+  numeric: boolean
+  // Columns computed outside the metric catalog, such as the per-capita
+  // calculator's (perCapita.ts); summed in totals unless they are a ratio of
+  // two other columns, which totals recompute from the summed columns
+  calculated?: {
+    fractionDigits: number
+    ratioOf?: { numerator: MetricType; denominator: MetricType; scale: number }
+  }
+}
+
+// Fixed columns plus one per metric
+export type ResultSortKey = 'state' | 'type' | 'jurisdiction' | 'vintage' | 'group' | MetricType
+
+export interface ResultSort {
+  key: ResultSortKey
+  direction: 'ascending' | 'descending'
+}
+
+// Which total rows the table shows below the jurisdictions
+export interface ResultTotalsOptions {
+  byGroup: boolean
+  byState: boolean
+  grandTotal: boolean
+}
+
+export interface ResultTotal {
+  key: string
+  kind: 'group' | 'state' | 'grand'
+  label: string
+  // Number of jurisdiction rows summed
+  rowCount: number
+  // Summable metrics only; null when any row lacks a value
+  values: Partial<Record<MetricType, number | null>>
+}
+
+export interface ResultFilter {
+  text: string
+  stateFips: string
+  type: JurisdictionType | ''
+}
+
+// ========================================================
+// ROWS
+// ========================================================
+
+// One row per jurisdiction and vintage
+export function getResultRowKey(selection: Selection): string {
+  return `${selection.stateFips}-${selection.type}-${selection.jurisdictionCode}-${selection.vintage}`
+}
+
+/**
+ * One column per metric in the selections, in catalog order.
+ */
+export function buildResultColumns(selections: Selection[]): ResultColumn[] {
+  const uniqueMetrics = new Set(selections.map((sel) => sel.metric))
+  return METRIC_CATALOG.filter((def) => uniqueMetrics.has(def.id)).map((def) => ({
+    metric: def.id,
+    label: def.shortLabel,
+    numeric: def.kind !== 'code',
+  }))
+}
+
+/**
+ * Merges the selections into one row per jurisdiction and vintage, with a
+ * value for each of its metrics. `getVintageLabel` names the vintage shown.
+ */
+export function buildResultRows(selections: Selection[], getVintageLabel: (id: string) => string): ResultRow[] {
+  const rowMap = new Map<string, ResultRow>()
+
+  selections.forEach((sel) => {
+    const key = getResultRowKey(sel)
+
+    if (!rowMap.has(key)) {
+      rowMap.set(key, {
+        key,
+        stateName: sel.stateName,
+        stateFips: sel.stateFips,
+        type: sel.type,
+        jurisdictionName: sel.jurisdictionName,
+        jurisdictionCode: sel.jurisdictionCode,
+        vintage: getVintageLabel(sel.vintage),
+        vintageId: sel.vintage,
+        group: null,
+        values: {},
+      })
+    }
+
+    const row = rowMap.get(key)!
+    row.values[sel.metric] = { display: sel.value, numeric: sel.numericValue }
+    // A metric added after the row was grouped doesn't carry the group yet
+    row.group = row.group ?? sel.group ?? null
+  })
+
+  return Array.from(rowMap.values())
+}
+
+// ========================================================
+// FILTERING & SORTING
+// ========================================================
+
+export const EMPTY_RESULT_FILTER: ResultFilter = { text: '', stateFips: '', type: '' }
+
+export function filterResultRows(rows: ResultRow[], filter: ResultFilter): ResultRow[] {
+  const text = filter.text.trim().toLowerCase()
+  return rows.filter(
+    (row) =>
+      (!filter.stateFips || row.stateFips === filter.stateFips) &&
+      (!filter.type || row.type === filter.type) &&
+      (!text ||
+        row.jurisdictionName.toLowerCase().includes(text) ||
+        row.stateName.toLowerCase().includes(text) ||
+        row.jurisdictionCode.includes(text))
+  )
+}
+
+function getSortValue(row: ResultRow, key: ResultSortKey): string | number | null {
+  switch (key) {
+    case 'state':
+      return row.stateName
+    case 'type':
+      // By the label shown, not the type id
+      return getTypeLabel(row.type)
+    case 'jurisdiction':
+      return row.jurisdictionName
+    case 'vintage':
+      return row.vintage
+    case 'group':
+      return row.group
+    case 'code':
+      return row.jurisdictionCode
+    default:
+      return row.values[key]?.numeric ?? null
+  }
+}
+
+/**
+ * Sorts on the underlying numbers rather than the formatted strings, and on
+ * names alphabetically. Rows without a value always sort last.
+ */
+export function sortResultRows(rows: ResultRow[], sort: ResultSort | null): ResultRow[] {
+  if (!sort) return rows
+  const sign = sort.direction === 'ascending' ? 1 : -1
+
+  return [...rows].sort((a, b) => {
+    const aValue = getSortValue(a, sort.key)
+    const bValue = getSortValue(b, sort.key)
+    if (aValue === null || bValue === null) {
+      return aValue === bValue ? 0 : aValue === null ? 1 : -1
+    }
+    if (typeof aValue === 'number' && typeof bValue === 'number') {
+      return sign * (aValue - bValue)
+    }
+    return sign * String(aValue).localeCompare(String(bValue))
+  })
+}
+
+// ========================================================
+// TOTALS
+// ========================================================
+
+export const NO_TOTALS: ResultTotalsOptions = { byGroup: false, byState: false, grandTotal: false }
+
+export const TOTAL_KIND_LABELS: Record<ResultTotal['kind'], string> = {
+  group: 'Group subtotal',
+  state: 'State subtotal',
+  grand: 'Grand total',
+}
+
+/**
+ * Only counts of people add up across jurisdictions: populations, numeric
+ * change and components of change. Codes, rates and percentages don't.
+ */
+export function isSummableMetric(metric: MetricType): boolean {
+  return getMetricDefinition(metric)?.kind === 'count'
+}
+
+/**
+ * Whether a column gets a value in total rows: summable metrics, and
+ * calculated columns.
+ */
+export function isSummableColumn(column: ResultColumn): boolean {
+  return column.calculated ? true : isSummableMetric(column.metric)
+}
+
+export function formatColumnValue(column: ResultColumn, value: number): string {
+  if (column.calculated) return formatNumber(value, column.calculated.fractionDigits)
+  return formatMetricValue(column.metric, value)
+}
+
+function sumColumn(rows: ResultRow[], metric: MetricType): number | null {
+  let total = 0
+  for (const row of rows) {
+    const value = row.values[metric]?.numeric ?? null
+    if (value === null) return null
+    total += value
+  }
+  return total
+}
+
+function sumRows(key: string, kind: ResultTotal['kind'], label: string, rows: ResultRow[], columns: ResultColumn[]) {
+  const values: ResultTotal['values'] = {}
+  columns.forEach((col) => {
+    if (!isSummableColumn(col)) return
+    const ratioOf = col.calculated?.ratioOf
+    if (!ratioOf) {
+      values[col.metric] = sumColumn(rows, col.metric)
+      return
+    }
+    const numerator = sumColumn(rows, ratioOf.numerator)
+    const denominator = sumColumn(rows, ratioOf.denominator)
+    values[col.metric] = numerator !== null && denominator ? (numerator / denominator) * ratioOf.scale : null
+  })
+  return { key, kind, label, rowCount: rows.length, values }
+}
+
+function sumBy(
+  rows: ResultRow[],
+  columns: ResultColumn[],
+  kind: 'group' | 'state',
+  getKey: (row: ResultRow) => string | null,
+  getLabel: (row: ResultRow) => string
+): ResultTotal[] {
+  const byKey = new Map<string, ResultRow[]>()
+  rows.forEach((row) => {
+    const key = getKey(row)
+    if (key === null) return
+    if (!byKey.has(key)) byKey.set(key, [])
+    byKey.get(key)!.push(row)
+  })
+  return Array.from(byKey.entries())
+    .map(([key, members]) => sumRows(`${kind}-${key}`, kind, getLabel(members[0]), members, columns))
+    .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+// One grand total per jurisdiction type and vintage, since a state and its counties, a place
+// and its county, or one county in two vintages would be counted twice in a single sum
+function sumGrand(rows: ResultRow[], columns: ResultColumn[]): ResultTotal[] {
+  const byKey = new Map<string, ResultRow[]>()
+  rows.forEach((row) => {
+    const key = `${row.type}-${row.vintageId}`
+    if (!byKey.has(key)) byKey.set(key, [])
+    byKey.get(key)!.push(row)
+  })
+  if (byKey.size === 1) return [sumRows('grand', 'grand', 'All rows', rows, columns)]
+
+  const multipleVintages = new Set(rows.map((row) => row.vintageId)).size > 1
+  return Array.from(byKey.entries())
+    .map(([key, members]) => {
+      const { type, vintage } = members[0]
+      const label = `All ${getTypePlural(type)}${multipleVintages ? `, ${vintage}` : ''}`
+      const total = sumRows(`grand-${key}`, 'grand', label, members, columns)
+      return { order: JURISDICTION_TYPES.indexOf(type), total }
+    })
+    .sort((a, b) => a.order - b.order || a.total.label.localeCompare(b.total.label))
+    .map(({ total }) => total)
+}
+
+/**
+ * Subtotals per group and per state, then the grand totals, summed from the
+ * raw numbers rather than the formatted values. A total is left blank when
+ * any of its rows has no value for the metric, as for the national total.
+ * Ratio columns, such as per-capita values, divide the summed columns instead.
+ * Rows outside every group get no group subtotal, and state and national
+ * rows get no state subtotal, since they would only repeat themselves. When
+ * the rows mix jurisdiction types or vintages, each combination gets its own
+ * grand total.
+ */
+export function buildResultTotals(
+  rows: ResultRow[],
+  columns: ResultColumn[],
+  options: ResultTotalsOptions
+): ResultTotal[] {
+  if (rows.length === 0) return []
+  const totals: ResultTotal[] = []
+  if (options.byGroup) {
+    totals.push(...sumBy(rows, columns, 'group', (row) => row.group, (row) => row.group!))
+  }
+  if (options.byState) {
+    totals.push(
+      ...sumBy(
+        rows,
+        columns,
+        'state',
+        (row) => (isListedType(row.type) ? row.stateFips : null),
+        (row) => row.stateName
+      )
+    )
+  }
+  if (options.grandTotal) {
+    totals.push(...sumGrand(rows, columns))
+  }
+  return totals
+}
+
+// ========================================================
+// EXPORT
+// ========================================================
+
+/**
+ * The rows in export form, followed by the chosen totals with metrics that
+ * can't be summed left blank. GEOID/FIPS is always included so exports can be
+ * joined to other data.
+ */
+export function buildResultExportTable(
+  rows: ResultRow[],
+  columns: ResultColumn[],
+  totals: ResultTotalsOptions = NO_TOTALS
+): ExportTable {
+  const hasGroups = rows.some((row) => row.group)
+  const exportColumns: ExportColumn[] = [
+    { key: 'state', header: 'State', type: 'text' },
+    { key: 'type', header: 'Type', type: 'text' },
+    { key: 'jurisdiction', header: 'Jurisdiction', type: 'text' },
+    { key: 'code', header: 'GEOID / FIPS', type: 'text' },
+    { key: 'vintage', header: 'Vintage', type: 'text' },
+    ...(hasGroups ? [{ key: 'group', header: 'Group', type: 'text' } as const] : []),
+    ...columns
+      .filter((col) => col.metric !== 'code')
+      .map<ExportColumn>((col) => ({ key: col.metric, header: col.label, type: col.numeric ? 'number' : 'text' })),
+  ]
+
+  const records = rows.map((row) => {
+    const record: ExportTable['rows'][number] = {
+      state: row.stateName,
+      type: getTypeLabel(row.type),
+      jurisdiction: row.jurisdictionName,
+      code: row.jurisdictionCode,
+      vintage: row.vintage,
+      group: row.group,
+    }
+    columns.forEach((col) => {
+      if (col.metric === 'code') return
+      record[col.metric] = row.values[col.metric]?.numeric ?? null
+    })
+    return record
+  })
+
+  const totalRecords = buildResultTotals(rows, columns, totals).map((total) => {
+    const record: ExportTable['rows'][number] = {
+      state: total.kind === 'state' ? total.label : null,
+      type: TOTAL_KIND_LABELS[total.kind],
+      jurisdiction: `${total.label} (${total.rowCount} rows)`,
+      code: null,
+      vintage: null,
+      group: total.kind === 'group' ? total.label : null,
+    }
+    columns.forEach((col) => {
+      if (col.metric === 'code') return
+      record[col.metric] = total.values[col.metric] ?? null
+    })
+    return record
+  })
+
+  return { columns: exportColumns, rows: [...records, ...totalRecords] }
+}
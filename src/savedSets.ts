@@ -0,0 +1,145 @@
+import { toPerCapitaInputs } from './perCapita'
+import type { PerCapitaInputs } from './perCapita'
+import type { BasketEntry, JurisdictionType } from './types'
+import { JURISDICTION_TYPES } from './utils'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface SavedSet {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+  // Only codes, metrics, vintages and groups are stored; Census values are
+  // re-resolved on load. Entries saved before vintages existed use the current vintage.
+  entries: BasketEntry[]
+  // Per-capita calculator values entered for the set's jurisdictions
+  perCapita?: PerCapitaInputs
+}
+
+// ========================================================
+// STORAGE
+// ========================================================
+
+const STORAGE_KEY = 'jurisdiction-data-pull:saved-sets'
+
+function newId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function isBasketEntry(value: unknown): value is BasketEntry {
+  if (!value || typeof value !== 'object') return false
+  const entry = value as Record<string, unknown>
+  return (
+    JURISDICTION_TYPES.includes(entry.type as JurisdictionType) &&
+    typeof entry.code === 'string' &&
+    typeof entry.metric === 'string' &&
+    (entry.vintage === undefined || typeof entry.vintage === 'string') &&
+    (entry.group === undefined || typeof entry.group === 'string')
+  )
+}
+
+/**
+ * Validates one set from storage or an imported file. Returns null if the
+ * shape is wrong; invalid entries inside an otherwise valid set are dropped.
+ */
+function toSavedSet(value: unknown): SavedSet | null {
+  if (!value || typeof value !== 'object') return null
+  const set = value as Record<string, unknown>
+  if (typeof set.name !== 'string' || !Array.isArray(set.entries)) return null
+
+  const now = new Date().toISOString()
+  const perCapita = toPerCapitaInputs(set.perCapita)
+  return {
+    id: typeof set.id === 'string' ? set.id : newId(),
+    name: set.name,
+    createdAt: typeof set.createdAt === 'string' ? set.createdAt : now,
+    updatedAt: typeof set.updatedAt === 'string' ? set.updatedAt : now,
+    entries: set.entries.filter(isBasketEntry),
+    ...(perCapita ? { perCapita } : {}),
+  }
+}
+
+export function loadSavedSets(): SavedSet[] {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+    return parsed.map(toSavedSet).filter((set): set is SavedSet => set !== null)
+  } catch (err) {
+    console.error('Error reading saved query sets:', err)
+    return []
+  }
+}
+
+export function storeSavedSets(sets: SavedSet[]): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(sets))
+  } catch (err) {
+    // Storage can be full or disabled (private browsing); keep working in memory
+    console.error('Error saving query sets:', err)
+  }
+}
+
+// ========================================================
+// OPERATIONS
+// ========================================================
+
+export function createSavedSet(name: string, entries: BasketEntry[], perCapita?: PerCapitaInputs | null): SavedSet {
+  const now = new Date().toISOString()
+  return { id: newId(), name, createdAt: now, updatedAt: now, entries, ...(perCapita ? { perCapita } : {}) }
+}
+
+export function duplicateSavedSet(set: SavedSet, existingNames: string[]): SavedSet {
+  let name = `${set.name} (copy)`
+  for (let n = 2; existingNames.includes(name); n++) {
+    name = `${set.name} (copy ${n})`
+  }
+  return createSavedSet(name, [...set.entries], set.perCapita)
+}
+
+/**
+ * Number of distinct jurisdictions in a set (entries are per jurisdiction + metric).
+ */
+export function countJurisdictions(set: SavedSet): number {
+  return new Set(set.entries.map((entry) => `${entry.type}-${entry.code}`)).size
+}
+
+// ========================================================
+// IMPORT / EXPORT
+// ========================================================
+
+export function savedSetsToJson(sets: SavedSet[]): string {
+  return JSON.stringify({ version: 1, sets }, null, 2)
+}
+
+/**
+ * Reads sets exported by savedSetsToJson. Also accepts a bare array of sets or
+ * a single set. Imported sets get fresh ids so they never overwrite existing ones.
+ * Throws if the file contains no valid sets.
+ */
+export function parseSavedSetsJson(text: string): SavedSet[] {
+  const parsed: unknown = JSON.parse(text)
+
+  let candidates: unknown[]
+  if (Array.isArray(parsed)) {
+    candidates = parsed
+  } else if (parsed && typeof parsed === 'object' && Array.isArray((parsed as { sets?: unknown }).sets)) {
+    candidates = (parsed as { sets: unknown[] }).sets
+  } else {
+    candidates = [parsed]
+  }
+
+  const sets = candidates
+    .map(toSavedSet)
+    .filter((set): set is SavedSet => set !== null)
+    .map((set) => ({ ...set, id: newId() }))
+
+  if (sets.length === 0) {
+    throw new Error('No saved query sets found in file')
+  }
+  return sets
+}
@@ -0,0 +1,162 @@
+import { getAvailableMetrics, getLatestPopulationMetric, getMetricValue } from './metrics'
+import { normalizeName, stripLegalSuffix } from './nameMatching'
+import { resolveJurisdiction } from './selections'
+import type { JurisdictionLookups } from './selections'
+import { findState } from './stateCodes'
+import type { JurisdictionCandidate, JurisdictionType, MetricType, StateOption } from './types'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface SearchEntry {
+  candidate: JurisdictionCandidate
+  // Normalized full name and the same without its legal suffix
+  normalized: string
+  base: string
+  tokens: string[]
+  // Used to put the larger of several equally good matches first
+  population: number
+}
+
+// ========================================================
+// INDEX
+// ========================================================
+
+/**
+ * Flattens every place, county, state, county subdivision and consolidated
+ * city into one list for nationwide search. Matches are ranked by the latest
+ * population estimate each file has.
+ */
+export function buildSearchIndex(
+  lookups: JurisdictionLookups,
+  columnsByType: Record<JurisdictionType, Set<string>>
+): SearchEntry[] {
+  const entries: SearchEntry[] = []
+  const populationMetrics = new Map<JurisdictionType, MetricType>()
+  const getPopulationMetric = (type: JurisdictionType) => {
+    if (!populationMetrics.has(type)) {
+      populationMetrics.set(type, getLatestPopulationMetric(getAvailableMetrics(columnsByType[type])))
+    }
+    return populationMetrics.get(type) || ''
+  }
+
+  const add = (type: JurisdictionType, code: string) => {
+    const jurisdiction = resolveJurisdiction(lookups, type, code)
+    if (!jurisdiction) return
+    const { row, ...candidate } = jurisdiction
+    const normalized = normalizeName(candidate.name)
+    entries.push({
+      candidate,
+      normalized,
+      base: stripLegalSuffix(normalized),
+      tokens: normalized.split(' '),
+      population: getMetricValue(row, getPopulationMetric(type)) ?? 0,
+    })
+  }
+
+  lookups.placeLookup.forEach((_row, geoid) => add('place', geoid))
+  lookups.countyLookup.forEach((_row, fips) => add('county', fips))
+  lookups.stateLookup.forEach((_row, fips) => add('state', fips))
+  lookups.subcountyLookups.cousub.forEach((_row, geoid) => add('cousub', geoid))
+  lookups.subcountyLookups.concity.forEach((_row, geoid) => add('concity', geoid))
+
+  return entries
+}
+
+// ========================================================
+// MATCHING
+// ========================================================
+
+// Edit distance, giving up early once it exceeds max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// How well one query word matches a name: exact, prefix, or a typo away
+function scoreToken(queryToken: string, nameTokens: string[]): number {
+  const maxTypos = queryToken.length >= 8 ? 2 : queryToken.length >= 4 ? 1 : 0
+  let best = 0
+  for (const token of nameTokens) {
+    if (token === queryToken) return 3
+    if (token.startsWith(queryToken)) {
+      best = Math.max(best, 2)
+    } else if (best === 0 && maxTypos > 0 && editDistance(queryToken, token, maxTypos) <= maxTypos) {
+      best = 1
+    }
+  }
+  return best
+}
+
+function scoreEntry(entry: SearchEntry, query: string, queryTokens: string[]): number {
+  let score = 0
+  for (const queryToken of queryTokens) {
+    const tokenScore = scoreToken(queryToken, entry.tokens)
+    // Every word of the query has to match something
+    if (tokenScore === 0) return 0
+    score += tokenScore
+  }
+  if (entry.normalized === query || entry.base === query) {
+    score += 10
+  } else if (entry.normalized.startsWith(query)) {
+    score += 3
+  }
+  return score
+}
+
+/**
+ * Searches all jurisdictions by name. Tolerates accents, abbreviations
+ * ("St." / "Saint", "Twp" / "township"), word prefixes and small typos.
+ * A trailing ", State" (name, abbreviation or FIPS) limits results to that state.
+ * Best matches first, larger jurisdictions first among equals.
+ */
+export function searchJurisdictions(
+  index: SearchEntry[],
+  input: string,
+  states: StateOption[],
+  limit = 20
+): JurisdictionCandidate[] {
+  let namePart = input
+  let stateFips: string | null = null
+
+  const comma = input.lastIndexOf(',')
+  if (comma > 0) {
+    const state = findState(input.slice(comma + 1).trim(), states)
+    if (state) {
+      namePart = input.slice(0, comma)
+      stateFips = state.fips
+    }
+  }
+
+  const query = normalizeName(namePart)
+  if (!query) return []
+  const queryTokens = query.split(' ')
+
+  const scored: { entry: SearchEntry; score: number }[] = []
+  for (const entry of index) {
+    if (stateFips && entry.candidate.stateFips !== stateFips) continue
+    const score = scoreEntry(entry, query, queryTokens)
+    if (score > 0) {
+      scored.push({ entry, score })
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.entry.population - a.entry.population)
+    .slice(0, limit)
+    .map(({ entry }) => entry.candidate)
+}
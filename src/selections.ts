@@ -0,0 +1,293 @@
+import { formatMetricValue, getMetricDefinition, getMetricLabel, getMetricValue, isMetricAvailable } from './metrics'
+import { NATION_FIPS, NATION_NAME } from './aggregates'
+import { findCodeChange, getSuccessorGroup } from './crosswalk'
+import type { CodeChange } from './crosswalk'
+import { getSubcountyLevel, getSubcountyName } from './subcounty'
+import type {
+  BasketEntry,
+  CensusRow,
+  CountyRow,
+  JurisdictionCandidate,
+  JurisdictionOption,
+  JurisdictionType,
+  MetricType,
+  PlaceRow,
+  Selection,
+  SubcountyType,
+} from './types'
+import { getCountyFIPS, getPlaceGEOID, getTypeLabel, padState } from './utils'
+
+// ========================================================
+// SELECTIONS
+// ========================================================
+
+export interface JurisdictionLookups {
+  placeLookup: Map<string, PlaceRow>
+  countyLookup: Map<string, CountyRow>
+  // State total rows (SUMLEV 040) keyed by 2-digit FIPS
+  stateLookup: Map<string, CountyRow>
+  // Sum of the state rows; null until the county file is loaded
+  nationRow: CountyRow | null
+  // County subdivisions, consolidated cities and parts, keyed by GEOID
+  subcountyLookups: Record<SubcountyType, Map<string, PlaceRow>>
+}
+
+// The loaded data of one vintage, as far as building selections needs it
+export interface VintageSource {
+  lookups: JurisdictionLookups
+  columnsByType: Record<JurisdictionType, Set<string>>
+}
+
+export interface ResolvedJurisdiction extends JurisdictionCandidate {
+  row: CensusRow
+}
+
+// Types picked from a state's list, as opposed to state and national totals
+export type ListedType = Exclude<JurisdictionType, 'state' | 'nation'>
+
+export function isListedType(type: JurisdictionType): type is ListedType {
+  return type !== 'state' && type !== 'nation'
+}
+
+/**
+ * Code → row lookup of a listed type.
+ */
+export function getTypeLookup(lookups: JurisdictionLookups, type: ListedType): Map<string, CensusRow> {
+  if (type === 'place') return lookups.placeLookup
+  if (type === 'county') return lookups.countyLookup
+  return lookups.subcountyLookups[type]
+}
+
+/**
+ * Finds a jurisdiction by type and code: a 7-digit place GEOID, 5-digit county
+ * FIPS, 2-digit state FIPS, the national code 00, or the GEOID of a sub-county
+ * level (subcounty.ts).
+ * Returns null when the code isn't in the loaded data.
+ */
+export function resolveJurisdiction(
+  lookups: JurisdictionLookups,
+  type: JurisdictionType,
+  code: string
+): ResolvedJurisdiction | null {
+  switch (type) {
+    case 'place': {
+      const row = lookups.placeLookup.get(code)
+      if (!row) return null
+      return {
+        type,
+        code: getPlaceGEOID(row.STATE, row.PLACE),
+        name: row.NAME,
+        stateFips: padState(row.STATE),
+        stateName: row.STNAME,
+        row,
+      }
+    }
+    case 'county': {
+      const row = lookups.countyLookup.get(code)
+      if (!row) return null
+      return {
+        type,
+        code: getCountyFIPS(row.STATE, row.COUNTY),
+        name: row.CTYNAME,
+        stateFips: padState(row.STATE),
+        stateName: row.STNAME,
+        row,
+      }
+    }
+    case 'state': {
+      const row = lookups.stateLookup.get(code)
+      if (!row) return null
+      const stateFips = padState(row.STATE)
+      return { type, code: stateFips, name: row.STNAME, stateFips, stateName: row.STNAME, row }
+    }
+    case 'nation': {
+      const row = lookups.nationRow
+      if (!row || code !== NATION_FIPS) return null
+      return { type, code: NATION_FIPS, name: NATION_NAME, stateFips: NATION_FIPS, stateName: NATION_NAME, row }
+    }
+    default: {
+      const row = lookups.subcountyLookups[type].get(code)
+      if (!row) return null
+      return {
+        type,
+        code,
+        name: getSubcountyName(lookups, getSubcountyLevel(type), row),
+        stateFips: padState(row.STATE),
+        stateName: row.STNAME,
+        row,
+      }
+    }
+  }
+}
+
+/**
+ * Key identifying one jurisdiction + metric + vintage, used to avoid adding the
+ * same query to the basket twice.
+ */
+export function getSelectionKey(type: JurisdictionType, code: string, metric: MetricType, vintage: string): string {
+  return `${type}-${code}-${metric}-${vintage}`
+}
+
+/**
+ * Builds a basket selection for a jurisdiction code.
+ * Returns null when the code isn't in the loaded data.
+ */
+export function createSelection(
+  lookups: JurisdictionLookups,
+  type: JurisdictionType,
+  code: string,
+  metric: MetricType,
+  vintage: string
+): Selection | null {
+  const jurisdiction = resolveJurisdiction(lookups, type, code)
+  if (!jurisdiction) return null
+
+  let value = jurisdiction.code
+  let numericValue: number | null = null
+  if (metric !== 'code') {
+    // Missing or non-numeric values stay null and show as a dash in Results
+    numericValue = getMetricValue(jurisdiction.row, metric)
+    value = numericValue === null ? '' : formatMetricValue(metric, numericValue)
+  }
+
+  return {
+    id: `${Date.now()}-${Math.random()}`,
+    stateName: jurisdiction.stateName,
+    stateFips: jurisdiction.stateFips,
+    type,
+    jurisdictionName: jurisdiction.name,
+    jurisdictionCode: jurisdiction.code,
+    metric,
+    metricLabel: getMetricLabel(metric),
+    vintage,
+    value,
+    numericValue,
+  }
+}
+
+export function toBasketEntry(selection: Selection): BasketEntry {
+  return {
+    type: selection.type,
+    code: selection.jurisdictionCode,
+    metric: selection.metric,
+    vintage: selection.vintage,
+    ...(selection.group ? { group: selection.group } : {}),
+  }
+}
+
+export interface UnresolvedEntry {
+  entry: BasketEntry
+  reason: string
+}
+
+// An entry whose code was retired and was answered for its successors instead
+export interface RedirectedEntry {
+  entry: BasketEntry
+  change: CodeChange
+}
+
+/**
+ * Selections for the successors of a retired code, per the crosswalk in
+ * crosswalk.ts. The successors of a split or replacement go in a group named
+ * after the retired jurisdiction unless the entry has a group already. Returns null when the
+ * code isn't retired or none of its successors are in the data.
+ */
+export function createSuccessorSelections(
+  lookups: JurisdictionLookups,
+  type: JurisdictionType,
+  code: string,
+  metric: MetricType,
+  vintage: string,
+  group?: string
+): { selections: Selection[]; change: CodeChange } | null {
+  const change = findCodeChange(type, code)
+  if (!change) return null
+  const successorGroup = group || getSuccessorGroup(change)
+  const selections = change.successors
+    .map((successor) => createSelection(lookups, type, successor.code, metric, vintage))
+    .filter((selection): selection is Selection => selection !== null)
+    .map((selection) => (successorGroup ? { ...selection, group: successorGroup } : selection))
+  return selections.length > 0 ? { selections, change } : null
+}
+
+/**
+ * Rebuilds selections from stored basket entries (shared links, saved sets)
+ * against the loaded vintages. Entries without a vintage use
+ * `defaultVintage`. Entries whose vintage, code or metric can't be answered
+ * are returned separately so the UI can report them, as are retired codes
+ * that were answered for their successors.
+ */
+export function resolveBasketEntries(
+  sources: Record<string, VintageSource>,
+  defaultVintage: string,
+  entries: BasketEntry[]
+): { selections: Selection[]; unresolved: UnresolvedEntry[]; redirected: RedirectedEntry[] } {
+  const selections: Selection[] = []
+  const unresolved: UnresolvedEntry[] = []
+  const redirected: RedirectedEntry[] = []
+  const seen = new Set<string>()
+
+  entries.forEach((entry) => {
+    const vintage = entry.vintage || defaultVintage
+    const key = getSelectionKey(entry.type, entry.code, entry.metric, vintage)
+    if (seen.has(key)) return
+    seen.add(key)
+
+    const source = sources[vintage]
+    if (!source) {
+      unresolved.push({ entry, reason: `Data vintage "${vintage}" isn't available` })
+      return
+    }
+
+    if (!getMetricDefinition(entry.metric)) {
+      unresolved.push({ entry, reason: `Unknown metric "${entry.metric}"` })
+      return
+    }
+    if (!isMetricAvailable(entry.metric, source.columnsByType[entry.type])) {
+      unresolved.push({ entry, reason: `${getMetricLabel(entry.metric)} isn't available for this jurisdiction type` })
+      return
+    }
+
+    const selection = createSelection(source.lookups, entry.type, entry.code, entry.metric, vintage)
+    if (!selection) {
+      const successors = createSuccessorSelections(
+        source.lookups,
+        entry.type,
+        entry.code,
+        entry.metric,
+        vintage,
+        entry.group
+      )
+      if (successors) {
+        successors.selections.forEach((successor) => {
+          const successorKey = getSelectionKey(successor.type, successor.jurisdictionCode, successor.metric, vintage)
+          if (seen.has(successorKey)) return
+          seen.add(successorKey)
+          selections.push(successor)
+        })
+        redirected.push({ entry, change: successors.change })
+        return
+      }
+      unresolved.push({
+        entry,
+        reason: `No ${getTypeLabel(entry.type).toLowerCase()} with code ${entry.code} in the loaded data`,
+      })
+      return
+    }
+    selections.push(entry.group ? { ...selection, group: entry.group } : selection)
+  })
+
+  return { selections, unresolved, redirected }
+}
+
+/**
+ * ComboBox option for a jurisdiction code, or null if it isn't loaded.
+ */
+export function getJurisdictionOption(
+  lookups: JurisdictionLookups,
+  type: JurisdictionType,
+  code: string
+): JurisdictionOption | null {
+  const jurisdiction = resolveJurisdiction(lookups, type, code)
+  return jurisdiction ? { value: jurisdiction.code, label: jurisdiction.name } : null
+}
@@ -0,0 +1,97 @@
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface AvailableUpdate {
+  // True when the new version ships different Census data, not just app changes
+  dataChanged: boolean
+  // Activates the new version and reloads the page
+  apply: () => void
+}
+
+interface WorkerVersion {
+  version: string
+  dataVersion: string
+}
+
+// ========================================================
+// REGISTRATION
+// ========================================================
+
+// Asks a service worker which build it belongs to
+function getVersion(worker: ServiceWorker): Promise<WorkerVersion | null> {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel()
+    channel.port1.onmessage = (event: MessageEvent<WorkerVersion>) => resolve(event.data)
+    worker.postMessage({ type: 'GET_VERSION' }, [channel.port2])
+    // Workers from before version reporting never answer
+    setTimeout(() => resolve(null), 2000)
+  })
+}
+
+/**
+ * Registers sw.js (production builds only) and calls onUpdate when a new
+ * version has been downloaded and is waiting. The page keeps running the old
+ * version until the user applies the update.
+ */
+export function registerServiceWorker(onUpdate: (update: AvailableUpdate) => void): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+
+  const base = import.meta.env.BASE_URL
+
+  // Set when the user applies an update. The first install also changes the
+  // controller (the worker claims the page), which must not reload it.
+  let updateApplied = false
+
+  const announce = async (registration: ServiceWorkerRegistration, waiting: ServiceWorker) => {
+    const [current, next] = await Promise.all([
+      registration.active ? getVersion(registration.active) : null,
+      getVersion(waiting),
+    ])
+    onUpdate({
+      dataChanged: !current || !next || current.dataVersion !== next.dataVersion,
+      apply: () => {
+        updateApplied = true
+        waiting.postMessage({ type: 'SKIP_WAITING' })
+      },
+    })
+  }
+
+  // Reload once the new worker takes over, so the page runs the new build
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!updateApplied) return
+    updateApplied = false
+    window.location.reload()
+  })
+
+  const register = async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`${base}sw.js`, { scope: base })
+
+      // An update downloaded during an earlier visit
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        announce(registration, registration.waiting)
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing
+        if (!installing) return
+        installing.addEventListener('statechange', () => {
+          // The first install has nothing to replace; only later installs are updates
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            announce(registration, installing)
+          }
+        })
+      })
+    } catch (err) {
+      console.error('Service worker registration failed:', err)
+    }
+  }
+
+  // Register after the page has loaded so precaching doesn't compete with it
+  if (document.readyState === 'complete') {
+    register()
+  } else {
+    window.addEventListener('load', register)
+  }
+}
@@ -0,0 +1,79 @@
+import type { StateOption } from './types'
+
+// USPS abbreviations keyed by 2-digit state FIPS code
+export const STATE_ABBREVIATIONS: Record<string, string> = {
+  '01': 'AL',
+  '02': 'AK',
+  '04': 'AZ',
+  '05': 'AR',
+  '06': 'CA',
+  '08': 'CO',
+  '09': 'CT',
+  '10': 'DE',
+  '11': 'DC',
+  '12': 'FL',
+  '13': 'GA',
+  '15': 'HI',
+  '16': 'ID',
+  '17': 'IL',
+  '18': 'IN',
+  '19': 'IA',
+  '20': 'KS',
+  '21': 'KY',
+  '22': 'LA',
+  '23': 'ME',
+  '24': 'MD',
+  '25': 'MA',
+  '26': 'MI',
+  '27': 'MN',
+  '28': 'MS',
+  '29': 'MO',
+  '30': 'MT',
+  '31': 'NE',
+  '32': 'NV',
+  '33': 'NH',
+  '34': 'NJ',
+  '35': 'NM',
+  '36': 'NY',
+  '37': 'NC',
+  '38': 'ND',
+  '39': 'OH',
+  '40': 'OK',
+  '41': 'OR',
+  '42': 'PA',
+  '44': 'RI',
+  '45': 'SC',
+  '46': 'SD',
+  '47': 'TN',
+  '48': 'TX',
+  '49': 'UT',
+  '50': 'VT',
+  '51': 'VA',
+  '53': 'WA',
+  '54': 'WV',
+  '55': 'WI',
+  '56': 'WY',
+  '72': 'PR',
+}
+
+/**
+ * Finds a state from free text: full name ("Texas"), USPS abbreviation ("TX")
+ * or FIPS code ("48" / "8"). Case-insensitive.
+ */
+export function findState(input: string, states: StateOption[]): StateOption | null {
+  const value = input.trim().replace(/\.$/, '')
+  if (!value) return null
+
+  if (/^\d{1,2}$/.test(value)) {
+    const fips = value.padStart(2, '0')
+    return states.find((s) => s.fips === fips) || null
+  }
+
+  const upper = value.toUpperCase()
+  if (upper.length === 2) {
+    return states.find((s) => STATE_ABBREVIATIONS[s.fips] === upper) || null
+  }
+
+  const lower = value.toLowerCase()
+  return states.find((s) => s.name.toLowerCase() === lower) || null
+}
@@ -0,0 +1,135 @@
+import type { JurisdictionLookups } from './selections'
+import type { CensusRow, JurisdictionType, SubcountyType } from './types'
+import { getCountyFIPS, padState } from './utils'
+
+// The place file's summary levels besides incorporated places (162): county
+// subdivisions, consolidated cities and the parts places and both of those
+// are split into. DOM-free, like dataIndex.ts.
+
+// ========================================================
+// LEVELS
+// ========================================================
+
+type CodeField = 'COUNTY' | 'COUSUB' | 'PLACE' | 'CONCIT'
+
+export interface SubcountyLevel {
+  type: SubcountyType
+  sumlev: string
+  hint: string
+  // Codes after the state FIPS that make up the GEOID, with their widths
+  codeFields: { field: CodeField; width: number }[]
+  // Level whose name is added to tell rows with the same name apart
+  container: 'county' | SubcountyType | null
+}
+
+export const SUBCOUNTY_LEVELS: SubcountyLevel[] = [
+  {
+    type: 'cousub',
+    sumlev: '061',
+    hint: 'Towns, townships and other minor civil divisions. In New England and much of the Midwest these are general-purpose governments.',
+    codeFields: [
+      { field: 'COUNTY', width: 3 },
+      { field: 'COUSUB', width: 5 },
+    ],
+    container: 'county',
+  },
+  {
+    type: 'cousubPart',
+    sumlev: '071',
+    hint: 'The part of a town or township that lies in one city/place.',
+    codeFields: [
+      { field: 'COUNTY', width: 3 },
+      { field: 'COUSUB', width: 5 },
+      { field: 'PLACE', width: 5 },
+    ],
+    container: 'cousub',
+  },
+  {
+    type: 'placePart',
+    sumlev: '157',
+    hint: 'The part of a city/place that lies in one county.',
+    codeFields: [
+      { field: 'COUNTY', width: 3 },
+      { field: 'PLACE', width: 5 },
+    ],
+    container: 'county',
+  },
+  {
+    type: 'concity',
+    sumlev: '170',
+    hint: 'A city consolidated with its county that still contains other incorporated places, such as Indianapolis or Nashville.',
+    codeFields: [{ field: 'CONCIT', width: 5 }],
+    container: null,
+  },
+  {
+    type: 'concityPart',
+    sumlev: '172',
+    hint: "A place within a consolidated city, or the consolidated city's balance outside them.",
+    codeFields: [
+      { field: 'CONCIT', width: 5 },
+      { field: 'PLACE', width: 5 },
+    ],
+    container: 'concity',
+  },
+]
+
+export const SUBCOUNTY_TYPES: SubcountyType[] = SUBCOUNTY_LEVELS.map((level) => level.type)
+
+const LEVELS_BY_TYPE = new Map(SUBCOUNTY_LEVELS.map((level) => [level.type, level]))
+const LEVELS_BY_SUMLEV = new Map(SUBCOUNTY_LEVELS.map((level) => [level.sumlev, level]))
+
+export function isSubcountyType(type: JurisdictionType): type is SubcountyType {
+  return LEVELS_BY_TYPE.has(type as SubcountyType)
+}
+
+export function getSubcountyLevel(type: SubcountyType): SubcountyLevel {
+  return LEVELS_BY_TYPE.get(type)!
+}
+
+export function findSubcountyLevel(sumlev: string | undefined): SubcountyLevel | null {
+  return (sumlev && LEVELS_BY_SUMLEV.get(sumlev)) || null
+}
+
+/**
+ * A record with one entry per sub-county type.
+ */
+export function bySubcountyType<T>(create: (type: SubcountyType) => T): Record<SubcountyType, T> {
+  return Object.fromEntries(SUBCOUNTY_TYPES.map((type) => [type, create(type)])) as Record<SubcountyType, T>
+}
+
+// ========================================================
+// CODES AND NAMES
+// ========================================================
+
+/**
+ * GEOID of a row of the level, e.g. state + county + county subdivision
+ * (10 digits) for SUMLEV 061. Null when one of the codes is missing.
+ */
+export function getSubcountyGEOID(level: SubcountyLevel, row: CensusRow): string | null {
+  if (!row.STATE) return null
+  let geoid = padState(row.STATE)
+  for (const { field, width } of level.codeFields) {
+    const code = row[field]?.trim()
+    if (!code) return null
+    geoid += code.padStart(width, '0')
+  }
+  return geoid
+}
+
+/**
+ * Name of a row with the name of its county, county subdivision or
+ * consolidated city, e.g. "Washington township, Adams County", since names
+ * repeat within a state. Just the row's name when that isn't loaded.
+ */
+export function getSubcountyName(lookups: JurisdictionLookups, level: SubcountyLevel, row: CensusRow): string {
+  const name = row.NAME || ''
+  if (!level.container || !row.STATE) return name
+  if (level.container === 'county') {
+    const county = row.COUNTY ? lookups.countyLookup.get(getCountyFIPS(row.STATE, row.COUNTY)) : undefined
+    return county ? `${name}, ${county.CTYNAME}` : name
+  }
+  const containerLevel = getSubcountyLevel(level.container)
+  const geoid = getSubcountyGEOID(containerLevel, row)
+  const container = geoid ? lookups.subcountyLookups[level.container].get(geoid) : undefined
+  return container ? `${name}, ${getSubcountyName(lookups, containerLevel, container)}` : name
+}
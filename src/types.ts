@@ -0,0 +1,89 @@
+// A parsed CSV row. Metric columns (POPESTIMATE2024, BIRTHS2024, ...) vary by
+// file and are read through the metric catalog in metrics.ts.
+export interface CensusRow {
+  [column: string]: string | undefined
+}
+
+// A row of the place (sub-county) file. Which codes are filled depends on the
+// summary level; see subcounty.ts. Files loaded from the user's computer only
+// have PLACE.
+export interface PlaceRow extends CensusRow {
+  STNAME: string
+  STATE: string
+  NAME: string
+  // 5-digit place code; 00000 on county subdivision and consolidated city rows
+  PLACE: string
+  SUMLEV: string
+  // 3-digit county code of county subdivisions (061, 071) and place parts (157)
+  COUNTY?: string
+  // 5-digit county subdivision code (061, 071)
+  COUSUB?: string
+  // 5-digit consolidated city code (170, 172)
+  CONCIT?: string
+}
+
+export interface CountyRow extends CensusRow {
+  STNAME: string
+  STATE: string
+  CTYNAME: string
+  COUNTY: string
+  SUMLEV: string
+}
+
+export interface StateOption {
+  name: string
+  fips: string
+}
+
+export interface JurisdictionOption {
+  value: string
+  label: string
+}
+
+// Further summary levels of the place file: county subdivisions (towns and
+// townships), consolidated cities, and the parts these and places are split into
+export type SubcountyType = 'cousub' | 'cousubPart' | 'placePart' | 'concity' | 'concityPart'
+
+// 'state' rows are the SUMLEV 040 totals in the county file; 'nation' is their sum
+export type JurisdictionType = 'place' | 'county' | 'state' | 'nation' | SubcountyType
+
+// A jurisdiction resolved from the loaded data, as offered in search and import results
+export interface JurisdictionCandidate {
+  type: JurisdictionType
+  code: string
+  name: string
+  stateFips: string
+  stateName: string
+}
+// Metric id from METRIC_CATALOG, e.g. 'pop2024', 'births2023' or 'code'
+export type MetricType = string
+
+// The part of a selection that identifies it, as stored in links and saved sets
+export interface BasketEntry {
+  type: JurisdictionType
+  code: string
+  metric: MetricType
+  // Data vintage id from vintages.json; absent in links and sets made before
+  // vintages existed, which use the current vintage
+  vintage?: string
+  // User-defined group the jurisdiction belongs to
+  group?: string
+}
+
+export interface Selection {
+  id: string
+  stateName: string
+  stateFips: string
+  type: JurisdictionType
+  jurisdictionName: string
+  jurisdictionCode: string
+  metric: MetricType
+  metricLabel: string
+  // Data vintage id the value was read from
+  vintage: string
+  value: string
+  // Parsed number behind `value` (null for codes), used for exports
+  numericValue: number | null
+  // User-defined group (e.g. a planning district) the jurisdiction belongs to
+  group?: string
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { decodeUrlState, encodeUrlState } from './urlState'
+import type { UrlState } from './urlState'
+
+const EMPTY: UrlState = {
+  vintage: null,
+  stateFips: null,
+  type: null,
+  jurisdiction: null,
+  metric: null,
+  basket: [],
+  perCapita: null,
+}
+
+describe('encodeUrlState / decodeUrlState', () => {
+  it('round-trips the form, the basket and entries from other vintages', () => {
+    const state: UrlState = {
+      vintage: '2024',
+      stateFips: '06',
+      type: 'place',
+      jurisdiction: '0644000',
+      metric: 'pop2024',
+      basket: [
+        { type: 'county', code: '01001', metric: 'pop2024', vintage: '2024' },
+        { type: 'county', code: '01001', metric: 'code', vintage: '2024' },
+        { type: 'place', code: '0644000', metric: 'pop2024', vintage: '2024' },
+        { type: 'county', code: '01001', metric: 'pop2023', vintage: '2023' },
+        { type: 'cousub', code: '0900104720', metric: 'pop2024', vintage: '2024' },
+      ],
+      perCapita: null,
+    }
+    expect(decodeUrlState(encodeUrlState(state))).toEqual(state)
+  })
+
+  it('keeps commas and colons in group names and the per-capita label', () => {
+    const state: UrlState = {
+      ...EMPTY,
+      vintage: '2024',
+      basket: [
+        { type: 'county', code: '48201', metric: 'pop2024', vintage: '2024', group: 'Region 6: Houston, Galveston' },
+        { type: 'county', code: '48167', metric: 'pop2024', vintage: '2024', group: 'Region 6: Houston, Galveston' },
+        { type: 'county', code: '48453', metric: 'pop2024', vintage: '2024' },
+      ],
+      perCapita: {
+        denominator: 'pop2024',
+        label: 'Dollars, FY2025: first round',
+        values: { 'county-48201': 125000, 'county-48453': 98000.5 },
+      },
+    }
+    const search = encodeUrlState(state)
+    expect(decodeUrlState(search)).toEqual(state)
+    // Commas are written as is, and still can't be mistaken for entry separators
+    expect(search).toContain('b=c48201.pop2024,c48167.pop2024,c48453.pop2024')
+  })
+
+  it('encodes an empty state as an empty string', () => {
+    expect(encodeUrlState(EMPTY)).toBe('')
+    expect(decodeUrlState('')).toEqual(EMPTY)
+  })
+
+  it('drops malformed basket entries and non-numeric per-capita values', () => {
+    const decoded = decodeUrlState(
+      '?b=c01001.pop2024,z123.pop2024,cABC.pop2024&pc=pop2024:Dollars&pv=c01001:12,c01003:x'
+    )
+    expect(decoded.basket).toEqual([{ type: 'county', code: '01001', metric: 'pop2024', vintage: undefined }])
+    expect(decoded.perCapita?.values).toEqual({ 'county-01001': 12 })
+  })
+})
@@ -0,0 +1,176 @@
+import { getJurisdictionKey } from './perCapita'
+import type { PerCapitaInputs } from './perCapita'
+import type { BasketEntry, JurisdictionType, MetricType } from './types'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface UrlState {
+  // Active data vintage id
+  vintage: string | null
+  stateFips: string | null
+  type: JurisdictionType | null
+  jurisdiction: string | null
+  metric: MetricType | null
+  basket: BasketEntry[]
+  // Per-capita calculator values for jurisdictions in the basket
+  perCapita: PerCapitaInputs | null
+}
+
+// ========================================================
+// ENCODING
+// ========================================================
+
+// One-letter prefixes keep basket entries short: c01001.pop2024.code
+const TYPE_PREFIXES: Record<JurisdictionType, string> = {
+  place: 'p',
+  county: 'c',
+  state: 's',
+  nation: 'n',
+  cousub: 't',
+  cousubPart: 'u',
+  placePart: 'q',
+  concity: 'x',
+  concityPart: 'y',
+}
+
+const PREFIX_TYPES = new Map(
+  Object.entries(TYPE_PREFIXES).map(([type, prefix]) => [prefix, type as JurisdictionType])
+)
+
+/**
+ * Encodes the basket and form state as a query string. Basket entries are
+ * grouped per jurisdiction, e.g. `b=c01001.pop2024.code,p0644000.pop2024`.
+ * Entries from a vintage other than the active one carry it after the code,
+ * as in `c01001_2023.pop2023`. Each user-defined group is one `g` parameter
+ * naming its jurisdictions after the last colon: `g=Region 3:c01001,c01003`.
+ * Per-capita calculator values follow their denominator and label, as in
+ * `pc=pop2024:Allocated dollars&pv=c01001:125000,p0644000:98000.5`.
+ * Only the query string is used, so links work under any base path.
+ */
+export function encodeUrlState(state: UrlState): string {
+  const params = new URLSearchParams()
+
+  if (state.vintage) params.set('v', state.vintage)
+  if (state.stateFips) params.set('state', state.stateFips)
+  if (state.type) params.set('type', state.type)
+  if (state.jurisdiction) params.set('j', state.jurisdiction)
+  if (state.metric) params.set('metric', state.metric)
+
+  const grouped = new Map<string, MetricType[]>()
+  const groupKeys = new Map<string, Set<string>>()
+  state.basket.forEach((entry) => {
+    const vintage = entry.vintage && entry.vintage !== state.vintage ? `_${entry.vintage}` : ''
+    const key = `${TYPE_PREFIXES[entry.type]}${entry.code}${vintage}`
+    if (!grouped.has(key)) {
+      grouped.set(key, [])
+    }
+    const metrics = grouped.get(key)!
+    if (!metrics.includes(entry.metric)) {
+      metrics.push(entry.metric)
+    }
+    if (entry.group) {
+      if (!groupKeys.has(entry.group)) groupKeys.set(entry.group, new Set())
+      groupKeys.get(entry.group)!.add(key)
+    }
+  })
+  if (grouped.size > 0) {
+    params.set(
+      'b',
+      Array.from(grouped.entries())
+        .map(([key, metrics]) => [key, ...metrics].join('.'))
+        .join(',')
+    )
+  }
+  groupKeys.forEach((keys, group) => params.append('g', `${group}:${Array.from(keys).join(',')}`))
+
+  if (state.perCapita) {
+    params.set('pc', `${state.perCapita.denominator}:${state.perCapita.label}`)
+    params.set(
+      'pv',
+      Object.entries(state.perCapita.values)
+        .map(([key, value]) => {
+          const [type, code] = key.split('-')
+          return `${TYPE_PREFIXES[type as JurisdictionType]}${code}:${value}`
+        })
+        .join(',')
+    )
+  }
+
+  const query = params.toString()
+  // URLSearchParams escapes the separators we use; they are safe in a query string
+  return query ? `?${query.replace(/%2C/g, ',')}` : ''
+}
+
+/**
+ * Reads state written by encodeUrlState. Malformed basket entries are dropped;
+ * entries without their own vintage get the active one, if the link names it.
+ * Groups naming jurisdictions that aren't in the basket are ignored, as are
+ * per-capita values that aren't numbers.
+ */
+export function decodeUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search)
+  const type = params.get('type')
+  const vintage = params.get('v')
+
+  // A group name may itself contain colons, so it ends at the last one
+  const groupByKey = new Map<string, string>()
+  params.getAll('g').forEach((param) => {
+    const split = param.lastIndexOf(':')
+    const name = param.slice(0, split).trim()
+    if (split < 0 || !name) return
+    param
+      .slice(split + 1)
+      .split(',')
+      .forEach((key) => groupByKey.set(key, name))
+  })
+
+  const basket: BasketEntry[] = []
+  const groups = (params.get('b') || '').split(',').filter(Boolean)
+  groups.forEach((group) => {
+    const [key, ...metrics] = group.split('.')
+    const entryType = PREFIX_TYPES.get(key.charAt(0))
+    const [code, entryVintage] = key.slice(1).split(/_(.*)/)
+    if (!entryType || !/^\d+$/.test(code)) return
+    const groupName = groupByKey.get(key)
+    metrics.filter(Boolean).forEach((metric) =>
+      basket.push({
+        type: entryType,
+        code,
+        metric,
+        vintage: entryVintage || vintage || undefined,
+        ...(groupName ? { group: groupName } : {}),
+      })
+    )
+  })
+
+  let perCapita: PerCapitaInputs | null = null
+  const perCapitaParam = params.get('pc')
+  if (perCapitaParam) {
+    const split = perCapitaParam.indexOf(':')
+    const values: Record<string, number> = {}
+    ;(params.get('pv') || '').split(',').forEach((item) => {
+      const [key, value] = item.split(':')
+      const entryType = PREFIX_TYPES.get(key.charAt(0))
+      const code = key.slice(1)
+      if (!entryType || !/^\d+$/.test(code) || !value || !Number.isFinite(Number(value))) return
+      values[getJurisdictionKey(entryType, code)] = Number(value)
+    })
+    perCapita = {
+      denominator: split < 0 ? perCapitaParam : perCapitaParam.slice(0, split),
+      label: split < 0 ? '' : perCapitaParam.slice(split + 1),
+      values,
+    }
+  }
+
+  return {
+    vintage,
+    stateFips: params.get('state'),
+    type: type && type in TYPE_PREFIXES ? (type as JurisdictionType) : null,
+    jurisdiction: params.get('j'),
+    metric: params.get('metric'),
+    basket,
+    perCapita,
+  }
+}
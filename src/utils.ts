@@ -0,0 +1,80 @@
+import type { JurisdictionType } from './types'
+
+export function formatNumber(value: number, fractionDigits = 0): string {
+  return new Intl.NumberFormat('en-US', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value)
+}
+
+// 1st, 2nd, 3rd, 11th, 22nd, ...
+export function formatOrdinal(value: number): string {
+  const teen = value % 100 >= 11 && value % 100 <= 13
+  const suffix = teen ? 'th' : ['th', 'st', 'nd', 'rd'][value % 10] || 'th'
+  return `${formatNumber(value)}${suffix}`
+}
+
+export function padState(state: string): string {
+  return state.padStart(2, '0')
+}
+
+export function padPlace(place: string): string {
+  return place.padStart(5, '0')
+}
+
+export function padCounty(county: string): string {
+  return county.padStart(3, '0')
+}
+
+export function getPlaceGEOID(state: string, place: string): string {
+  return padState(state) + padPlace(place)
+}
+
+export function getCountyFIPS(state: string, county: string): string {
+  return padState(state) + padCounty(county)
+}
+
+export const JURISDICTION_TYPES: JurisdictionType[] = [
+  'place',
+  'county',
+  'state',
+  'nation',
+  'cousub',
+  'cousubPart',
+  'placePart',
+  'concity',
+  'concityPart',
+]
+
+const TYPE_LABELS: Record<JurisdictionType, string> = {
+  place: 'City/Place',
+  county: 'County',
+  state: 'State',
+  nation: 'Nation',
+  cousub: 'County Subdivision',
+  cousubPart: 'County Subdivision Part',
+  placePart: 'City/Place Part',
+  concity: 'Consolidated City',
+  concityPart: 'Consolidated City Part',
+}
+
+export function getTypeLabel(type: JurisdictionType): string {
+  return TYPE_LABELS[type]
+}
+
+const TYPE_PLURALS: Record<JurisdictionType, string> = {
+  place: 'cities/places',
+  county: 'counties',
+  state: 'states',
+  nation: 'nations',
+  cousub: 'county subdivisions',
+  cousubPart: 'county subdivision parts',
+  placePart: 'city/place parts',
+  concity: 'consolidated cities',
+  concityPart: 'consolidated city parts',
+}
+
+// Lowercase plural, e.g. "cities/places"
+export function getTypePlural(type: JurisdictionType): string {
+  return TYPE_PLURALS[type]
+}
@@ -0,0 +1,112 @@
+import type { ExportColumn, ExportTable } from './exportFormats'
+import { getAvailableMetrics, getMetricValue } from './metrics'
+import type { MetricDefinition } from './metrics'
+import { resolveJurisdiction } from './selections'
+import type { VintageSource } from './selections'
+import type { JurisdictionType, MetricType } from './types'
+import { getTypeLabel } from './utils'
+
+// ========================================================
+// TYPES
+// ========================================================
+
+export interface VintageComparisonRow {
+  type: JurisdictionType
+  code: string
+  name: string
+  stateName: string
+  from: number | null
+  to: number | null
+  // to − from; null when either side is missing
+  revision: number | null
+  // Revision as a percentage of the earlier value
+  percentRevision: number | null
+}
+
+// ========================================================
+// COMPARISON
+// ========================================================
+
+function allColumns(source: VintageSource): Set<string> {
+  return new Set(Object.values(source.columnsByType).flatMap((columns) => [...columns]))
+}
+
+/**
+ * Metrics both vintages can answer for at least one jurisdiction type. The
+ * code metric is left out since codes don't get revised.
+ */
+export function getComparableMetrics(from: VintageSource, to: VintageSource): MetricDefinition[] {
+  const toColumns = allColumns(to)
+  const shared = new Set([...allColumns(from)].filter((column) => toColumns.has(column)))
+  return getAvailableMetrics(shared).filter((def) => def.kind !== 'code')
+}
+
+/**
+ * Reads one metric for each jurisdiction from two vintages. A jurisdiction
+ * missing from one vintage (a new or dissolved place) keeps its row with a
+ * null on that side.
+ */
+export function compareVintages(
+  jurisdictions: { type: JurisdictionType; code: string }[],
+  metric: MetricType,
+  from: VintageSource,
+  to: VintageSource
+): VintageComparisonRow[] {
+  const rows: VintageComparisonRow[] = []
+
+  jurisdictions.forEach(({ type, code }) => {
+    const fromJurisdiction = resolveJurisdiction(from.lookups, type, code)
+    const toJurisdiction = resolveJurisdiction(to.lookups, type, code)
+    const jurisdiction = toJurisdiction || fromJurisdiction
+    if (!jurisdiction) return
+
+    const fromValue = fromJurisdiction ? getMetricValue(fromJurisdiction.row, metric) : null
+    const toValue = toJurisdiction ? getMetricValue(toJurisdiction.row, metric) : null
+    const revision = fromValue !== null && toValue !== null ? toValue - fromValue : null
+
+    rows.push({
+      type,
+      code: jurisdiction.code,
+      name: jurisdiction.name,
+      stateName: jurisdiction.stateName,
+      from: fromValue,
+      to: toValue,
+      revision,
+      percentRevision: revision !== null && fromValue ? (revision / fromValue) * 100 : null,
+    })
+  })
+
+  return rows
+}
+
+export function comparisonToExportTable(
+  rows: VintageComparisonRow[],
+  metricLabel: string,
+  fromLabel: string,
+  toLabel: string
+): ExportTable {
+  const columns: ExportColumn[] = [
+    { key: 'state', header: 'State', type: 'text' },
+    { key: 'type', header: 'Type', type: 'text' },
+    { key: 'jurisdiction', header: 'Jurisdiction', type: 'text' },
+    { key: 'code', header: 'GEOID / FIPS', type: 'text' },
+    { key: 'from', header: `${metricLabel} (${fromLabel})`, type: 'number' },
+    { key: 'to', header: `${metricLabel} (${toLabel})`, type: 'number' },
+    { key: 'revision', header: 'Revision', type: 'number' },
+    { key: 'percentRevision', header: 'Revision (%)', type: 'number' },
+  ]
+
+  return {
+    columns,
+    rows: rows.map((row) => ({
+      state: row.stateName,
+      type: getTypeLabel(row.type),
+      jurisdiction: row.name,
+      code: row.code,
+      from: row.from,
+      to: row.to,
+      revision: row.revision,
+      percentRevision: row.percentRevision,
+    })),
+  }
+}
@@ -0,0 +1,122 @@
+// ========================================================
+// TYPES
+// ========================================================
+
+// One Census estimates release and the files it ships as
+export interface Vintage {
+  id: string
+  label: string
+  description?: string
+  // File names under public/data; null when a release has no file of that kind
+  files: {
+    places: string | null
+    counties: string | null
+  }
+  // Header in the file → column name the metric catalog expects, for releases
+  // that rename a column
+  columnAliases?: Record<string, string>
+}
+
+export interface VintageManifest {
+  defaultVintage: string
+  vintages: Vintage[]
+}
+
+// ========================================================
+// MANIFEST
+// ========================================================
+
+export const VINTAGE_MANIFEST_FILE = 'vintages.json'
+
+// Used when data/vintages.json is missing, matching the files this tool first shipped with
+export const FALLBACK_MANIFEST: VintageManifest = {
+  defaultVintage: '2024',
+  vintages: [
+    {
+      id: '2024',
+      label: 'Vintage 2024',
+      files: { places: 'sub-est2024.csv', counties: 'co-est2024-alldata.csv' },
+    },
+  ],
+}
+
+function isFileName(value: unknown): value is string | null {
+  return value === null || (typeof value === 'string' && value !== '')
+}
+
+// Header → catalog column pairs, both non-empty strings
+function isColumnAliases(value: unknown): value is Record<string, string> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.entries(value).every(([from, to]) => from !== '' && typeof to === 'string' && to !== '')
+  )
+}
+
+function toVintage(value: unknown): Vintage {
+  if (!value || typeof value !== 'object') throw new Error('Vintage entries must be objects')
+  const entry = value as Record<string, unknown>
+  const files = (entry.files || {}) as Record<string, unknown>
+
+  if (typeof entry.id !== 'string' || !/^[\w-]+$/.test(entry.id)) {
+    throw new Error(`Invalid vintage id ${JSON.stringify(entry.id)}`)
+  }
+  if (!isFileName(files.places ?? null) || !isFileName(files.counties ?? null)) {
+    throw new Error(`Vintage ${entry.id}: files.places and files.counties must be file names or null`)
+  }
+  if (entry.columnAliases !== undefined && !isColumnAliases(entry.columnAliases)) {
+    throw new Error(`Vintage ${entry.id}: columnAliases must map each file header to a column name`)
+  }
+
+  return {
+    id: entry.id,
+    label: typeof entry.label === 'string' ? entry.label : `Vintage ${entry.id}`,
+    description: typeof entry.description === 'string' ? entry.description : undefined,
+    files: { places: (files.places as string | null) ?? null, counties: (files.counties as string | null) ?? null },
+    columnAliases: entry.columnAliases,
+  }
+}
+
+/**
+ * Validates data/vintages.json. Throws with a readable message if it is malformed.
+ */
+export function parseVintageManifest(value: unknown): VintageManifest {
+  if (!value || typeof value !== 'object' || !Array.isArray((value as { vintages?: unknown }).vintages)) {
+    throw new Error(`${VINTAGE_MANIFEST_FILE} must contain a "vintages" array`)
+  }
+  const manifest = value as { defaultVintage?: unknown; vintages: unknown[] }
+  const vintages = manifest.vintages.map(toVintage)
+  if (vintages.length === 0) {
+    throw new Error(`${VINTAGE_MANIFEST_FILE} lists no vintages`)
+  }
+
+  const defaultVintage =
+    typeof manifest.defaultVintage === 'string' && vintages.some((v) => v.id === manifest.defaultVintage)
+      ? manifest.defaultVintage
+      : vintages[0].id
+  return { defaultVintage, vintages }
+}
+
+/**
+ * Loads the manifest, falling back to the built-in one if it can't be read.
+ */
+export async function fetchVintageManifest(baseUrl: string): Promise<VintageManifest> {
+  try {
+    const response = await fetch(`${baseUrl}data/${VINTAGE_MANIFEST_FILE}`)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    return parseVintageManifest(await response.json())
+  } catch (err) {
+    console.warn(`Could not load ${VINTAGE_MANIFEST_FILE}, using the built-in vintage list:`, err)
+    return FALLBACK_MANIFEST
+  }
+}
+
+// Prebuilt index for one vintage, written by scripts/dataIndexPlugin.ts
+export function getDataIndexFile(vintage: Vintage): string {
+  return `data-index-${vintage.id}.json`
+}
+
+export function getVintageLabel(manifest: VintageManifest, id: string): string {
+  return manifest.vintages.find((v) => v.id === id)?.label ?? `Vintage ${id}`
+}
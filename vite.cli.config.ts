@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite'
+
+// Builds the jurisdiction-pull command-line tool for Node. Dependencies stay
+// external and are loaded from node_modules.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'scripts/jurisdictionPull.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'jurisdiction-pull.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})
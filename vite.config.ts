@@ -1,7 +1,9 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import dataIndexPlugin from './scripts/dataIndexPlugin'
+import serviceWorkerPlugin from './scripts/serviceWorkerPlugin'
 
 export default defineConfig({
   base: '/Jurisdiction-data-pull/',
-  plugins: [react()],
+  plugins: [react(), dataIndexPlugin(), serviceWorkerPlugin()],
 })
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests of the DOM-free modules in src/; the app's Vite plugins aren't needed
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+})